@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Loader2, Plus, Radar } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+
+// A candidate returned by POST /api/discovery/scan
+export interface DiscoveredCamera {
+  address: string;
+  sources: Array<'onvif' | 'port-scan'>;
+  name?: string;
+  manufacturer?: string;
+  model?: string;
+  location?: string;
+  onvifUrl?: string;
+  openPorts: number[];
+  rtspServer?: string;
+  suggestedRtspUrl: string;
+  cameraId: number | null; // Set when a camera already uses this address
+}
+
+interface DiscoveryResult {
+  serverIp: string;
+  subnet: string;
+  candidates: DiscoveredCamera[];
+}
+
+interface CameraDiscoveryProps {
+  onAdd: (candidate: DiscoveredCamera) => void;
+}
+
+/**
+ * A name for a new camera from what the device reported about itself
+ */
+export function getDiscoveredCameraName(candidate: DiscoveredCamera): string {
+  if (candidate.name) return candidate.name;
+  const vendor = [candidate.manufacturer, candidate.model].filter(Boolean).join(' ');
+  return vendor ? `${vendor} (${candidate.address})` : `Camera ${candidate.address}`;
+}
+
+/**
+ * Scan the server's LAN for cameras and offer to add the ones found
+ */
+export function CameraDiscovery({ onAdd }: CameraDiscoveryProps) {
+  const [portScan, setPortScan] = useState(false);
+
+  const scan = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/discovery/scan', { portScan });
+      return res.json() as Promise<DiscoveryResult>;
+    },
+  });
+
+  const result = scan.data;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Switch id="discovery-port-scan" checked={portScan} onCheckedChange={setPortScan} />
+          <Label htmlFor="discovery-port-scan" className="text-sm">
+            Also scan for open RTSP ports (554, 8554)
+          </Label>
+        </div>
+        <Button onClick={() => scan.mutate()} disabled={scan.isPending}>
+          {scan.isPending ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Radar className="h-4 w-4 mr-2" />
+          )}
+          {scan.isPending ? 'Scanning...' : 'Scan Network'}
+        </Button>
+      </div>
+
+      {scan.isError && (
+        <Alert variant="destructive">
+          <AlertDescription>
+            {scan.error instanceof Error ? scan.error.message : 'Failed to scan for cameras'}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {result && (
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">
+            {result.candidates.length} device{result.candidates.length === 1 ? '' : 's'} found
+            {result.subnet && ` on ${result.subnet}.0/24`}
+          </p>
+
+          {result.candidates.length === 0 && (
+            <div className="p-6 border-2 border-dashed rounded-lg text-sm text-center text-muted-foreground">
+              No cameras answered. Cameras without ONVIF may still show up with the port scan enabled.
+            </div>
+          )}
+
+          {result.candidates.map((candidate) => (
+            <div key={candidate.address} className="flex items-center justify-between gap-3 rounded-md border p-3">
+              <div className="min-w-0 space-y-1">
+                <p className="font-medium truncate">{getDiscoveredCameraName(candidate)}</p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {candidate.address}
+                  {candidate.openPorts.length > 0 && ` • ports ${candidate.openPorts.join(', ')}`}
+                  {candidate.rtspServer && ` • ${candidate.rtspServer}`}
+                </p>
+                <div className="flex flex-wrap gap-1">
+                  {candidate.sources.map((source) => (
+                    <Badge key={source} variant="outline" className="text-xs">
+                      {source === 'onvif' ? 'ONVIF' : 'RTSP port'}
+                    </Badge>
+                  ))}
+                  {candidate.cameraId !== null && (
+                    <Badge variant="secondary" className="text-xs">Already added</Badge>
+                  )}
+                </div>
+              </div>
+              <Button
+                size="sm"
+                variant={candidate.cameraId !== null ? 'outline' : 'default'}
+                onClick={() => onAdd(candidate)}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
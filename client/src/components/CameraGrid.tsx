@@ -0,0 +1,139 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { ChevronLeft, ChevronRight, Loader2, Video } from 'lucide-react';
+import { useRtspStream, StreamMode } from '@/hooks/use-rtsp-stream';
+import { Camera, GridLayout } from '@shared/schema';
+
+interface CameraGridProps {
+  layout: Exclude<GridLayout, 'single'>;
+  mode: StreamMode;
+  onSelectCamera: (camera: Camera) => void;
+}
+
+interface CameraGridTileProps {
+  camera: Camera;
+  mode: StreamMode;
+  onSelect: () => void;
+}
+
+// Tailwind needs the full class names to be present in the source
+const GRID_COLUMNS: Record<CameraGridProps['layout'], string> = {
+  '2x2': 'grid-cols-2',
+  '3x3': 'grid-cols-3',
+  '4x4': 'grid-cols-4',
+};
+
+const STATUS_COLORS = {
+  connected: 'bg-green-500',
+  connecting: 'bg-yellow-500',
+  disconnected: 'bg-red-500',
+};
+
+/**
+ * One camera in the grid, streaming its low-quality substream
+ */
+function CameraGridTile({ camera, mode, onSelect }: CameraGridTileProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const { streamRef, connectionStatus, isConnecting } = useRtspStream({
+    cameraId: camera.id,
+    profile: 'sub',
+    mode,
+    canvasRef,
+  });
+
+  return (
+    <button
+      type="button"
+      onClick={onSelect}
+      className="group relative aspect-video overflow-hidden rounded-md bg-black text-left focus:outline-none focus:ring-2 focus:ring-primary"
+      title={`Open ${camera.name} in the main viewer`}
+    >
+      {/* JSMpeg draws into the canvas; HLS and WebRTC play in the video element */}
+      <canvas ref={canvasRef} className={`h-full w-full object-contain ${mode === 'jsmpeg' ? '' : 'hidden'}`} />
+      <video
+        ref={streamRef}
+        className={`h-full w-full object-contain ${mode === 'jsmpeg' ? 'hidden' : ''}`}
+        autoPlay
+        playsInline
+        muted
+      />
+
+      {isConnecting && (
+        <div className="absolute inset-0 flex items-center justify-center">
+          <Loader2 className="h-6 w-6 animate-spin text-white/70" />
+        </div>
+      )}
+
+      <div className="absolute bottom-0 left-0 right-0 flex items-center gap-2 bg-gradient-to-t from-black/80 to-transparent px-2 py-1 text-xs text-white">
+        <span className={`h-2 w-2 shrink-0 rounded-full ${STATUS_COLORS[connectionStatus]}`} />
+        <span className="truncate">{camera.name}</span>
+      </div>
+      <div className="absolute inset-0 ring-inset ring-primary group-hover:ring-2" />
+    </button>
+  );
+}
+
+/**
+ * Live view of several cameras at once. Each tile opens its own substream
+ * connection; clicking a tile hands the camera to the main viewer.
+ */
+export function CameraGrid({ layout, mode, onSelectCamera }: CameraGridProps) {
+  const [page, setPage] = useState(0);
+
+  const { data: cameras = [] } = useQuery<Camera[]>({
+    queryKey: ['/api/cameras'],
+  });
+
+  const activeCameras = cameras.filter((camera) => camera.isActive);
+  const tileCount = Number(layout[0]) ** 2;
+  const pageCount = Math.max(1, Math.ceil(activeCameras.length / tileCount));
+  const pageCameras = activeCameras.slice(page * tileCount, (page + 1) * tileCount);
+
+  // Stay on a page that exists when the layout grows or cameras are removed
+  useEffect(() => {
+    if (page >= pageCount) {
+      setPage(pageCount - 1);
+    }
+  }, [page, pageCount]);
+
+  if (activeCameras.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center p-10 border-2 border-dashed rounded-lg text-muted-foreground">
+        <Video className="h-12 w-12 mb-2" />
+        No active cameras to show.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className={`grid ${GRID_COLUMNS[layout]} gap-2`}>
+        {pageCameras.map((camera) => (
+          <CameraGridTile
+            key={camera.id}
+            camera={camera}
+            mode={mode}
+            onSelect={() => onSelectCamera(camera)}
+          />
+        ))}
+        {/* Keep the grid shape on a partly filled page */}
+        {Array.from({ length: tileCount - pageCameras.length }, (_, i) => (
+          <div key={`empty-${i}`} className="aspect-video rounded-md border-2 border-dashed" />
+        ))}
+      </div>
+
+      {pageCount > 1 && (
+        <div className="flex items-center justify-end gap-2 text-sm text-muted-foreground">
+          <Button variant="outline" size="icon" onClick={() => setPage(page - 1)} disabled={page === 0}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          Page {page + 1} of {pageCount}
+          <Button variant="outline" size="icon" onClick={() => setPage(page + 1)} disabled={page >= pageCount - 1}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import React, { useEffect, useState } from 'react';
+import { VideoOff } from 'lucide-react';
+
+interface CameraThumbnailProps {
+  cameraId: number;
+  width?: number;
+  refreshInterval?: number; // milliseconds
+  className?: string;
+}
+
+const DEFAULT_REFRESH_INTERVAL = 30000;
+
+/**
+ * A periodically refreshed still of a camera, taken by the server so no stream has to be opened
+ */
+export function CameraThumbnail({
+  cameraId,
+  width = 320,
+  refreshInterval = DEFAULT_REFRESH_INTERVAL,
+  className = ''
+}: CameraThumbnailProps) {
+  const [tick, setTick] = useState(() => Date.now());
+  const [hasError, setHasError] = useState(false);
+
+  useEffect(() => {
+    const interval = setInterval(() => setTick(Date.now()), refreshInterval);
+    return () => clearInterval(interval);
+  }, [refreshInterval]);
+
+  // Let the server hand out a cached frame as long as it is not older than one refresh (at most a minute)
+  const maxAge = Math.min(60, Math.max(1, Math.floor(refreshInterval / 1000)));
+  const src = `/api/cameras/${cameraId}/snapshot.jpg?width=${width}&maxAge=${maxAge}&t=${tick}`;
+
+  return (
+    <div className={`relative aspect-video bg-gray-900 overflow-hidden ${className}`}>
+      <img
+        src={src}
+        alt="Camera snapshot"
+        className={`h-full w-full object-cover ${hasError ? 'hidden' : ''}`}
+        onLoad={() => setHasError(false)}
+        onError={() => setHasError(true)}
+      />
+      {hasError && (
+        <div className="absolute inset-0 flex items-center justify-center text-gray-500">
+          <VideoOff className="h-8 w-8" />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,27 +4,40 @@ import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
-import { ChevronDown, ZoomIn, ZoomOut, Maximize } from "lucide-react";
+import { ChevronDown, ZoomIn, ZoomOut, Maximize, Scan, Move } from "lucide-react";
 import { CameraSettings } from "@/hooks/use-camera-settings";
+import { useAuth } from "@/hooks/use-auth";
 import { setupThreeJsScene, updateScene } from "@/lib/three-utils";
+import { MotionZoneEditor } from "./MotionZoneEditor";
+import { PtzControls, supportsPtz } from "./PtzControls";
+import { Camera, hasPermission } from "@shared/schema";
 
 interface CameraViewerProps {
   streamRef: React.RefObject<HTMLVideoElement>;
   isConnecting: boolean;
   streamUrl: string;
   settings: CameraSettings;
+  camera?: Camera | null;
+  onCameraUpdated?: (camera: Camera) => void;
 }
 
 const CameraViewer: React.FC<CameraViewerProps> = ({ 
   streamRef, 
   isConnecting, 
   streamUrl,
-  settings 
+  settings,
+  camera,
+  onCameraUpdated
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const sceneRef = useRef<any>(null);
   const [isFullscreen, setIsFullscreen] = useState(false);
+  const [isEditingZones, setIsEditingZones] = useState(false);
+  const { user } = useAuth();
+  const canEditZones = !!camera && hasPermission(user?.role, "cameras:configure");
+  const [isPtzOpen, setIsPtzOpen] = useState(false);
+  const canControlPtz = supportsPtz(camera) && hasPermission(user?.role, "cameras:ptz");
 
   // Initialize Three.js scene and handle updates
   useEffect(() => {
@@ -136,6 +149,21 @@ const CameraViewer: React.FC<CameraViewerProps> = ({
         className="w-full h-full"
       />
       
+      {/* Motion zones, highlighted live when triggered */}
+      {camera && (
+        <MotionZoneEditor
+          camera={camera}
+          isEditing={isEditingZones}
+          onClose={() => setIsEditingZones(false)}
+          onSaved={onCameraUpdated}
+        />
+      )}
+      
+      {/* Pan/tilt/zoom joystick and presets */}
+      {camera && canControlPtz && isPtzOpen && !isEditingZones && (
+        <PtzControls camera={camera} />
+      )}
+      
       {/* Loading state */}
       {isConnecting && (
         <div className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-70 z-10">
@@ -198,6 +226,30 @@ const CameraViewer: React.FC<CameraViewerProps> = ({
         </div>
         
         <div className="flex space-x-3">
+          {/* Motion zone editor toggle */}
+          {canEditZones && (
+            <Button
+              variant={isEditingZones ? "default" : "outline"}
+              size="icon"
+              onClick={() => setIsEditingZones(!isEditingZones)}
+              title="Edit motion zones"
+            >
+              <Scan className="h-5 w-5" />
+            </Button>
+          )}
+          
+          {/* PTZ controls toggle */}
+          {canControlPtz && (
+            <Button
+              variant={isPtzOpen ? "default" : "outline"}
+              size="icon"
+              onClick={() => setIsPtzOpen(!isPtzOpen)}
+              title="Pan, tilt and zoom"
+            >
+              <Move className="h-5 w-5" />
+            </Button>
+          )}
+          
           {/* Zoom controls */}
           <Button variant="outline" size="icon" onClick={handleZoomIn}>
             <ZoomIn className="h-5 w-5" />
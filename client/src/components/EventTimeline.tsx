@@ -0,0 +1,276 @@
+import React, { useMemo, useState } from 'react';
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { HoverCard, HoverCardContent, HoverCardTrigger } from '@/components/ui/hover-card';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Skeleton } from '@/components/ui/skeleton';
+import { RefreshCw } from 'lucide-react';
+import { Camera, CameraEvent } from '@shared/schema';
+
+// Events as returned by GET /api/events, with the linked snapshot resolved
+type TimelineEvent = Omit<CameraEvent, 'timestamp'> & {
+  timestamp: string;
+  screenshotUrl: string | null;
+};
+
+interface EventsPage {
+  events: TimelineEvent[];
+  nextCursor: string | null;
+}
+
+const RANGES = {
+  '1h': 60 * 60 * 1000,
+  '6h': 6 * 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+} as const;
+
+type RangeKey = keyof typeof RANGES;
+
+const EVENT_TYPES = ['motion', 'offline', 'online'];
+
+const EVENT_COLORS: Record<string, string> = {
+  motion: 'bg-amber-500',
+  offline: 'bg-red-500',
+  online: 'bg-green-500',
+};
+
+const PAGE_SIZE = 100;
+const AXIS_TICKS = 6;
+
+const eventColor = (eventType: string) => EVENT_COLORS[eventType] || 'bg-slate-400';
+
+/**
+ * Shows camera events as markers on a per-camera time axis, with snapshot previews on hover
+ */
+export function EventTimeline() {
+  const [range, setRange] = useState<RangeKey>('24h');
+  const [cameraFilter, setCameraFilter] = useState('all');
+  const [typeFilter, setTypeFilter] = useState('all');
+  // The window ends when it was last refreshed, so paging stays stable while events keep arriving
+  const [rangeEnd, setRangeEnd] = useState(() => Date.now());
+  const rangeStart = rangeEnd - RANGES[range];
+
+  const { data: cameras = [] } = useQuery<Camera[]>({
+    queryKey: ['/api/cameras'],
+  });
+
+  const filters = {
+    cameraId: cameraFilter === 'all' ? undefined : cameraFilter,
+    type: typeFilter === 'all' ? undefined : typeFilter,
+    from: new Date(rangeStart).toISOString(),
+    to: new Date(rangeEnd).toISOString(),
+  };
+
+  const {
+    data,
+    isLoading,
+    isError,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ['/api/events', filters],
+    initialPageParam: null as string | null,
+    queryFn: async ({ pageParam }): Promise<EventsPage> => {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE), from: filters.from, to: filters.to });
+      if (filters.cameraId) params.set('cameraId', filters.cameraId);
+      if (filters.type) params.set('type', filters.type);
+      if (pageParam) params.set('cursor', pageParam);
+
+      const response = await fetch(`/api/events?${params}`, { credentials: 'include' });
+      if (!response.ok) {
+        throw new Error((await response.text()) || 'Failed to fetch events');
+      }
+      return response.json();
+    },
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+
+  const events = useMemo(() => data?.pages.flatMap((page) => page.events) ?? [], [data]);
+
+  // One row per camera, in camera list order
+  const rows = useMemo(() => {
+    const visibleCameras = cameraFilter === 'all'
+      ? cameras
+      : cameras.filter((camera) => String(camera.id) === cameraFilter);
+
+    return visibleCameras.map((camera) => ({
+      camera,
+      events: events.filter((event) => event.cameraId === camera.id),
+    }));
+  }, [cameras, cameraFilter, events]);
+
+  const cameraNames = useMemo(
+    () => new Map(cameras.map((camera) => [camera.id, camera.name])),
+    [cameras]
+  );
+
+  const axisTicks = Array.from({ length: AXIS_TICKS }, (_, i) => rangeStart + (i * (rangeEnd - rangeStart)) / (AXIS_TICKS - 1));
+  const tickFormat = range === '7d' ? 'MMM d' : 'HH:mm';
+  const toPercent = (time: number) => ((time - rangeStart) / (rangeEnd - rangeStart)) * 100;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={cameraFilter} onValueChange={setCameraFilter}>
+          <SelectTrigger className="w-48">
+            <SelectValue placeholder="All cameras" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All cameras</SelectItem>
+            {cameras.map((camera) => (
+              <SelectItem key={camera.id} value={String(camera.id)}>{camera.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select value={typeFilter} onValueChange={setTypeFilter}>
+          <SelectTrigger className="w-40">
+            <SelectValue placeholder="All events" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All events</SelectItem>
+            {EVENT_TYPES.map((type) => (
+              <SelectItem key={type} value={type} className="capitalize">{type}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <ToggleGroup
+          type="single"
+          value={range}
+          onValueChange={(value) => {
+            if (!value) return;
+            setRange(value as RangeKey);
+            setRangeEnd(Date.now());
+          }}
+        >
+          {Object.keys(RANGES).map((key) => (
+            <ToggleGroupItem key={key} value={key}>{key}</ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+
+        <Button variant="outline" size="sm" onClick={() => setRangeEnd(Date.now())}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Refresh
+        </Button>
+      </div>
+
+      {isError && (
+        <p className="text-sm text-destructive">
+          {error instanceof Error ? error.message : 'Failed to load events'}
+        </p>
+      )}
+
+      {/* Per-camera time axis */}
+      <div className="rounded-lg border p-4 space-y-3">
+        {isLoading && <Skeleton className="h-16 w-full" />}
+
+        {!isLoading && rows.length === 0 && (
+          <p className="text-sm text-muted-foreground">No cameras to show.</p>
+        )}
+
+        {!isLoading && rows.map(({ camera, events: cameraEvents }) => (
+          <div key={camera.id} className="flex items-center gap-3">
+            <div className="w-32 shrink-0 truncate text-sm font-medium" title={camera.name}>
+              {camera.name}
+            </div>
+            <div className="relative h-8 flex-1 rounded bg-muted">
+              {cameraEvents.map((event) => (
+                <HoverCard key={event.id} openDelay={100} closeDelay={50}>
+                  <HoverCardTrigger asChild>
+                    <button
+                      type="button"
+                      className={`absolute top-1 h-6 w-1.5 -translate-x-1/2 rounded-sm ${eventColor(event.eventType)} hover:w-2.5`}
+                      style={{ left: `${toPercent(new Date(event.timestamp).getTime())}%` }}
+                      aria-label={`${event.eventType} at ${format(new Date(event.timestamp), 'PPpp')}`}
+                    />
+                  </HoverCardTrigger>
+                  <HoverCardContent className="w-72 space-y-2">
+                    {event.screenshotUrl && (
+                      <img
+                        src={event.screenshotUrl}
+                        alt={`Snapshot of ${event.eventType} event`}
+                        className="w-full rounded aspect-video object-cover bg-black"
+                        loading="lazy"
+                      />
+                    )}
+                    <div className="flex items-center justify-between">
+                      <Badge variant="secondary" className="capitalize">{event.eventType}</Badge>
+                      <span className="text-xs text-muted-foreground">
+                        {format(new Date(event.timestamp), 'MMM d, HH:mm:ss')}
+                      </span>
+                    </div>
+                    {event.message && <p className="text-sm">{event.message}</p>}
+                  </HoverCardContent>
+                </HoverCard>
+              ))}
+            </div>
+          </div>
+        ))}
+
+        {!isLoading && rows.length > 0 && (
+          <div className="flex items-center gap-3">
+            <div className="w-32 shrink-0" />
+            <div className="relative h-4 flex-1 text-xs text-muted-foreground">
+              {axisTicks.map((tick, index) => (
+                <span
+                  key={tick}
+                  className={`absolute ${index === 0 ? '' : index === AXIS_TICKS - 1 ? '-translate-x-full' : '-translate-x-1/2'}`}
+                  style={{ left: `${toPercent(tick)}%` }}
+                >
+                  {format(new Date(tick), tickFormat)}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Event list */}
+      <div className="rounded-lg border divide-y">
+        {!isLoading && events.length === 0 && (
+          <p className="p-4 text-sm text-muted-foreground">No events in this time range.</p>
+        )}
+
+        {events.map((event) => (
+          <div key={event.id} className="flex items-center gap-3 p-3">
+            {event.screenshotUrl ? (
+              <img
+                src={event.screenshotUrl}
+                alt=""
+                className="h-12 w-20 shrink-0 rounded object-cover bg-black"
+                loading="lazy"
+              />
+            ) : (
+              <div className={`h-3 w-3 shrink-0 rounded-full ${eventColor(event.eventType)}`} />
+            )}
+            <div className="min-w-0 flex-1">
+              <p className="truncate text-sm font-medium">{event.message || event.eventType}</p>
+              <p className="text-xs text-muted-foreground">
+                {cameraNames.get(event.cameraId) || `Camera ${event.cameraId}`} • {format(new Date(event.timestamp), 'PPpp')}
+              </p>
+            </div>
+            <Badge variant="outline" className="capitalize">{event.eventType}</Badge>
+          </div>
+        ))}
+      </div>
+
+      {hasNextPage && (
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={() => fetchNextPage()}
+          disabled={isFetchingNextPage}
+        >
+          {isFetchingNextPage ? 'Loading...' : 'Load more'}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 import React from "react";
 import { Button } from "@/components/ui/button";
-import { Settings, Camera } from "lucide-react";
+import { Settings, Camera, LogOut } from "lucide-react";
 import NotificationCenter from "./NotificationCenter";
+import { useAuth } from "@/hooks/use-auth";
 
 interface HeaderProps {
   connectionStatus: "connected" | "connecting" | "disconnected";
@@ -9,6 +10,8 @@ interface HeaderProps {
 }
 
 const Header: React.FC<HeaderProps> = ({ connectionStatus, onSettingsClick }) => {
+  const { user, logoutMutation } = useAuth();
+
   return (
     <header className="bg-gray-800 border-b border-gray-700 py-3 px-4 flex justify-between items-center">
       <div className="flex items-center space-x-3">
@@ -43,6 +46,20 @@ const Header: React.FC<HeaderProps> = ({ connectionStatus, onSettingsClick }) =>
         <Button variant="ghost" size="icon" onClick={onSettingsClick} aria-label="Settings">
           <Settings className="h-5 w-5" />
         </Button>
+        
+        {/* Logout Button */}
+        {user && (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => logoutMutation.mutate()}
+            disabled={logoutMutation.isPending}
+            aria-label={`Log out ${user.username}`}
+            title={`Log out ${user.username}`}
+          >
+            <LogOut className="h-5 w-5" />
+          </Button>
+        )}
       </div>
     </header>
   );
@@ -0,0 +1,271 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Slider } from '@/components/ui/slider';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Check, Save, Trash2, Undo2, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { Camera, MotionZone } from '@shared/schema';
+
+interface MotionZoneEditorProps {
+  camera: Camera;
+  isEditing: boolean;
+  onClose: () => void;
+  onSaved?: (camera: Camera) => void;
+}
+
+interface MotionStatus {
+  enabled: boolean;
+  motion: boolean;
+  zoneIds: string[];
+}
+
+type ZonePoint = MotionZone['points'][number];
+
+const DEFAULT_SENSITIVITY = 50;
+
+// Zones are stored normalized to 0-1; the overlay draws them on a 100x100 grid stretched over the view
+const toSvgPoints = (points: ZonePoint[]) => points.map((p) => `${p.x * 100},${p.y * 100}`).join(' ');
+
+/**
+ * Draws a camera's motion zones over the live view and highlights the ones that see motion.
+ * In edit mode, clicking the view adds polygon points.
+ */
+export function MotionZoneEditor({ camera, isEditing, onClose, onSaved }: MotionZoneEditorProps) {
+  const { toast } = useToast();
+  const [zones, setZones] = useState<MotionZone[]>(camera.settings?.motionZones || []);
+  const [enabled, setEnabled] = useState(!!camera.settings?.motionDetection);
+  const [sensitivity, setSensitivity] = useState(camera.settings?.motionSensitivity ?? DEFAULT_SENSITIVITY);
+  const [draftPoints, setDraftPoints] = useState<ZonePoint[]>([]);
+  const [draftMode, setDraftMode] = useState<MotionZone['mode']>('include');
+
+  // Start each edit from the saved zones
+  useEffect(() => {
+    if (!isEditing) return;
+    setZones(camera.settings?.motionZones || []);
+    setEnabled(!!camera.settings?.motionDetection);
+    setSensitivity(camera.settings?.motionSensitivity ?? DEFAULT_SENSITIVITY);
+    setDraftPoints([]);
+  }, [camera.id, isEditing]);
+
+  // Poll the detector so triggered zones light up live
+  const { data: status } = useQuery<MotionStatus>({
+    queryKey: [`/api/cameras/${camera.id}/motion`],
+    enabled: !!camera.settings?.motionDetection,
+    refetchInterval: 1000,
+    staleTime: 0,
+  });
+
+  const saveZones = useMutation({
+    mutationFn: async (): Promise<Camera> => {
+      const res = await apiRequest('PATCH', `/api/cameras/${camera.id}/settings`, {
+        motionDetection: enabled,
+        motionSensitivity: sensitivity,
+        motionZones: zones,
+      });
+      return res.json();
+    },
+    onSuccess: (updatedCamera) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/cameras'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/cameras/default'] });
+      onSaved?.(updatedCamera);
+      onClose();
+      toast({
+        title: "Motion Zones Saved",
+        description: enabled ? "Motion detection is using the new zones" : "Motion detection is turned off",
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Failed to save motion zones",
+        description: error instanceof Error ? error.message : "An error occurred",
+      });
+    }
+  });
+
+  // Add a point where the view was clicked, in normalized coordinates
+  const handleViewClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (!isEditing) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const clamp = (value: number) => Math.min(1, Math.max(0, value));
+    setDraftPoints((points) => [
+      ...points,
+      {
+        x: Number(clamp((e.clientX - rect.left) / rect.width).toFixed(4)),
+        y: Number(clamp((e.clientY - rect.top) / rect.height).toFixed(4)),
+      }
+    ]);
+  };
+
+  const handleFinishZone = () => {
+    if (draftPoints.length < 3) return;
+    setZones((current) => [
+      ...current,
+      {
+        id: `zone-${Date.now().toString(36)}`,
+        name: `Zone ${current.length + 1}`,
+        mode: draftMode,
+        points: draftPoints,
+      }
+    ]);
+    setDraftPoints([]);
+  };
+
+  const handleRenameZone = (id: string, name: string) => {
+    setZones((current) => current.map((zone) => (zone.id === id ? { ...zone, name } : zone)));
+  };
+
+  const handleDeleteZone = (id: string) => {
+    setZones((current) => current.filter((zone) => zone.id !== id));
+  };
+
+  // Outside edit mode, show what is saved
+  const visibleZones = isEditing ? zones : camera.settings?.motionZones || [];
+  const triggeredZoneIds = status?.motion ? status.zoneIds : [];
+  // Without include zones the whole view is watched, so the whole view lights up
+  const wholeViewTriggered = !!status?.motion && !isEditing && !visibleZones.some((zone) => zone.mode === 'include');
+
+  return (
+    <>
+      <svg
+        className={`absolute inset-0 w-full h-full ${isEditing ? 'cursor-crosshair z-20' : 'pointer-events-none'}`}
+        viewBox="0 0 100 100"
+        preserveAspectRatio="none"
+        onClick={handleViewClick}
+      >
+        {visibleZones.map((zone) => {
+          const isTriggered = triggeredZoneIds.includes(zone.id);
+          return (
+            <polygon
+              key={zone.id}
+              points={toSvgPoints(zone.points)}
+              className={isTriggered ? 'animate-pulse' : undefined}
+              fill={isTriggered ? 'rgba(239, 68, 68, 0.35)' : zone.mode === 'include' ? 'rgba(34, 197, 94, 0.12)' : 'rgba(15, 23, 42, 0.45)'}
+              stroke={isTriggered ? '#ef4444' : zone.mode === 'include' ? '#22c55e' : '#94a3b8'}
+              strokeWidth={2}
+              strokeDasharray={zone.mode === 'exclude' ? '4 3' : undefined}
+              vectorEffect="non-scaling-stroke"
+            />
+          );
+        })}
+
+        {wholeViewTriggered && (
+          <rect
+            x={0}
+            y={0}
+            width={100}
+            height={100}
+            fill="none"
+            stroke="#ef4444"
+            strokeWidth={4}
+            className="animate-pulse"
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+
+        {draftPoints.length > 0 && (
+          <>
+            <polyline
+              points={toSvgPoints(draftPoints)}
+              fill={draftPoints.length >= 3 ? 'rgba(59, 130, 246, 0.2)' : 'none'}
+              stroke="#3b82f6"
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+            />
+            {draftPoints.map((point, index) => (
+              <circle key={index} cx={point.x * 100} cy={point.y * 100} r={0.8} fill="#3b82f6" />
+            ))}
+          </>
+        )}
+      </svg>
+
+      {isEditing && (
+        <div className="absolute top-3 left-3 z-30 w-72 space-y-3 rounded-lg bg-gray-900/90 p-3 text-sm text-white shadow-lg backdrop-blur-md">
+          <div className="flex items-center justify-between">
+            <span className="font-semibold">Motion Zones</span>
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onClose} title="Close without saving">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="motion-enabled">Motion detection</Label>
+            <Switch id="motion-enabled" checked={enabled} onCheckedChange={setEnabled} />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Sensitivity: {sensitivity}</Label>
+            <Slider min={1} max={100} step={1} value={[sensitivity]} onValueChange={([value]) => setSensitivity(value)} />
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-xs text-gray-400">
+              Click the view to add points, then finish the zone. With no include zones the whole image is watched.
+              Turn off dewarping so zones line up with the camera image.
+            </p>
+            <div className="flex items-center gap-2">
+              <ToggleGroup
+                type="single"
+                size="sm"
+                value={draftMode}
+                onValueChange={(value) => value && setDraftMode(value as MotionZone['mode'])}
+              >
+                <ToggleGroupItem value="include">Include</ToggleGroupItem>
+                <ToggleGroupItem value="exclude">Exclude</ToggleGroupItem>
+              </ToggleGroup>
+              <Button
+                variant="outline"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => setDraftPoints((points) => points.slice(0, -1))}
+                disabled={draftPoints.length === 0}
+                title="Remove last point"
+              >
+                <Undo2 className="h-4 w-4" />
+              </Button>
+              <Button size="sm" onClick={handleFinishZone} disabled={draftPoints.length < 3}>
+                <Check className="h-4 w-4 mr-1" /> Finish
+              </Button>
+            </div>
+          </div>
+
+          {zones.length > 0 && (
+            <div className="space-y-2 max-h-40 overflow-y-auto">
+              {zones.map((zone) => (
+                <div key={zone.id} className="flex items-center gap-2">
+                  <span
+                    className={`h-3 w-3 shrink-0 rounded-sm ${zone.mode === 'include' ? 'bg-green-500' : 'bg-slate-400'}`}
+                    title={zone.mode === 'include' ? 'Include zone' : 'Exclude zone'}
+                  />
+                  <Input
+                    value={zone.name}
+                    onChange={(e) => handleRenameZone(zone.id, e.target.value)}
+                    className="h-8 bg-gray-800 border-gray-700"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0"
+                    onClick={() => handleDeleteZone(zone.id)}
+                    title="Delete zone"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <Button className="w-full" onClick={() => saveZones.mutate()} disabled={saveZones.isPending}>
+            <Save className="h-4 w-4 mr-2" /> {saveZones.isPending ? "Saving..." : "Save Zones"}
+          </Button>
+        </div>
+      )}
+    </>
+  );
+}
@@ -7,11 +7,44 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
 import { useToast } from '@/hooks/use-toast';
-import { Loader, CheckCircle, XCircle, AlertCircle, Wifi, WifiOff, RadioTower, Locate } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { hasPermission } from '@shared/schema';
+import { Loader, CheckCircle, XCircle, AlertCircle, Wifi, WifiOff, RadioTower, Locate, FileVideo } from 'lucide-react';
 
 interface NetworkDiagnosticsProps {
   currentCameraIp: string;
+  currentRtspPort?: string;
+  currentStreamPath?: string;
+  cameraId?: number; // Lets the server use the camera's saved credentials
+}
+
+interface RtspTrack {
+  type: string;
+  codec?: string;
+  payloadType?: number;
+  clockRate?: number;
+  channels?: number;
+  control?: string;
+  width?: number;
+  height?: number;
+  frameRate?: number;
+}
+
+interface RtspProbeResult {
+  success: boolean;
+  url: string;
+  failureReason?: string;
+  error?: string;
+  statusCode?: number;
+  statusText?: string;
+  server?: string;
+  authMethod?: 'none' | 'basic' | 'digest';
+  methods?: string[];
+  sessionName?: string;
+  tracks?: RtspTrack[];
+  responseTime?: number;
 }
 
 interface NetworkDiagnosticsResult {
@@ -25,14 +58,30 @@ interface NetworkDiagnosticsResult {
     isPortOpen: boolean;
     pingResult?: string;
     tracerouteResult?: string;
+    rtsp: RtspProbeResult;
     error?: string;
   };
 }
 
-export function NetworkDiagnostics({ currentCameraIp }: NetworkDiagnosticsProps) {
+// Describe a track as e.g. "H264 1920x1080 @ 25 fps" or "PCMU 8000 Hz"
+function describeTrack(track: RtspTrack): string {
+  const parts = [track.codec || `payload ${track.payloadType ?? '?'}`];
+  if (track.width && track.height) parts.push(`${track.width}x${track.height}`);
+  if (track.frameRate) parts.push(`@ ${track.frameRate} fps`);
+  if (track.type === 'audio' && track.clockRate) parts.push(`${track.clockRate} Hz`);
+  if (track.channels && track.channels > 1) parts.push(`${track.channels} channels`);
+  return parts.join(' ');
+}
+
+export function NetworkDiagnostics({ currentCameraIp, currentRtspPort = '554', currentStreamPath = '', cameraId }: NetworkDiagnosticsProps) {
   const [cameraIp, setCameraIp] = useState(currentCameraIp);
-  const [rtspPort, setRtspPort] = useState('554');
+  const [rtspPort, setRtspPort] = useState(currentRtspPort);
+  const [rtspPath, setRtspPath] = useState(currentStreamPath);
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [allowBasic, setAllowBasic] = useState(false);
   const { toast } = useToast();
+  const { user } = useAuth();
 
   // Network diagnostics mutation
   const { 
@@ -48,7 +97,12 @@ export function NetworkDiagnostics({ currentCameraIp }: NetworkDiagnosticsProps)
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ 
           cameraIp, 
-          rtspPort: parseInt(rtspPort) 
+          rtspPort: parseInt(rtspPort),
+          rtspPath,
+          username,
+          password,
+          allowBasic,
+          cameraId
         }),
       });
       
@@ -93,6 +147,18 @@ export function NetworkDiagnostics({ currentCameraIp }: NetworkDiagnosticsProps)
     );
   };
 
+  if (!hasPermission(user?.role, 'diagnostics:run')) {
+    return (
+      <Alert>
+        <AlertCircle className="h-4 w-4" />
+        <AlertTitle>Network Diagnostics</AlertTitle>
+        <AlertDescription>
+          Ask an operator or admin to run network diagnostics for this camera.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
   return (
     <Card className="w-full">
       <CardHeader>
@@ -127,6 +193,43 @@ export function NetworkDiagnostics({ currentCameraIp }: NetworkDiagnosticsProps)
                 type="number"
               />
             </div>
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="rtsp-path">Stream Path</Label>
+              <Input 
+                id="rtsp-path" 
+                value={rtspPath} 
+                onChange={(e) => setRtspPath(e.target.value)}
+                placeholder="e.g. stream1" 
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rtsp-username">Username</Label>
+              <Input 
+                id="rtsp-username" 
+                value={username} 
+                onChange={(e) => setUsername(e.target.value)}
+                placeholder={cameraId ? "Saved camera credentials" : "Optional"} 
+                autoComplete="off"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rtsp-password">Password</Label>
+              <Input 
+                id="rtsp-password" 
+                value={password} 
+                onChange={(e) => setPassword(e.target.value)}
+                type="password"
+                autoComplete="new-password"
+              />
+            </div>
+            {cameraId && (
+              <div className="flex items-center gap-2 col-span-2">
+                <Switch id="rtsp-allow-basic" checked={allowBasic} onCheckedChange={setAllowBasic} />
+                <Label htmlFor="rtsp-allow-basic" className="text-sm">
+                  Allow Basic authentication with the saved credentials (sends the password unencrypted)
+                </Label>
+              </div>
+            )}
           </div>
 
           {isError && (
@@ -177,6 +280,7 @@ export function NetworkDiagnostics({ currentCameraIp }: NetworkDiagnosticsProps)
                   <div className="pl-6 text-sm space-y-1">
                     {renderStatusIndicator(diagnostics.camera.isReachable, "Camera Reachable")}
                     {renderStatusIndicator(diagnostics.camera.isPortOpen, "RTSP Port Open")}
+                    {renderStatusIndicator(diagnostics.camera.rtsp.success, "RTSP Stream Answers")}
                     {diagnostics.camera.error && (
                       <p className="text-red-500 mt-1">{diagnostics.camera.error}</p>
                     )}
@@ -184,6 +288,42 @@ export function NetworkDiagnostics({ currentCameraIp }: NetworkDiagnosticsProps)
                 </div>
               </div>
               
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium flex items-center gap-2">
+                  <FileVideo className="h-4 w-4" />
+                  RTSP Stream
+                </h4>
+                <div className="pl-6 text-sm space-y-1">
+                  <p className="font-mono text-xs break-all">{diagnostics.camera.rtsp.url}</p>
+                  {diagnostics.camera.rtsp.statusCode !== undefined && (
+                    <p>
+                      Answer: {diagnostics.camera.rtsp.statusCode} {diagnostics.camera.rtsp.statusText}
+                      {diagnostics.camera.rtsp.responseTime !== undefined && ` (${diagnostics.camera.rtsp.responseTime} ms)`}
+                    </p>
+                  )}
+                  {diagnostics.camera.rtsp.server && <p>Server: {diagnostics.camera.rtsp.server}</p>}
+                  {diagnostics.camera.rtsp.authMethod && diagnostics.camera.rtsp.authMethod !== 'none' && (
+                    <p>Authentication: {diagnostics.camera.rtsp.authMethod === 'digest' ? 'Digest' : 'Basic'}</p>
+                  )}
+                  {diagnostics.camera.rtsp.failureReason && (
+                    <div className="flex items-center gap-2">
+                      <Badge variant="destructive">{diagnostics.camera.rtsp.failureReason.replace(/_/g, ' ')}</Badge>
+                      <span className="text-red-500">{diagnostics.camera.rtsp.error}</span>
+                    </div>
+                  )}
+                  {diagnostics.camera.rtsp.tracks && diagnostics.camera.rtsp.tracks.length > 0 && (
+                    <ul className="space-y-1">
+                      {diagnostics.camera.rtsp.tracks.map((track, index) => (
+                        <li key={index} className="flex items-center gap-2">
+                          <Badge variant="outline" className="capitalize">{track.type}</Badge>
+                          {describeTrack(track)}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </div>
+              
               {suggestions.length > 0 && (
                 <div className="mt-4">
                   <h4 className="text-sm font-medium mb-2">Suggestions</h4>
@@ -208,6 +348,13 @@ export function NetworkDiagnostics({ currentCameraIp }: NetworkDiagnosticsProps)
                       </div>
                     )}
                     
+                    {diagnostics.camera.rtsp.methods && (
+                      <div className="mt-2">
+                        <h5 className="text-xs font-medium mb-1">RTSP Methods</h5>
+                        <p className="text-xs">{diagnostics.camera.rtsp.methods.join(', ')}</p>
+                      </div>
+                    )}
+                    
                     {diagnostics.camera.tracerouteResult && (
                       <div className="mt-2">
                         <h5 className="text-xs font-medium mb-1">Traceroute Results</h5>
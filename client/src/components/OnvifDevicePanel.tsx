@@ -0,0 +1,217 @@
+import React, { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, RefreshCw } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { Camera, OnvifProfile } from '@shared/schema';
+
+interface OnvifDevicePanelProps {
+  camera: Camera;
+  onCameraUpdated?: (camera: Camera) => void;
+}
+
+interface OnvifQueryRequest {
+  deviceUrl?: string;
+  username?: string;
+  password?: string;
+}
+
+interface OnvifProfileSelection {
+  mainProfileToken?: string;
+  subProfileToken?: string | null;
+}
+
+function describeProfile(profile: OnvifProfile): string {
+  const parts = [
+    profile.encoding,
+    profile.width && profile.height ? `${profile.width}x${profile.height}` : undefined,
+    profile.frameRate ? `${profile.frameRate} fps` : undefined,
+    profile.bitrate ? `${profile.bitrate} kbps` : undefined
+  ];
+  return parts.filter(Boolean).join(' • ') || 'No video settings reported';
+}
+
+/**
+ * Query a camera over ONVIF and choose which of its profiles to stream
+ */
+export function OnvifDevicePanel({ camera, onCameraUpdated }: OnvifDevicePanelProps) {
+  const { toast } = useToast();
+  const onvif = camera.onvif;
+  const [deviceUrl, setDeviceUrl] = useState(onvif?.deviceUrl || '');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+
+  const handleUpdated = (updatedCamera: Camera) => {
+    queryClient.invalidateQueries({ queryKey: ['/api/cameras'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/cameras/default'] });
+    onCameraUpdated?.(updatedCamera);
+  };
+
+  const queryDevice = useMutation({
+    mutationFn: async (request: OnvifQueryRequest): Promise<Camera> => {
+      const res = await apiRequest('POST', `/api/cameras/${camera.id}/onvif`, request);
+      return res.json();
+    },
+    onSuccess: (updatedCamera) => {
+      handleUpdated(updatedCamera);
+      setDeviceUrl(updatedCamera.onvif?.deviceUrl || '');
+      toast({
+        title: "ONVIF Device Queried",
+        description: `Found ${updatedCamera.onvif?.profiles.length ?? 0} stream profiles`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "ONVIF query failed",
+        description: error instanceof Error ? error.message : "An error occurred",
+      });
+    }
+  });
+
+  const selectProfiles = useMutation({
+    mutationFn: async (selection: OnvifProfileSelection): Promise<Camera> => {
+      const res = await apiRequest('PATCH', `/api/cameras/${camera.id}/onvif`, selection);
+      return res.json();
+    },
+    onSuccess: handleUpdated,
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Failed to change stream profile",
+        description: error instanceof Error ? error.message : "An error occurred",
+      });
+    }
+  });
+
+  // Blank fields fall back to the saved device URL and ONVIF account, or the camera's RTSP account
+  const handleQuery = () => {
+    queryDevice.mutate({
+      deviceUrl: deviceUrl.trim() || undefined,
+      username: username || undefined,
+      password: username ? password : undefined
+    });
+  };
+
+  const isBusy = queryDevice.isPending || selectProfiles.isPending;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-400">
+        Ask the camera for its stream profiles over ONVIF instead of guessing the stream paths.
+        Leave the credentials empty to use the account saved with the last query, or the camera's RTSP account.
+      </p>
+
+      <div className="space-y-2">
+        <Label htmlFor="onvif-device-url">Device Service URL</Label>
+        <Input
+          id="onvif-device-url"
+          value={deviceUrl}
+          placeholder="http://<camera-ip>/onvif/device_service"
+          onChange={(e) => setDeviceUrl(e.target.value)}
+          className="bg-gray-900 border-gray-700 font-mono text-sm"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label htmlFor="onvif-username">Username</Label>
+          <Input
+            id="onvif-username"
+            value={username}
+            autoComplete="off"
+            onChange={(e) => setUsername(e.target.value)}
+            className="bg-gray-900 border-gray-700"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="onvif-password">Password</Label>
+          <Input
+            id="onvif-password"
+            type="password"
+            value={password}
+            autoComplete="new-password"
+            onChange={(e) => setPassword(e.target.value)}
+            className="bg-gray-900 border-gray-700"
+          />
+        </div>
+      </div>
+
+      <Button onClick={handleQuery} disabled={isBusy}>
+        {queryDevice.isPending ? (
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        ) : (
+          <RefreshCw className="h-4 w-4 mr-2" />
+        )}
+        {onvif ? 'Query Again' : 'Query Camera'}
+      </Button>
+
+      {onvif && (
+        <div className="space-y-3 border-t border-gray-700 pt-4">
+          <div className="grid grid-cols-2 gap-2 text-sm">
+            <span className="text-gray-400">Manufacturer</span>
+            <span>{onvif.manufacturer || 'Unknown'}</span>
+            <span className="text-gray-400">Model</span>
+            <span>{onvif.model || 'Unknown'}</span>
+            <span className="text-gray-400">Firmware</span>
+            <span>{onvif.firmwareVersion || 'Unknown'}</span>
+            <span className="text-gray-400">Serial Number</span>
+            <span>{onvif.serialNumber || 'Unknown'}</span>
+            <span className="text-gray-400">Pan/Tilt/Zoom</span>
+            <span>{onvif.ptzUrl ? 'Supported' : 'Not supported'}</span>
+            <span className="text-gray-400">Last Queried</span>
+            <span>{new Date(onvif.updatedAt).toLocaleString()}</span>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Stream Profiles</Label>
+            {onvif.profiles.length === 0 && (
+              <p className="text-sm text-gray-400">The camera reported no media profiles.</p>
+            )}
+            {onvif.profiles.map((profile) => {
+              const isMain = profile.token === onvif.mainProfileToken;
+              const isSub = profile.token === onvif.subProfileToken;
+              return (
+                <div key={profile.token} className="flex items-center justify-between gap-3 rounded-md border border-gray-700 p-3">
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{profile.name}</span>
+                      {isMain && <Badge variant="secondary" className="text-xs">Main</Badge>}
+                      {isSub && <Badge variant="secondary" className="text-xs">Sub</Badge>}
+                    </div>
+                    <p className="text-xs text-gray-400">{describeProfile(profile)}</p>
+                    <p className="text-xs text-gray-500 font-mono truncate">{profile.streamUri || 'No RTSP stream'}</p>
+                  </div>
+                  {profile.streamUri && (
+                    <div className="flex gap-2 shrink-0">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={isMain || isBusy}
+                        onClick={() => selectProfiles.mutate({ mainProfileToken: profile.token })}
+                      >
+                        Use as Main
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={isBusy}
+                        onClick={() => selectProfiles.mutate({ subProfileToken: isSub ? null : profile.token })}
+                      >
+                        {isSub ? 'Clear Sub' : 'Use as Sub'}
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,252 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Bookmark, Check, Minus, Plus, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { Camera } from '@shared/schema';
+
+interface PtzControlsProps {
+  camera: Camera;
+}
+
+interface PtzPreset {
+  token: string;
+  name: string;
+}
+
+type PtzCommand =
+  | { action: 'move'; pan: number; tilt: number }
+  | { action: 'zoom'; speed: number }
+  | { action: 'stop' }
+  | { action: 'gotoPreset'; presetToken: string };
+
+interface Velocity {
+  pan: number;
+  tilt: number;
+}
+
+const JOYSTICK_RADIUS = 48; // Half the pad's width in pixels
+const ZOOM_SPEED = 0.5;
+// Moves are sent when the knob changes direction, and repeated while it is held so the
+// camera's 5 second move timeout does not stop it
+const MOVE_SEND_INTERVAL = 200;
+const MOVE_REPEAT_INTERVAL = 3000;
+
+/**
+ * Whether a camera reported a PTZ service when it was queried over ONVIF
+ */
+export function supportsPtz(camera: Camera | null | undefined): boolean {
+  return !!camera?.onvif?.ptzUrl;
+}
+
+/**
+ * On-screen joystick, zoom buttons and presets for a PTZ camera
+ */
+export function PtzControls({ camera }: PtzControlsProps) {
+  const { toast } = useToast();
+  const padRef = useRef<HTMLDivElement>(null);
+  const [knob, setKnob] = useState<Velocity | null>(null);
+  const velocityRef = useRef<Velocity | null>(null);
+  const lastSentRef = useRef<{ velocity: Velocity; at: number } | null>(null);
+  const [presetName, setPresetName] = useState<string | null>(null);
+  const ptzUrl = `/api/cameras/${camera.id}/ptz`;
+
+  const showError = (title: string) => (error: unknown) => {
+    toast({
+      variant: "destructive",
+      title,
+      description: error instanceof Error ? error.message : "An error occurred",
+    });
+  };
+
+  // Commands are sent one after another so a stop never overtakes the move before it
+  const queueRef = useRef<Promise<unknown>>(Promise.resolve());
+  const sendCommand = (command: PtzCommand) => {
+    queueRef.current = queueRef.current.then(() =>
+      apiRequest('POST', ptzUrl, command).catch(showError("PTZ command failed"))
+    );
+  };
+
+  const { data: presets = [] } = useQuery<PtzPreset[]>({
+    queryKey: [ptzUrl, 'presets'],
+    queryFn: async () => {
+      const res = await apiRequest('POST', ptzUrl, { action: 'presets' });
+      const data = await res.json();
+      return data.presets;
+    },
+    staleTime: 60000,
+  });
+
+  const savePreset = useMutation({
+    mutationFn: async (name: string): Promise<PtzPreset[]> => {
+      const res = await apiRequest('POST', ptzUrl, { action: 'savePreset', name });
+      const data = await res.json();
+      return data.presets;
+    },
+    onSuccess: (updatedPresets, name) => {
+      queryClient.setQueryData([ptzUrl, 'presets'], updatedPresets);
+      setPresetName(null);
+      toast({
+        title: "Preset Saved",
+        description: `Saved the current position as "${name}"`,
+      });
+    },
+    onError: showError("Failed to save preset"),
+  });
+
+  // While the knob is held, keep the camera moving in its direction
+  useEffect(() => {
+    if (!knob) return;
+
+    const interval = setInterval(() => {
+      const velocity = velocityRef.current;
+      const last = lastSentRef.current;
+      if (!velocity) return;
+
+      const changed = !last || last.velocity.pan !== velocity.pan || last.velocity.tilt !== velocity.tilt;
+      if (changed || Date.now() - last.at >= MOVE_REPEAT_INTERVAL) {
+        lastSentRef.current = { velocity, at: Date.now() };
+        sendCommand({ action: 'move', ...velocity });
+      }
+    }, MOVE_SEND_INTERVAL);
+
+    return () => clearInterval(interval);
+  }, [!!knob, camera.id]);
+
+  // Map the pointer to a pan/tilt speed, rounded so small jitters do not send new moves
+  const updateKnob = (e: React.PointerEvent) => {
+    const rect = padRef.current?.getBoundingClientRect();
+    if (!rect) return;
+
+    let x = (e.clientX - rect.left - rect.width / 2) / JOYSTICK_RADIUS;
+    let y = (e.clientY - rect.top - rect.height / 2) / JOYSTICK_RADIUS;
+    const length = Math.hypot(x, y);
+    if (length > 1) {
+      x /= length;
+      y /= length;
+    }
+
+    const velocity = { pan: Math.round(x * 10) / 10, tilt: Math.round(-y * 10) / 10 };
+    velocityRef.current = velocity;
+    setKnob(velocity);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lastSentRef.current = null;
+    updateKnob(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (knob) updateKnob(e);
+  };
+
+  const handlePointerUp = () => {
+    if (!knob) return;
+    velocityRef.current = null;
+    lastSentRef.current = null;
+    setKnob(null);
+    sendCommand({ action: 'stop' });
+  };
+
+  const zoomHandlers = (speed: number) => ({
+    onPointerDown: () => sendCommand({ action: 'zoom', speed }),
+    onPointerUp: () => sendCommand({ action: 'stop' }),
+    onPointerLeave: (e: React.PointerEvent) => {
+      // Only stop if the button was held when the pointer left it
+      if (e.buttons) sendCommand({ action: 'stop' });
+    },
+  });
+
+  return (
+    <div
+      className="absolute top-4 left-4 z-20 flex flex-col gap-3 rounded-lg bg-gray-900/80 p-3 backdrop-blur-md select-none"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center gap-3">
+        {/* Joystick: drag the knob in the direction to pan and tilt */}
+        <div
+          ref={padRef}
+          className="relative h-24 w-24 rounded-full border border-gray-600 bg-gray-800 touch-none cursor-grab"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          title="Drag to pan and tilt"
+        >
+          <div
+            className="absolute h-8 w-8 rounded-full bg-primary shadow-lg"
+            style={{
+              left: `calc(50% - 1rem + ${(knob?.pan ?? 0) * (JOYSTICK_RADIUS - 16)}px)`,
+              top: `calc(50% - 1rem - ${(knob?.tilt ?? 0) * (JOYSTICK_RADIUS - 16)}px)`,
+            }}
+          />
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <Button variant="outline" size="icon" title="Zoom in (hold)" {...zoomHandlers(ZOOM_SPEED)}>
+            <Plus className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" title="Zoom out (hold)" {...zoomHandlers(-ZOOM_SPEED)}>
+            <Minus className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Presets */}
+      <div className="flex max-w-[13rem] flex-wrap gap-1">
+        {presets.map((preset) => (
+          <Button
+            key={preset.token}
+            size="sm"
+            variant="secondary"
+            className="h-7 px-2 text-xs"
+            onClick={() => sendCommand({ action: 'gotoPreset', presetToken: preset.token })}
+            title={`Go to ${preset.name}`}
+          >
+            {preset.name}
+          </Button>
+        ))}
+        {presetName === null && (
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-7 px-2 text-xs"
+            onClick={() => setPresetName('')}
+            title="Save the current position as a preset"
+          >
+            <Bookmark className="h-3 w-3 mr-1" />
+            Save
+          </Button>
+        )}
+      </div>
+
+      {presetName !== null && (
+        <form
+          className="flex items-center gap-1"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (presetName.trim()) savePreset.mutate(presetName.trim());
+          }}
+        >
+          <Input
+            autoFocus
+            value={presetName}
+            maxLength={64}
+            placeholder="Preset name"
+            onChange={(e) => setPresetName(e.target.value)}
+            className="h-7 w-32 bg-gray-800 border-gray-700 text-xs"
+          />
+          <Button type="submit" size="icon" className="h-7 w-7" disabled={!presetName.trim() || savePreset.isPending}>
+            <Check className="h-3 w-3" />
+          </Button>
+          <Button type="button" size="icon" variant="ghost" className="h-7 w-7" onClick={() => setPresetName(null)}>
+            <X className="h-3 w-3" />
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
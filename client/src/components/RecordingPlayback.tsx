@@ -0,0 +1,392 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Download, Pause, Play, SkipBack, SkipForward } from 'lucide-react';
+import { CameraSettings } from '@/hooks/use-camera-settings';
+import { setupThreeJsScene, updateScene } from '@/lib/three-utils';
+import { Camera, Recording } from '@shared/schema';
+
+interface RecordingPlaybackProps {
+  settings: CameraSettings;
+  initialCameraId?: number;
+}
+
+interface PlaybackSegment {
+  recording: Recording;
+  start: number; // ms since epoch
+  end: number;
+}
+
+// Consecutive segments played back as one continuous timeline
+interface PlaybackRun {
+  segments: PlaybackSegment[];
+  offsets: number[]; // start of each segment within the run, in seconds
+  duration: number; // seconds
+}
+
+// Segments further apart than this start a new run
+const MAX_SEGMENT_GAP = 5000;
+
+/**
+ * Work out when a recording's footage was captured. Recordings store their start and end
+ * times; older ones without them were saved as they finished, so they end at createdAt.
+ */
+function getFootageSpan(recording: Recording): PlaybackSegment {
+  const durationMs = recording.duration * 1000;
+  if (recording.startedAt) {
+    const start = new Date(recording.startedAt).getTime();
+    const end = recording.endedAt ? new Date(recording.endedAt).getTime() : start + durationMs;
+    return { recording, start, end };
+  }
+
+  const end = new Date(recording.endedAt ?? recording.createdAt).getTime();
+  return { recording, start: end - durationMs, end };
+}
+
+/**
+ * Group recordings into runs of back-to-back segments by when they were recorded, newest run first
+ */
+function groupIntoRuns(recordings: Recording[]): PlaybackRun[] {
+  const segments = recordings
+    .map(getFootageSpan)
+    .sort((a, b) => a.start - b.start);
+
+  const runs: PlaybackSegment[][] = [];
+  for (const segment of segments) {
+    const current = runs[runs.length - 1];
+    if (current && segment.start - current[current.length - 1].end <= MAX_SEGMENT_GAP) {
+      current.push(segment);
+    } else {
+      runs.push([segment]);
+    }
+  }
+
+  return runs.reverse().map((runSegments) => {
+    const offsets: number[] = [];
+    let duration = 0;
+    for (const segment of runSegments) {
+      offsets.push(duration);
+      duration += segment.recording.duration;
+    }
+    return { segments: runSegments, offsets, duration };
+  });
+}
+
+/**
+ * Format seconds as m:ss or h:mm:ss
+ */
+function formatPlaybackTime(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.floor(totalSeconds));
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = (seconds % 60).toString().padStart(2, '0');
+  return h > 0 ? `${h}:${m.toString().padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
+
+/**
+ * Plays back a camera's recordings through the same Three.js dewarp as the live view,
+ * with one seek bar across each run of consecutive segments
+ */
+export function RecordingPlayback({ settings, initialCameraId }: RecordingPlaybackProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const sceneRef = useRef<any>(null);
+  // Where to seek once the next segment has loaded
+  const pendingSeekRef = useRef<number | null>(null);
+
+  const [cameraId, setCameraId] = useState<number | undefined>(initialCameraId);
+  const [runIndex, setRunIndex] = useState(0);
+  const [segmentIndex, setSegmentIndex] = useState(0);
+  const [position, setPosition] = useState(0);
+  const [scrubPosition, setScrubPosition] = useState<number | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  const { data: cameras = [] } = useQuery<Camera[]>({
+    queryKey: ['/api/cameras'],
+  });
+
+  // Fall back to the first camera when none was picked
+  useEffect(() => {
+    if (cameraId === undefined && cameras.length > 0) {
+      setCameraId(initialCameraId ?? cameras[0].id);
+    }
+  }, [cameras, cameraId, initialCameraId]);
+
+  const { data: recordings = [], isLoading } = useQuery<Recording[]>({
+    queryKey: ['/api/recordings', cameraId],
+    queryFn: async () => {
+      const response = await fetch(`/api/recordings?cameraId=${cameraId}`, { credentials: 'include' });
+      if (!response.ok) {
+        throw new Error('Failed to fetch recordings');
+      }
+      return response.json();
+    },
+    enabled: cameraId !== undefined,
+    staleTime: 30000,
+  });
+
+  const runs = useMemo(() => groupIntoRuns(recordings), [recordings]);
+  const run = runs[runIndex];
+  const segment = run?.segments[segmentIndex];
+
+  // Start from the beginning whenever another camera or run is picked
+  useEffect(() => {
+    setSegmentIndex(0);
+    setPosition(0);
+    pendingSeekRef.current = null;
+  }, [cameraId, runIndex]);
+
+  useEffect(() => {
+    setRunIndex(0);
+  }, [cameraId]);
+
+  // Render the video through Three.js, rebuilding the scene when dewarping is toggled
+  useEffect(() => {
+    if (!containerRef.current || !canvasRef.current || !videoRef.current) return;
+
+    sceneRef.current = setupThreeJsScene(
+      canvasRef.current,
+      videoRef.current,
+      containerRef.current,
+      settings.isDewarpEnabled
+    );
+    updateScene(sceneRef.current, settings);
+
+    const handleResize = () => {
+      if (sceneRef.current && containerRef.current) {
+        sceneRef.current.handleResize(containerRef.current.clientWidth, containerRef.current.clientHeight);
+      }
+    };
+    window.addEventListener('resize', handleResize);
+
+    let frameId: number;
+    const animate = () => {
+      frameId = requestAnimationFrame(animate);
+      sceneRef.current?.render();
+    };
+    animate();
+
+    return () => {
+      window.removeEventListener('resize', handleResize);
+      cancelAnimationFrame(frameId);
+      sceneRef.current?.dispose();
+      sceneRef.current = null;
+    };
+  }, [settings.isDewarpEnabled]);
+
+  useEffect(() => {
+    if (sceneRef.current) {
+      updateScene(sceneRef.current, settings);
+    }
+  }, [
+    settings.brightness,
+    settings.contrast,
+    settings.saturation,
+    settings.isNightModeEnabled,
+    settings.isBWModeEnabled,
+    settings.viewMode
+  ]);
+
+  // Seek to a position within the current run, switching segments if needed
+  const seekTo = (runPosition: number) => {
+    if (!run) return;
+    const target = Math.min(Math.max(runPosition, 0), run.duration);
+
+    let index = run.offsets.findIndex((offset, i) => target < offset + run.segments[i].recording.duration);
+    if (index === -1) index = run.segments.length - 1;
+
+    const segmentTime = target - run.offsets[index];
+    setPosition(target);
+
+    if (index === segmentIndex && videoRef.current) {
+      videoRef.current.currentTime = segmentTime;
+    } else {
+      pendingSeekRef.current = segmentTime;
+      setSegmentIndex(index);
+    }
+  };
+
+  const handleLoadedMetadata = () => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    if (pendingSeekRef.current !== null) {
+      video.currentTime = pendingSeekRef.current;
+      pendingSeekRef.current = null;
+    }
+    if (isPlaying) {
+      video.play().catch(() => setIsPlaying(false));
+    }
+  };
+
+  const handleTimeUpdate = () => {
+    if (run && videoRef.current) {
+      setPosition(run.offsets[segmentIndex] + videoRef.current.currentTime);
+    }
+  };
+
+  // Carry on into the next segment of the run
+  const handleEnded = () => {
+    if (run && segmentIndex < run.segments.length - 1) {
+      pendingSeekRef.current = 0;
+      setSegmentIndex(segmentIndex + 1);
+    } else {
+      setIsPlaying(false);
+    }
+  };
+
+  const togglePlay = () => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    if (video.paused) {
+      video.play().then(() => setIsPlaying(true)).catch(console.error);
+    } else {
+      video.pause();
+      setIsPlaying(false);
+    }
+  };
+
+  const displayPosition = scrubPosition ?? position;
+  const wallClock = run ? run.segments[0].start + displayPosition * 1000 : undefined;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-4 gap-4">
+      <div className="lg:col-span-3 space-y-3">
+        <div
+          ref={containerRef}
+          className="relative aspect-video rounded-lg shadow-xl bg-gray-900 border border-gray-800 w-full max-h-[calc(100vh-12rem)] overflow-hidden"
+        >
+          {/* Hidden video element feeding the Three.js texture */}
+          <video
+            ref={videoRef}
+            src={segment?.recording.filePath}
+            playsInline
+            muted
+            preload="metadata"
+            className="hidden"
+            onLoadedMetadata={handleLoadedMetadata}
+            onTimeUpdate={handleTimeUpdate}
+            onEnded={handleEnded}
+          />
+          <canvas ref={canvasRef} className="w-full h-full" />
+
+          {!segment && (
+            <div className="absolute inset-0 flex items-center justify-center text-gray-400">
+              {isLoading ? 'Loading recordings...' : 'Select a recording to play'}
+            </div>
+          )}
+
+          {wallClock !== undefined && (
+            <div className="absolute top-4 left-4 bg-black/60 text-white px-3 py-1 rounded text-sm">
+              {format(new Date(wallClock), 'MMM d, HH:mm:ss')}
+            </div>
+          )}
+        </div>
+
+        {run && (
+          <div className="space-y-2">
+            <Slider
+              min={0}
+              max={Math.max(run.duration, 1)}
+              step={1}
+              value={[displayPosition]}
+              onValueChange={([value]) => setScrubPosition(value)}
+              onValueCommit={([value]) => {
+                setScrubPosition(null);
+                seekTo(value);
+              }}
+            />
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <Button variant="outline" size="icon" onClick={() => seekTo(position - 10)} title="Back 10 seconds">
+                  <SkipBack className="h-4 w-4" />
+                </Button>
+                <Button size="icon" onClick={togglePlay} title={isPlaying ? 'Pause' : 'Play'}>
+                  {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                </Button>
+                <Button variant="outline" size="icon" onClick={() => seekTo(position + 10)} title="Forward 10 seconds">
+                  <SkipForward className="h-4 w-4" />
+                </Button>
+                <span className="text-sm tabular-nums text-muted-foreground">
+                  {formatPlaybackTime(displayPosition)} / {formatPlaybackTime(run.duration)}
+                </span>
+              </div>
+              <div className="flex items-center gap-4">
+                <div className="flex items-center space-x-2">
+                  <Label htmlFor="playback-dewarp" className="text-sm">Dewarp</Label>
+                  <Switch
+                    id="playback-dewarp"
+                    checked={settings.isDewarpEnabled}
+                    onCheckedChange={settings.toggleDewarp}
+                  />
+                </div>
+                {segment && (
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={segment.recording.filePath} download={segment.recording.fileName}>
+                      <Download className="h-4 w-4 mr-2" />
+                      Segment {segmentIndex + 1}/{run.segments.length}
+                    </a>
+                  </Button>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <Select
+          value={cameraId !== undefined ? String(cameraId) : undefined}
+          onValueChange={(value) => setCameraId(Number(value))}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Select a camera" />
+          </SelectTrigger>
+          <SelectContent>
+            {cameras.map((camera) => (
+              <SelectItem key={camera.id} value={String(camera.id)}>{camera.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="rounded-lg border divide-y max-h-[32rem] overflow-y-auto">
+          {isLoading && <Skeleton className="h-16 m-3" />}
+
+          {!isLoading && runs.length === 0 && (
+            <p className="p-4 text-sm text-muted-foreground">No recordings for this camera yet.</p>
+          )}
+
+          {runs.map((item, index) => (
+            <button
+              key={item.segments[0].recording.id}
+              type="button"
+              onClick={() => setRunIndex(index)}
+              className={`w-full text-left p-3 hover:bg-muted ${index === runIndex ? 'bg-muted' : ''}`}
+            >
+              <p className="text-sm font-medium">
+                {format(new Date(item.segments[0].start), 'MMM d, HH:mm')}
+                {' – '}
+                {format(new Date(item.segments[item.segments.length - 1].end), 'HH:mm')}
+              </p>
+              <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                <span>{formatPlaybackTime(item.duration)}</span>
+                {item.segments.length > 1 && (
+                  <Badge variant="secondary">{item.segments.length} segments</Badge>
+                )}
+              </div>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Download, FileArchive, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { formatFileSize } from '@/lib/camera-utils';
+import { Camera, Screenshot, hasPermission } from '@shared/schema';
+
+/**
+ * Grid of saved screenshots with selection, bulk ZIP download and deletion
+ */
+export function ScreenshotGallery() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const canDelete = hasPermission(user?.role, 'media:delete');
+  const [cameraFilter, setCameraFilter] = useState('all');
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [previewScreenshot, setPreviewScreenshot] = useState<Screenshot | null>(null);
+  const [pendingDeleteIds, setPendingDeleteIds] = useState<number[] | null>(null);
+
+  const { data: cameras = [] } = useQuery<Camera[]>({
+    queryKey: ['/api/cameras'],
+  });
+
+  const { data: screenshots = [], isLoading } = useQuery<Screenshot[]>({
+    queryKey: ['/api/screenshots', cameraFilter],
+    queryFn: async () => {
+      const query = cameraFilter === 'all' ? '' : `?cameraId=${cameraFilter}`;
+      const response = await fetch(`/api/screenshots${query}`, { credentials: 'include' });
+      if (!response.ok) {
+        throw new Error('Failed to fetch screenshots');
+      }
+      return response.json();
+    },
+    staleTime: 30000,
+  });
+
+  // Drop selections that are no longer listed
+  useEffect(() => {
+    setSelectedIds((ids) => ids.filter((id) => screenshots.some((screenshot) => screenshot.id === id)));
+  }, [screenshots]);
+
+  const deleteScreenshots = useMutation({
+    mutationFn: async (ids: number[]) => {
+      const res = await apiRequest('DELETE', '/api/screenshots', { ids });
+      return res.json() as Promise<{ deleted: number[] }>;
+    },
+    onSuccess: ({ deleted }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/screenshots'] });
+      setSelectedIds((ids) => ids.filter((id) => !deleted.includes(id)));
+      setPendingDeleteIds(null);
+      setPreviewScreenshot(null);
+      toast({
+        title: "Screenshots Deleted",
+        description: `Deleted ${deleted.length} screenshot${deleted.length === 1 ? '' : 's'}`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Failed to delete screenshots",
+        description: error instanceof Error ? error.message : "An error occurred",
+      });
+    }
+  });
+
+  const cameraNames = new Map(cameras.map((camera) => [camera.id, camera.name]));
+  const allSelected = screenshots.length > 0 && selectedIds.length === screenshots.length;
+
+  const toggleSelected = (id: number, checked: boolean) => {
+    setSelectedIds((ids) => (checked ? [...ids, id] : ids.filter((selectedId) => selectedId !== id)));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-3">
+          <Select value={cameraFilter} onValueChange={setCameraFilter}>
+            <SelectTrigger className="w-48">
+              <SelectValue placeholder="All cameras" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All cameras</SelectItem>
+              {cameras.map((camera) => (
+                <SelectItem key={camera.id} value={String(camera.id)}>{camera.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={allSelected}
+              onCheckedChange={(checked) => setSelectedIds(checked ? screenshots.map((screenshot) => screenshot.id) : [])}
+              disabled={screenshots.length === 0}
+            />
+            Select all
+          </label>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            disabled={selectedIds.length === 0}
+            onClick={() => {
+              // The server answers with an attachment, so the page stays put
+              window.location.href = `/api/screenshots/export?ids=${selectedIds.join(',')}`;
+            }}
+          >
+            <FileArchive className="h-4 w-4 mr-2" />
+            Download ZIP{selectedIds.length > 0 ? ` (${selectedIds.length})` : ''}
+          </Button>
+          {canDelete && (
+            <Button
+              variant="destructive"
+              disabled={selectedIds.length === 0}
+              onClick={() => setPendingDeleteIds(selectedIds)}
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete{selectedIds.length > 0 ? ` (${selectedIds.length})` : ''}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {isLoading && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {Array.from({ length: 4 }, (_, i) => <Skeleton key={i} className="aspect-video" />)}
+        </div>
+      )}
+
+      {!isLoading && screenshots.length === 0 && (
+        <div className="flex flex-col items-center justify-center p-10 border-2 border-dashed rounded-lg text-muted-foreground">
+          No screenshots yet. Use the Screenshot button in the live view to capture one.
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-4 gap-4">
+        {screenshots.map((screenshot) => {
+          const isSelected = selectedIds.includes(screenshot.id);
+          return (
+            <div
+              key={screenshot.id}
+              className={`group relative overflow-hidden rounded-lg border bg-card ${isSelected ? 'ring-2 ring-primary' : ''}`}
+            >
+              <button type="button" className="block w-full" onClick={() => setPreviewScreenshot(screenshot)}>
+                <img
+                  src={screenshot.thumbnailUrl || screenshot.filePath}
+                  alt={screenshot.fileName}
+                  className="aspect-video w-full object-cover bg-black"
+                  loading="lazy"
+                />
+              </button>
+              <Checkbox
+                checked={isSelected}
+                onCheckedChange={(checked) => toggleSelected(screenshot.id, !!checked)}
+                className="absolute top-2 left-2 bg-background/80"
+                aria-label={`Select ${screenshot.fileName}`}
+              />
+              <div className="p-2">
+                <p className="truncate text-sm font-medium">
+                  {cameraNames.get(screenshot.cameraId) || `Camera ${screenshot.cameraId}`}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {format(new Date(screenshot.createdAt), 'MMM d, HH:mm:ss')} • {formatFileSize(screenshot.fileSize)}
+                </p>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Full-size preview */}
+      <Dialog open={!!previewScreenshot} onOpenChange={(open) => !open && setPreviewScreenshot(null)}>
+        <DialogContent className="sm:max-w-4xl">
+          {previewScreenshot && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{previewScreenshot.fileName}</DialogTitle>
+                <DialogDescription>
+                  {cameraNames.get(previewScreenshot.cameraId) || `Camera ${previewScreenshot.cameraId}`}
+                  {' • '}{format(new Date(previewScreenshot.createdAt), 'PPpp')}
+                  {previewScreenshot.metadata && ` • ${previewScreenshot.metadata.resolution}`}
+                </DialogDescription>
+              </DialogHeader>
+              <img
+                src={previewScreenshot.filePath}
+                alt={previewScreenshot.fileName}
+                className="w-full rounded-md bg-black"
+              />
+              <DialogFooter>
+                <Button variant="outline" asChild>
+                  <a href={previewScreenshot.filePath} download={previewScreenshot.fileName}>
+                    <Download className="h-4 w-4 mr-2" />
+                    Download
+                  </a>
+                </Button>
+                {canDelete && (
+                  <Button variant="destructive" onClick={() => setPendingDeleteIds([previewScreenshot.id])}>
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete
+                  </Button>
+                )}
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete confirmation */}
+      <Dialog open={!!pendingDeleteIds} onOpenChange={(open) => !open && setPendingDeleteIds(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Delete Screenshots</DialogTitle>
+            <DialogDescription>
+              Delete {pendingDeleteIds?.length === 1 ? 'this screenshot' : `${pendingDeleteIds?.length} screenshots`}?
+              The image files are removed as well. This action cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setPendingDeleteIds(null)}>
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              variant="destructive"
+              onClick={() => pendingDeleteIds && deleteScreenshots.mutate(pendingDeleteIds)}
+              disabled={deleteScreenshots.isPending}
+            >
+              {deleteScreenshots.isPending ? "Deleting..." : "Delete"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -12,11 +12,15 @@ import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { CopyIcon, Settings, HelpCircle } from "lucide-react";
+import { CopyIcon, Settings, HelpCircle, Film, Radar } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { CameraSettings } from "@/hooks/use-camera-settings";
 import { TroubleshootingGuide } from "./TroubleshootingGuide";
+import { TranscodeProfileEditor } from "./TranscodeProfileEditor";
+import { OnvifDevicePanel } from "./OnvifDevicePanel";
 import { parseRtspUrl } from "@/lib/camera-utils";
+import { Camera, hasPermission } from "@shared/schema";
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -24,6 +28,9 @@ interface SettingsModalProps {
   settings: CameraSettings;
   streamUrl: string;
   onReconnect: (url: string) => void;
+  camera?: Camera | null;
+  onTranscodeProfileChanged?: (camera: Camera) => void;
+  onCameraUpdated?: (camera: Camera) => void;
 }
 
 const SettingsModal: React.FC<SettingsModalProps> = ({ 
@@ -31,11 +38,21 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
   onClose, 
   settings,
   streamUrl,
-  onReconnect
+  onReconnect,
+  camera,
+  onTranscodeProfileChanged,
+  onCameraUpdated
 }) => {
   const { toast } = useToast();
+  const { user } = useAuth();
   const [currentUrl, setCurrentUrl] = React.useState(streamUrl);
   
+  // Viewers can change how they watch, but not the camera URL or its encoding
+  const canManageCameras = hasPermission(user?.role, "cameras:manage");
+  const showEncoding = !!camera && hasPermission(user?.role, "cameras:configure");
+  const showOnvif = !!camera && canManageCameras;
+  const tabCount = 2 + (showEncoding ? 1 : 0) + (showOnvif ? 1 : 0);
+  
   // Reset to defaults
   const handleResetSettings = () => {
     settings.resetToDefaults();
@@ -95,10 +112,20 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
         </DialogHeader>
         
         <Tabs defaultValue="settings" className="py-2">
-          <TabsList className="grid grid-cols-2 mb-4">
+          <TabsList className={`grid ${tabCount === 4 ? 'grid-cols-4' : tabCount === 3 ? 'grid-cols-3' : 'grid-cols-2'} mb-4`}>
             <TabsTrigger value="settings" className="flex items-center">
               <Settings className="h-4 w-4 mr-2" /> Settings
             </TabsTrigger>
+            {showEncoding && (
+              <TabsTrigger value="encoding" className="flex items-center">
+                <Film className="h-4 w-4 mr-2" /> Encoding
+              </TabsTrigger>
+            )}
+            {showOnvif && (
+              <TabsTrigger value="onvif" className="flex items-center">
+                <Radar className="h-4 w-4 mr-2" /> ONVIF
+              </TabsTrigger>
+            )}
             <TabsTrigger value="troubleshooting" className="flex items-center">
               <HelpCircle className="h-4 w-4 mr-2" /> Troubleshooting
             </TabsTrigger>
@@ -112,6 +139,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                   id="rtsp-url"
                   value={currentUrl}
                   onChange={(e) => setCurrentUrl(e.target.value)}
+                  readOnly={!canManageCameras}
                   className="flex-1 bg-gray-900 border-gray-700 font-mono text-sm"
                 />
                 <Button
@@ -144,6 +172,23 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
               </div>
             </div>
             
+            <div className="space-y-2">
+              <Label htmlFor="stream-mode">Stream Transport</Label>
+              <Select 
+                onValueChange={(value) => settings.setStreamMode(value as "jsmpeg" | "hls" | "webrtc")} 
+                defaultValue={settings.streamMode}
+              >
+                <SelectTrigger id="stream-mode" className="w-full bg-gray-900 border-gray-700">
+                  <SelectValue placeholder="Select stream transport" />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-900 border-gray-700">
+                  <SelectItem value="jsmpeg">WebSocket (MPEG1, lowest latency)</SelectItem>
+                  <SelectItem value="hls">HLS (H.264, full quality)</SelectItem>
+                  <SelectItem value="webrtc">WebRTC (sub-second latency)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            
             <div className="space-y-2">
               <Label htmlFor="rendering-performance">Rendering Performance</Label>
               <Select 
@@ -176,6 +221,18 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
             </DialogFooter>
           </TabsContent>
           
+          {showEncoding && camera && (
+            <TabsContent value="encoding">
+              <TranscodeProfileEditor camera={camera} onProfileChanged={onTranscodeProfileChanged} />
+            </TabsContent>
+          )}
+          
+          {showOnvif && camera && (
+            <TabsContent value="onvif">
+              <OnvifDevicePanel camera={camera} onCameraUpdated={onCameraUpdated} />
+            </TabsContent>
+          )}
+          
           <TabsContent value="troubleshooting">
             <TroubleshootingGuide currentCameraIp={cameraIp} />
           </TabsContent>
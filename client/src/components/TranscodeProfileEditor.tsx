@@ -0,0 +1,286 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Save, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import {
+  Camera,
+  TranscodeProfile,
+  DEFAULT_TRANSCODE_PROFILES,
+  transcodeProfileSchema
+} from '@shared/schema';
+
+interface TranscodeProfileEditorProps {
+  camera: Camera;
+  onProfileChanged?: (camera: Camera) => void;
+}
+
+// Form values are kept as strings so inputs can be cleared while editing
+type ProfileFormData = {
+  name: string;
+  resolution: string;
+  bitrate: string;
+  fps: string;
+  codec: TranscodeProfile['codec'];
+  audio: boolean;
+  rtspTransport: TranscodeProfile['rtspTransport'];
+};
+
+function toFormData(profile: TranscodeProfile): ProfileFormData {
+  return {
+    ...profile,
+    resolution: profile.resolution || '',
+    bitrate: String(profile.bitrate),
+    fps: String(profile.fps)
+  };
+}
+
+const isBuiltIn = (name: string) => DEFAULT_TRANSCODE_PROFILES.some((profile) => profile.name === name);
+
+export function TranscodeProfileEditor({ camera, onProfileChanged }: TranscodeProfileEditorProps) {
+  const { toast } = useToast();
+  const customProfiles = camera.settings?.transcodeProfiles || [];
+  const profiles = [...DEFAULT_TRANSCODE_PROFILES, ...customProfiles];
+  const activeName = camera.settings?.transcodeProfile || DEFAULT_TRANSCODE_PROFILES[0].name;
+
+  const [selectedName, setSelectedName] = useState(activeName);
+  const [formData, setFormData] = useState<ProfileFormData>(
+    toFormData(profiles.find((profile) => profile.name === activeName) || DEFAULT_TRANSCODE_PROFILES[0])
+  );
+
+  // Load the selected profile into the form
+  useEffect(() => {
+    const profile = profiles.find((p) => p.name === selectedName);
+    if (profile) {
+      setFormData(toFormData(profile));
+    }
+  }, [selectedName, camera.id]);
+
+  const saveSettings = useMutation({
+    mutationFn: async (settings: { transcodeProfiles?: TranscodeProfile[]; transcodeProfile?: string }): Promise<Camera> => {
+      const res = await apiRequest('PATCH', `/api/cameras/${camera.id}/settings`, settings);
+      return res.json();
+    },
+    onSuccess: (updatedCamera) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/cameras'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/cameras/default'] });
+      onProfileChanged?.(updatedCamera);
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Failed to save transcode profile",
+        description: error instanceof Error ? error.message : "An error occurred",
+      });
+    }
+  });
+
+  // Validate the form and save it as a custom profile, making it active
+  const handleSave = () => {
+    const result = transcodeProfileSchema.safeParse({
+      ...formData,
+      resolution: formData.resolution.trim() || null,
+      bitrate: Number(formData.bitrate),
+      fps: Number(formData.fps)
+    });
+
+    if (!result.success) {
+      toast({
+        variant: "destructive",
+        title: "Invalid transcode profile",
+        description: result.error.errors[0]?.message,
+      });
+      return;
+    }
+
+    const profile = result.data;
+    if (isBuiltIn(profile.name)) {
+      toast({
+        variant: "destructive",
+        title: "Invalid transcode profile",
+        description: "Built-in profiles cannot be changed. Save under a new name instead.",
+      });
+      return;
+    }
+
+    const transcodeProfiles = [
+      ...customProfiles.filter((p) => p.name !== profile.name),
+      profile
+    ];
+    saveSettings.mutate(
+      { transcodeProfiles, transcodeProfile: profile.name },
+      {
+        onSuccess: () => {
+          setSelectedName(profile.name);
+          toast({
+            title: "Profile Saved",
+            description: `Streaming with transcode profile "${profile.name}"`,
+          });
+        }
+      }
+    );
+  };
+
+  // Switch the camera to the selected profile
+  const handleActivate = () => {
+    saveSettings.mutate(
+      { transcodeProfile: selectedName },
+      {
+        onSuccess: () => {
+          toast({
+            title: "Profile Applied",
+            description: `Streaming with transcode profile "${selectedName}"`,
+          });
+        }
+      }
+    );
+  };
+
+  // Delete the selected custom profile, falling back to the standard profile if it was active
+  const handleDelete = () => {
+    const transcodeProfiles = customProfiles.filter((p) => p.name !== selectedName);
+    const transcodeProfile = selectedName === activeName ? DEFAULT_TRANSCODE_PROFILES[0].name : activeName;
+    saveSettings.mutate(
+      { transcodeProfiles, transcodeProfile },
+      {
+        onSuccess: () => setSelectedName(transcodeProfile)
+      }
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="transcode-profile">Transcode Profile</Label>
+        <div className="flex gap-2">
+          <Select value={selectedName} onValueChange={setSelectedName}>
+            <SelectTrigger id="transcode-profile" className="flex-1 bg-gray-900 border-gray-700">
+              <SelectValue placeholder="Select profile" />
+            </SelectTrigger>
+            <SelectContent className="bg-gray-900 border-gray-700">
+              {profiles.map((profile) => (
+                <SelectItem key={profile.name} value={profile.name}>
+                  {profile.name}{isBuiltIn(profile.name) ? ' (built-in)' : ''}{profile.name === activeName ? ' • active' : ''}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            onClick={handleActivate}
+            disabled={selectedName === activeName || saveSettings.isPending}
+          >
+            Use Profile
+          </Button>
+          {!isBuiltIn(selectedName) && (
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={handleDelete}
+              disabled={saveSettings.isPending}
+              title="Delete profile"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label htmlFor="profile-name">Name</Label>
+          <Input
+            id="profile-name"
+            value={formData.name}
+            onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+            className="bg-gray-900 border-gray-700"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="profile-resolution">Resolution</Label>
+          <Input
+            id="profile-resolution"
+            value={formData.resolution}
+            placeholder="Source resolution"
+            onChange={(e) => setFormData({ ...formData, resolution: e.target.value })}
+            className="bg-gray-900 border-gray-700"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="profile-bitrate">Bitrate (kbps)</Label>
+          <Input
+            id="profile-bitrate"
+            type="number"
+            value={formData.bitrate}
+            onChange={(e) => setFormData({ ...formData, bitrate: e.target.value })}
+            className="bg-gray-900 border-gray-700"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="profile-fps">Frame Rate</Label>
+          <Input
+            id="profile-fps"
+            type="number"
+            value={formData.fps}
+            onChange={(e) => setFormData({ ...formData, fps: e.target.value })}
+            className="bg-gray-900 border-gray-700"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="profile-codec">HLS Video Codec</Label>
+          <Select
+            value={formData.codec}
+            onValueChange={(value) => setFormData({ ...formData, codec: value as ProfileFormData['codec'] })}
+          >
+            <SelectTrigger id="profile-codec" className="bg-gray-900 border-gray-700">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-gray-900 border-gray-700">
+              <SelectItem value="h264">H.264 (transcode)</SelectItem>
+              <SelectItem value="copy">Copy from camera</SelectItem>
+              <SelectItem value="mpeg1video">Auto</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="profile-transport">RTSP Transport</Label>
+          <Select
+            value={formData.rtspTransport}
+            onValueChange={(value) => setFormData({ ...formData, rtspTransport: value as ProfileFormData['rtspTransport'] })}
+          >
+            <SelectTrigger id="profile-transport" className="bg-gray-900 border-gray-700">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-gray-900 border-gray-700">
+              <SelectItem value="tcp">TCP</SelectItem>
+              <SelectItem value="udp">UDP</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Switch
+            id="profile-audio"
+            checked={formData.audio}
+            onCheckedChange={(checked) => setFormData({ ...formData, audio: checked })}
+          />
+          <Label htmlFor="profile-audio">Include audio</Label>
+        </div>
+        <Button onClick={handleSave} disabled={saveSettings.isPending}>
+          <Save className="h-4 w-4 mr-2" /> Save Profile
+        </Button>
+      </div>
+
+      <p className="text-xs text-gray-400">
+        WebSocket streams always use MPEG1 video. For HLS, Auto and H.264 re-encode with the settings above, while Copy passes the camera video through unchanged.
+      </p>
+    </div>
+  );
+}
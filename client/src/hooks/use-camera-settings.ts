@@ -3,6 +3,15 @@ import { useState, useCallback } from "react";
 export type ViewMode = "360" | "180" | "quad" | "vr";
 export type StreamQuality = "high" | "low";
 export type RenderingQuality = "high" | "balanced" | "performance";
+export const STREAM_MODES = ["jsmpeg", "hls", "webrtc"] as const;
+export type StreamMode = typeof STREAM_MODES[number];
+
+/**
+ * Narrow a stream mode saved in camera settings to a mode the viewer supports
+ */
+export function isStreamMode(value: unknown): value is StreamMode {
+  return STREAM_MODES.includes(value as StreamMode);
+}
 
 export interface CameraSettings {
   // View settings
@@ -40,6 +49,9 @@ export interface CameraSettings {
   renderingQuality: RenderingQuality;
   setRenderingQuality: (quality: RenderingQuality) => void;
   
+  streamMode: StreamMode;
+  setStreamMode: (mode: StreamMode) => void;
+  
   // Reset all settings
   resetToDefaults: () => void;
 }
@@ -78,6 +90,7 @@ export function useCameraSettings(): CameraSettings {
   // Stream settings
   const [streamQuality, setStreamQuality] = useState<StreamQuality>("high");
   const [renderingQuality, setRenderingQuality] = useState<RenderingQuality>("balanced");
+  const [streamMode, setStreamMode] = useState<StreamMode>("jsmpeg");
   
   // Reset all settings to defaults
   const resetToDefaults = useCallback(() => {
@@ -91,6 +104,7 @@ export function useCameraSettings(): CameraSettings {
     setIsAutoExposureEnabled(true);
     setStreamQuality("high");
     setRenderingQuality("balanced");
+    setStreamMode("jsmpeg");
   }, []);
   
   return {
@@ -114,6 +128,8 @@ export function useCameraSettings(): CameraSettings {
     setStreamQuality,
     renderingQuality,
     setRenderingQuality,
+    streamMode,
+    setStreamMode,
     resetToDefaults
   };
 }
@@ -1,76 +1,233 @@
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, useCallback } from "react";
+
+export type StreamProfile = "main" | "sub";
+export type StreamMode = "jsmpeg" | "hls" | "webrtc";
 
 interface UseRtspStreamProps {
-  url: string;
+  cameraId?: number | null;
+  profile?: StreamProfile;
+  mode?: StreamMode;
+  canvasRef?: React.RefObject<HTMLCanvasElement>; // Draw JSMpeg frames here instead of a hidden canvas
   onError?: (error: Error) => void;
 }
 
 interface UseRtspStreamReturn {
   connectionStatus: "connected" | "connecting" | "disconnected";
-  streamUrl: string;
   isConnecting: boolean;
   streamRef: React.RefObject<HTMLVideoElement>;
-  reconnectStream: (newUrl?: string) => void;
+  reconnectStream: () => void;
+}
+
+const JSMPEG_SCRIPT = 'https://cdn.jsdelivr.net/npm/jsmpeg@0.1/jsmpeg.min.js';
+const HLS_SCRIPT = 'https://cdn.jsdelivr.net/npm/hls.js@1/dist/hls.min.js';
+
+// Load each player script once and share it between streams
+const scriptLoaders = new Map<string, Promise<void>>();
+
+function loadScript(src: string): Promise<void> {
+  let loader = scriptLoaders.get(src);
+  if (!loader) {
+    loader = new Promise((resolve, reject) => {
+      const playerScript = document.createElement('script');
+      playerScript.src = src;
+      playerScript.onload = () => resolve();
+      playerScript.onerror = () => {
+        scriptLoaders.delete(src);
+        reject(new Error('Failed to load stream player'));
+      };
+      document.head.appendChild(playerScript);
+    });
+    scriptLoaders.set(src, loader);
+  }
+  return loader;
 }
 
-export function useRtspStream({ url, onError }: UseRtspStreamProps): UseRtspStreamReturn {
+export function useRtspStream({ cameraId, profile = "main", mode = "jsmpeg", canvasRef, onError }: UseRtspStreamProps): UseRtspStreamReturn {
   const [connectionStatus, setConnectionStatus] = useState<"connected" | "connecting" | "disconnected">("connecting");
-  const [streamUrl, setStreamUrl] = useState(url);
   const [isConnecting, setIsConnecting] = useState(true);
+  const [reconnectCount, setReconnectCount] = useState(0);
   const streamRef = useRef<HTMLVideoElement>(null);
-  
+  const playerRef = useRef<any>(null);
+
+  // Track playback of the <video> element for HLS and WebRTC streams
+  const watchPlayback = (video: HTMLVideoElement) => {
+    video.onplaying = () => {
+      setIsConnecting(false);
+      setConnectionStatus("connected");
+    };
+    video.onwaiting = () => {
+      setConnectionStatus("connecting");
+    };
+  };
+
+  // Play an HLS playlist on the <video> element so it receives real frames
+  const playHls = async (playlistUrl: string, isCancelled: () => boolean) => {
+    const video = streamRef.current;
+    if (!video) return;
+
+    watchPlayback(video);
+
+    // Safari plays HLS natively; other browsers need hls.js
+    if (video.canPlayType('application/vnd.apple.mpegurl')) {
+      video.src = playlistUrl;
+      playerRef.current = {
+        destroy: () => {
+          video.removeAttribute('src');
+          video.load();
+        }
+      };
+    } else {
+      await loadScript(HLS_SCRIPT);
+      if (isCancelled()) return;
+
+      // @ts-ignore - hls.js is loaded via script tag
+      const Hls = window.Hls;
+      if (!Hls || !Hls.isSupported()) {
+        throw new Error('HLS playback is not supported in this browser');
+      }
+
+      const hls = new Hls({ liveSyncDurationCount: 2 });
+      hls.on(Hls.Events.ERROR, (_event: string, data: { fatal: boolean }) => {
+        if (data.fatal) {
+          setConnectionStatus("disconnected");
+        }
+      });
+      hls.loadSource(playlistUrl);
+      hls.attachMedia(video);
+      playerRef.current = hls;
+    }
+
+    video.play().catch(() => {
+      // Autoplay can be blocked until the user interacts; the player keeps buffering
+    });
+  };
+
+  // Negotiate a WebRTC stream with the server's WHEP endpoint
+  const playWebRtc = async (cameraId: number, profile: StreamProfile, isCancelled: () => boolean) => {
+    const video = streamRef.current;
+    if (!video) return;
+
+    const pc = new RTCPeerConnection();
+    let sessionUrl: string | null = null;
+    playerRef.current = {
+      destroy: () => {
+        pc.close();
+        video.srcObject = null;
+        if (sessionUrl) {
+          fetch(sessionUrl, { method: 'DELETE' }).catch(console.error);
+        }
+      }
+    };
+
+    watchPlayback(video);
+    pc.addTransceiver('video', { direction: 'recvonly' });
+    pc.ontrack = (event) => {
+      video.srcObject = event.streams[0] || new MediaStream([event.track]);
+      video.play().catch(() => {
+        // Autoplay can be blocked until the user interacts
+      });
+    };
+    pc.onconnectionstatechange = () => {
+      if (pc.connectionState === 'failed' || pc.connectionState === 'disconnected') {
+        setConnectionStatus("disconnected");
+      }
+    };
+
+    // The server doesn't support trickle ICE, so send the offer with all candidates
+    await pc.setLocalDescription(await pc.createOffer());
+    await new Promise<void>((resolve) => {
+      if (pc.iceGatheringState === 'complete') return resolve();
+      const timeout = setTimeout(resolve, 2000);
+      pc.onicegatheringstatechange = () => {
+        if (pc.iceGatheringState === 'complete') {
+          clearTimeout(timeout);
+          resolve();
+        }
+      };
+    });
+    if (isCancelled()) return;
+
+    const response = await fetch(`/api/whep/${cameraId}?profile=${profile}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/sdp',
+      },
+      body: pc.localDescription?.sdp,
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.message || 'Failed to negotiate WebRTC stream');
+    }
+
+    sessionUrl = response.headers.get('Location');
+    const answer = await response.text();
+    if (isCancelled()) {
+      if (sessionUrl) fetch(sessionUrl, { method: 'DELETE' }).catch(console.error);
+      return;
+    }
+
+    await pc.setRemoteDescription({ type: 'answer', sdp: answer });
+  };
+
   // Setup and connect to stream
-  const connectToStream = async (url: string) => {
+  const connectToStream = async (cameraId: number, profile: StreamProfile, mode: StreamMode, isCancelled: () => boolean) => {
     try {
       setIsConnecting(true);
       setConnectionStatus("connecting");
-      
-      // Get websocket URL for RTSP stream
+
+      if (mode === "webrtc") {
+        await playWebRtc(cameraId, profile, isCancelled);
+        return;
+      }
+
+      // Get websocket path for the camera stream
       const response = await fetch('/api/stream/connect', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ rtspUrl: url }),
+        body: JSON.stringify({ cameraId, profile, mode }),
       });
-      
+
       if (!response.ok) {
         const errorData = await response.json();
         throw new Error(errorData.message || 'Failed to connect to stream');
       }
-      
+
       const data = await response.json();
-      // Replace 0.0.0.0 with the current hostname for client connections
-      let wsUrl = data.wsUrl;
-      if (wsUrl.includes('0.0.0.0')) {
-        wsUrl = wsUrl.replace('0.0.0.0', window.location.hostname);
+      if (isCancelled()) return;
+
+      if (mode === "hls") {
+        await playHls(data.playlistUrl, isCancelled);
+        return;
       }
-      
-      if (streamRef.current) {
-        // Initialize JSMpeg player with the WebSocket URL
-        const playerScript = document.createElement('script');
-        playerScript.src = 'https://cdn.jsdelivr.net/npm/jsmpeg@0.1/jsmpeg.min.js';
-        playerScript.onload = () => {
-          // @ts-ignore - JSMpeg is loaded via script tag
-          if (window.JSMpeg && streamRef.current) {
-            // @ts-ignore
-            new window.JSMpeg.Player(wsUrl, {
-              canvas: document.createElement('canvas'), // Hidden canvas
-              videoBufferSize: 1024 * 1024, // 1MB buffer for video
-              audio: false, // No audio
-              onPlay: () => {
-                setIsConnecting(false);
-                setConnectionStatus("connected");
-              },
-              onStalled: () => {
-                setConnectionStatus("disconnected");
-              }
-            });
+
+      // Streams are served on the same host as the app, so build the URL from
+      // the page location to work behind reverse proxies and HTTPS
+      const wsProtocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+      const wsUrl = `${wsProtocol}//${window.location.host}${data.wsPath}`;
+
+      await loadScript(JSMPEG_SCRIPT);
+
+      // @ts-ignore - JSMpeg is loaded via script tag
+      if (!isCancelled() && window.JSMpeg && streamRef.current) {
+        // @ts-ignore
+        playerRef.current = new window.JSMpeg.Player(wsUrl, {
+          canvas: canvasRef?.current || document.createElement('canvas'), // Hidden canvas unless one is given
+          videoBufferSize: 1024 * 1024, // 1MB buffer for video
+          audio: false, // No audio
+          onPlay: () => {
+            setIsConnecting(false);
+            setConnectionStatus("connected");
+          },
+          onStalled: () => {
+            setConnectionStatus("disconnected");
           }
-        };
-        document.head.appendChild(playerScript);
+        });
       }
     } catch (error) {
+      if (isCancelled()) return;
       setConnectionStatus("disconnected");
       setIsConnecting(false);
       if (onError && error instanceof Error) {
@@ -79,51 +236,42 @@ export function useRtspStream({ url, onError }: UseRtspStreamProps): UseRtspStre
       console.error('Error connecting to RTSP stream:', error);
     }
   };
-  
-  // Connect to stream on component mount
+
+  // Connect whenever the camera or profile changes, or a reconnect is requested.
+  // Streams are shared by every viewer of a camera, so leaving one does not stop it:
+  // the server stops a stream itself once it has had no viewers for a minute, including
+  // streams requested by a viewer that went away before connecting.
   useEffect(() => {
-    connectToStream(url);
-    
+    if (!cameraId) {
+      setIsConnecting(false);
+      setConnectionStatus("disconnected");
+      return;
+    }
+
+    let cancelled = false;
+    connectToStream(cameraId, profile, mode, () => cancelled);
+
     return () => {
       // Cleanup
-      fetch('/api/stream/disconnect', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ rtspUrl: streamUrl }),
-      }).catch(console.error);
+      cancelled = true;
+      if (playerRef.current) {
+        playerRef.current.destroy?.();
+        playerRef.current = null;
+      }
+      if (streamRef.current) {
+        streamRef.current.onplaying = null;
+        streamRef.current.onwaiting = null;
+      }
     };
+  }, [cameraId, profile, mode, reconnectCount]);
+
+  // Reconnect to the current camera stream
+  const reconnectStream = useCallback(() => {
+    setReconnectCount((count) => count + 1);
   }, []);
-  
-  // Reconnect to stream with possibly new URL
-  const reconnectStream = (newUrl?: string) => {
-    const urlToUse = newUrl || streamUrl;
-    if (newUrl) {
-      setStreamUrl(newUrl);
-    }
-    
-    // Disconnect current stream first
-    fetch('/api/stream/disconnect', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ rtspUrl: streamUrl }),
-    })
-    .then(() => {
-      connectToStream(urlToUse);
-    })
-    .catch((error) => {
-      console.error('Error disconnecting from stream:', error);
-      // Try to connect anyway
-      connectToStream(urlToUse);
-    });
-  };
-  
+
   return {
     connectionStatus,
-    streamUrl,
     isConnecting,
     streamRef,
     reconnectStream
@@ -0,0 +1,48 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { InsertUserPreferences, UserPreferences } from "@shared/schema";
+
+type PreferenceChanges = Partial<Omit<InsertUserPreferences, "userId">>;
+
+/**
+ * The logged-in user's stored preferences. Users start without a preferences
+ * record, so the first change creates one.
+ */
+export function useUserPreferences() {
+  const { user } = useAuth();
+  const queryKey = ['/api/preferences', user?.id];
+
+  const { data: preferences = null, isLoading } = useQuery<UserPreferences | null>({
+    queryKey,
+    queryFn: async () => {
+      const response = await fetch(`/api/preferences/${user!.id}`, { credentials: 'include' });
+      if (response.status === 404) {
+        return null;
+      }
+      if (!response.ok) {
+        throw new Error('Failed to fetch preferences');
+      }
+      return response.json();
+    },
+    enabled: !!user,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (changes: PreferenceChanges) => {
+      const res = preferences
+        ? await apiRequest('PATCH', `/api/preferences/${preferences.id}`, changes)
+        : await apiRequest('POST', '/api/preferences', changes);
+      return res.json() as Promise<UserPreferences>;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(queryKey, updated);
+    },
+  });
+
+  return {
+    preferences,
+    isLoading,
+    updatePreferences: updateMutation.mutate,
+  };
+}
@@ -54,6 +54,15 @@ export function getAlternativeStreamUrl(currentUrl: string, quality: 'high' | 'l
   return `rtsp://${parsed.username}:${parsed.password}@${parsed.ip}:${parsed.port}/${streamPath}`;
 }
 
+// Get the stream URL the camera's ONVIF service reported for a quality, if it was queried
+export function getOnvifStreamUrl(camera: Pick<Camera, 'onvif'>, quality: 'high' | 'low'): string | undefined {
+  const onvif = camera.onvif;
+  if (!onvif) return undefined;
+
+  const token = quality === 'high' ? onvif.mainProfileToken : onvif.subProfileToken;
+  return onvif.profiles.find((profile) => profile.token === token)?.streamUri;
+}
+
 // Check if RTSP URL is valid
 export function isValidRtspUrl(url: string): boolean {
   const regex = /^rtsp:\/\/(?:[^:]+:[^@]+@)?[^:\/]+(?::\d+)?(?:\/.*)?$/;
@@ -0,0 +1,31 @@
+import React from "react";
+import { Loader2 } from "lucide-react";
+import { Redirect, Route } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+
+/**
+ * Route that sends visitors who are not logged in to the login page
+ */
+export function ProtectedRoute({
+  path,
+  component: Component,
+}: {
+  path: string;
+  component: React.ComponentType;
+}) {
+  const { user, isLoading } = useAuth();
+
+  return (
+    <Route path={path}>
+      {isLoading ? (
+        <div className="flex items-center justify-center min-h-screen bg-gray-900">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : user ? (
+        <Component />
+      ) : (
+        <Redirect to="/auth" />
+      )}
+    </Route>
+  );
+}
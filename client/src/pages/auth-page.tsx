@@ -0,0 +1,110 @@
+import React, { useState } from "react";
+import { Redirect } from "wouter";
+import { Camera, Loader2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useAuth } from "@/hooks/use-auth";
+
+type CredentialsFormProps = {
+  submitLabel: string;
+  isPending: boolean;
+  onSubmit: (credentials: { username: string; password: string }) => void;
+};
+
+const CredentialsForm: React.FC<CredentialsFormProps> = ({ submitLabel, isPending, onSubmit }) => {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const idPrefix = submitLabel.toLowerCase().replace(/\s+/g, "-");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit({ username, password });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-username`}>Username</Label>
+        <Input
+          id={`${idPrefix}-username`}
+          autoComplete="username"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          className="bg-gray-900 border-gray-700"
+          required
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-password`}>Password</Label>
+        <Input
+          id={`${idPrefix}-password`}
+          type="password"
+          autoComplete={submitLabel === "Log In" ? "current-password" : "new-password"}
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className="bg-gray-900 border-gray-700"
+          required
+        />
+      </div>
+      <Button type="submit" className="w-full" disabled={isPending}>
+        {isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        {submitLabel}
+      </Button>
+    </form>
+  );
+};
+
+const AuthPage: React.FC = () => {
+  const { user, loginMutation, registerMutation } = useAuth();
+
+  // Already logged in
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-900 text-white px-4">
+      <Card className="w-full max-w-md bg-gray-800 border-gray-700 text-white">
+        <CardHeader>
+          <div className="flex items-center space-x-3">
+            <Camera className="h-6 w-6 text-primary" />
+            <CardTitle>V380 Pro Fisheye Viewer</CardTitle>
+          </div>
+          <CardDescription className="text-gray-400">
+            Log in to view and manage your cameras
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="login">
+            <TabsList className="grid grid-cols-2 mb-4">
+              <TabsTrigger value="login">Log In</TabsTrigger>
+              <TabsTrigger value="register">Create Account</TabsTrigger>
+            </TabsList>
+            <TabsContent value="login">
+              <CredentialsForm
+                submitLabel="Log In"
+                isPending={loginMutation.isPending}
+                onSubmit={(credentials) => loginMutation.mutate(credentials)}
+              />
+            </TabsContent>
+            <TabsContent value="register">
+              <p className="text-xs text-gray-400 mb-4">
+                The first account can be created here. Further accounts are added by a logged-in user.
+              </p>
+              <CredentialsForm
+                submitLabel="Create Account"
+                isPending={registerMutation.isPending}
+                onSubmit={(credentials) => registerMutation.mutate(credentials)}
+              />
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AuthPage;
@@ -1,23 +1,29 @@
-import { useState, useRef, useEffect } from 'react';
+import { useState, useEffect } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent } from '@/components/ui/card';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
-import { AlertCircle, Camera, Layers, Settings, Video, Zap } from 'lucide-react';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { AlertCircle, Camera, Film, History, Image, Layers, LayoutGrid, Settings, Square, Video, Zap } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import { useRtspStream } from '@/hooks/use-rtsp-stream';
-import { useCameraSettings } from '@/hooks/use-camera-settings';
+import { isStreamMode, useCameraSettings } from '@/hooks/use-camera-settings';
+import { useUserPreferences } from '@/hooks/use-user-preferences';
 import { CameraViewer } from '@/components/CameraViewer';
 import { ControlsPanel } from '@/components/ControlsPanel';
 import { SettingsModal } from '@/components/SettingsModal';
 import { NetworkInfoPanel } from '@/components/NetworkInfoPanel';
 import { NetworkDiagnostics } from '@/components/NetworkDiagnostics';
 import { CameraList } from '@/components/CameraList';
-import { getAlternativeStreamUrl, getScreenshotFilename, getRecordingFilename } from '@/lib/camera-utils';
-import { Camera as CameraType } from '@shared/schema';
+import { CameraGrid } from '@/components/CameraGrid';
+import { EventTimeline } from '@/components/EventTimeline';
+import { RecordingPlayback } from '@/components/RecordingPlayback';
+import { ScreenshotGallery } from '@/components/ScreenshotGallery';
+import { getAlternativeStreamUrl, getOnvifStreamUrl, getScreenshotFilename, parseRtspUrl } from '@/lib/camera-utils';
+import { Camera as CameraType, GRID_LAYOUTS, GridLayout } from '@shared/schema';
 
 export default function Dashboard() {
   const { toast } = useToast();
@@ -25,9 +31,21 @@ export default function Dashboard() {
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
   const [recordingStartTime, setRecordingStartTime] = useState<Date | null>(null);
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const recordedChunks = useRef<Blob[]>([]);
   const settings = useCameraSettings();
+  const { preferences, updatePreferences } = useUserPreferences();
+  const [gridLayout, setGridLayout] = useState<GridLayout>('single');
+
+  // Start in the layout the user picked last time
+  useEffect(() => {
+    if (preferences?.gridLayout) {
+      setGridLayout(preferences.gridLayout as GridLayout);
+    }
+  }, [preferences?.gridLayout]);
+
+  const handleLayoutChange = (layout: GridLayout) => {
+    setGridLayout(layout);
+    updatePreferences({ gridLayout: layout });
+  };
 
   // Fetch default camera
   const { data: defaultCamera, isLoading: isLoadingCamera } = useQuery({
@@ -56,22 +74,23 @@ export default function Dashboard() {
     }
   }, [defaultCamera, cameras]);
 
-  // Get stream URL based on quality setting
+  // Get stream URL based on quality setting (for display only; the server resolves the real URL)
   const streamUrl = currentCamera ? (
     settings.streamQuality === 'high' 
       ? currentCamera.rtspUrl 
-      : getAlternativeStreamUrl(currentCamera.rtspUrl, 'low')
+      : getOnvifStreamUrl(currentCamera, 'low') || getAlternativeStreamUrl(currentCamera.rtspUrl, 'low')
   ) : '';
 
-  // Connect to RTSP stream
+  // Connect to RTSP stream; in grid layouts the tiles open their own streams instead
   const { 
     streamRef, 
     isConnecting, 
     connectionStatus,
-    streamUrl: wsStreamUrl,
     reconnectStream
   } = useRtspStream({ 
-    url: streamUrl,
+    cameraId: gridLayout === 'single' ? currentCamera?.id : null,
+    profile: settings.streamQuality === 'high' ? 'main' : 'sub',
+    mode: settings.streamMode,
     onError: (error) => {
       toast({
         variant: "destructive",
@@ -98,8 +117,42 @@ export default function Dashboard() {
       }
       if (camera.settings.streamQuality) settings.setStreamQuality(camera.settings.streamQuality as any);
       if (camera.settings.renderingQuality) settings.setRenderingQuality(camera.settings.renderingQuality as any);
+      if (isStreamMode(camera.settings.streamMode)) settings.setStreamMode(camera.settings.streamMode);
+    }
+  };
+
+  // Promote a grid tile to the main viewer, leaving the saved layout as it is
+  const handleSelectGridCamera = (camera: CameraType) => {
+    handleSelectCamera(camera);
+    setGridLayout('single');
+  };
+
+  // Save an edited RTSP URL to the camera and reconnect
+  const handleReconnect = async (url: string) => {
+    if (currentCamera && url !== currentCamera.rtspUrl) {
+      try {
+        const response = await fetch(`/api/cameras/${currentCamera.id}`, {
+          method: 'PATCH',
+          body: JSON.stringify({ rtspUrl: url }),
+          headers: {
+            'Content-Type': 'application/json'
+          }
+        });
+
+        if (!response.ok) throw new Error('Failed to update camera URL');
+
+        setCurrentCamera(await response.json());
+        queryClient.invalidateQueries({ queryKey: ['/api/cameras'] });
+      } catch (error) {
+        toast({
+          variant: "destructive",
+          title: "Update Failed",
+          description: error instanceof Error ? error.message : "Failed to update camera URL",
+        });
+        return;
+      }
     }
-    reconnectStream(camera.rtspUrl);
+    reconnectStream();
   };
 
   // Take screenshot
@@ -133,30 +186,22 @@ export default function Dashboard() {
       const formData = new FormData();
       formData.append('file', file);
       formData.append('cameraId', currentCamera.id.toString());
+      formData.append('viewMode', settings.viewMode);
 
       // Create a temporary URL for preview
       const screenshotUrl = URL.createObjectURL(blob);
 
-      // Save to backend
+      // Upload the image; the browser sets the multipart boundary
       const response = await fetch('/api/screenshots', {
         method: 'POST',
-        body: JSON.stringify({
-          cameraId: currentCamera.id,
-          fileName: filename,
-          filePath: `/uploads/screenshots/${filename}`,
-          fileSize: blob.size,
-          metadata: {
-            resolution: `${canvas.width}x${canvas.height}`,
-            format: 'jpeg',
-            viewMode: settings.viewMode
-          }
-        }),
-        headers: {
-          'Content-Type': 'application/json'
-        }
+        body: formData,
+        credentials: 'include'
       });
 
-      if (!response.ok) throw new Error('Failed to save screenshot');
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorData?.message || 'Failed to save screenshot');
+      }
 
       // Show success message with preview
       toast({
@@ -187,32 +232,31 @@ export default function Dashboard() {
     }
   };
 
-  // Start recording
-  const handleStartRecording = () => {
-    if (!streamRef.current || !currentCamera) return;
+  // Start server-side recording
+  const handleStartRecording = async () => {
+    if (!currentCamera) return;
 
     try {
-      const stream = streamRef.current.captureStream();
-      const options = { mimeType: 'video/webm;codecs=vp9' };
-      
-      mediaRecorderRef.current = new MediaRecorder(stream, options);
-      recordedChunks.current = [];
-      
-      mediaRecorderRef.current.ondataavailable = (event) => {
-        if (event.data.size > 0) {
-          recordedChunks.current.push(event.data);
+      const response = await fetch(`/api/cameras/${currentCamera.id}/recordings/start`, {
+        method: 'POST',
+        body: JSON.stringify({ viewMode: settings.viewMode }),
+        headers: {
+          'Content-Type': 'application/json'
         }
-      };
-      
-      mediaRecorderRef.current.onstop = handleStopRecording;
-      
-      mediaRecorderRef.current.start(1000); // Collect 1 second chunks
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || 'Failed to start recording');
+      }
+
+      const data = await response.json();
       setIsRecording(true);
-      setRecordingStartTime(new Date());
+      setRecordingStartTime(new Date(data.startedAt));
       
       toast({
         title: "Recording Started",
-        description: "Recording video from the camera stream",
+        description: "Recording video from the camera stream on the server",
       });
     } catch (error) {
       toast({
@@ -223,72 +267,29 @@ export default function Dashboard() {
     }
   };
 
-  // Stop recording
+  // Stop server-side recording
   const handleStopRecording = async () => {
-    if (!mediaRecorderRef.current || !currentCamera || !recordingStartTime) return;
+    if (!currentCamera) return;
     
     try {
-      // If recording is active, stop it
-      if (mediaRecorderRef.current.state !== 'inactive') {
-        mediaRecorderRef.current.stop();
-      }
-      
       setIsRecording(false);
       
-      // Calculate recording duration
-      const endTime = new Date();
-      const durationInSeconds = Math.round((endTime.getTime() - recordingStartTime.getTime()) / 1000);
-      
-      // Create a blob from the recorded chunks
-      const blob = new Blob(recordedChunks.current, { type: 'video/webm' });
-      
-      // Create filename
-      const filename = getRecordingFilename(currentCamera.id, 'webm');
-      
-      // Create download link
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      document.body.appendChild(a);
-      a.style.display = 'none';
-      a.href = url;
-      a.download = filename;
-      
-      // Save to backend
-      const response = await fetch('/api/recordings', {
-        method: 'POST',
-        body: JSON.stringify({
-          cameraId: currentCamera.id,
-          fileName: filename,
-          filePath: `/uploads/recordings/${filename}`,
-          duration: durationInSeconds,
-          fileSize: blob.size,
-          metadata: {
-            resolution: `${streamRef.current?.videoWidth}x${streamRef.current?.videoHeight}`,
-            format: 'webm',
-            fps: 30,
-            hasAudio: false,
-            viewMode: settings.viewMode
-          }
-        }),
-        headers: {
-          'Content-Type': 'application/json'
-        }
+      const response = await fetch(`/api/cameras/${currentCamera.id}/recordings/stop`, {
+        method: 'POST'
       });
       
-      if (!response.ok) throw new Error('Failed to save recording');
-      
-      // Trigger download
-      a.click();
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || 'Failed to save recording');
+      }
       
-      // Clean up
-      window.URL.revokeObjectURL(url);
-      document.body.removeChild(a);
-      recordedChunks.current = [];
+      const recording = await response.json();
+      setRecordingStartTime(null);
       
       // Show success message
       toast({
         title: "Recording Saved",
-        description: `Recorded ${durationInSeconds} seconds of video`,
+        description: `Recorded ${recording.duration} seconds of video`,
       });
       
       // Invalidate recordings query
@@ -303,6 +304,19 @@ export default function Dashboard() {
     }
   };
 
+  // Restore recording state when switching to a camera that is already recording
+  useEffect(() => {
+    if (!currentCamera) return;
+
+    fetch(`/api/cameras/${currentCamera.id}/recordings/status`)
+      .then((response) => response.ok ? response.json() : null)
+      .then((status) => {
+        setIsRecording(!!status?.isRecording);
+        setRecordingStartTime(status?.isRecording ? new Date(status.startedAt) : null);
+      })
+      .catch(console.error);
+  }, [currentCamera?.id]);
+
   // Format elapsed recording time
   const formatElapsedTime = () => {
     if (!recordingStartTime) return '00:00';
@@ -369,6 +383,18 @@ export default function Dashboard() {
               <Layers className="h-4 w-4 mr-2" />
               Cameras
             </TabsTrigger>
+            <TabsTrigger value="recordings" className="flex items-center">
+              <Film className="h-4 w-4 mr-2" />
+              Recordings
+            </TabsTrigger>
+            <TabsTrigger value="screenshots" className="flex items-center">
+              <Image className="h-4 w-4 mr-2" />
+              Screenshots
+            </TabsTrigger>
+            <TabsTrigger value="timeline" className="flex items-center">
+              <History className="h-4 w-4 mr-2" />
+              Timeline
+            </TabsTrigger>
             <TabsTrigger value="network" className="flex items-center">
               <Zap className="h-4 w-4 mr-2" />
               Network
@@ -377,6 +403,31 @@ export default function Dashboard() {
 
           <TabsContent value="live" className="space-y-4">
             {currentCamera && (
+              <div className="flex justify-end">
+                <ToggleGroup
+                  type="single"
+                  value={gridLayout}
+                  onValueChange={(value) => value && handleLayoutChange(value as GridLayout)}
+                >
+                  {GRID_LAYOUTS.map((layout) => (
+                    <ToggleGroupItem key={layout} value={layout} aria-label={`${layout} layout`}>
+                      {layout === 'single' ? <Square className="h-4 w-4 mr-1" /> : <LayoutGrid className="h-4 w-4 mr-1" />}
+                      {layout === 'single' ? 'Single' : layout}
+                    </ToggleGroupItem>
+                  ))}
+                </ToggleGroup>
+              </div>
+            )}
+
+            {currentCamera && gridLayout !== 'single' && (
+              <CameraGrid
+                layout={gridLayout}
+                mode={settings.streamMode}
+                onSelectCamera={handleSelectGridCamera}
+              />
+            )}
+
+            {currentCamera && gridLayout === 'single' && (
               <>
                 <div className="grid grid-cols-1 lg:grid-cols-4 gap-4">
                   <div className="lg:col-span-3">
@@ -385,8 +436,10 @@ export default function Dashboard() {
                       <CameraViewer 
                         streamRef={streamRef}
                         isConnecting={isConnecting}
-                        streamUrl={wsStreamUrl}
+                        streamUrl={streamUrl}
                         settings={settings}
+                        camera={currentCamera}
+                        onCameraUpdated={(camera: CameraType) => setCurrentCamera(camera)}
                       />
                       
                       {/* Recording indicator */}
@@ -512,6 +565,18 @@ export default function Dashboard() {
             <CameraList onSelectCamera={handleSelectCamera} />
           </TabsContent>
 
+          <TabsContent value="recordings">
+            <RecordingPlayback settings={settings} initialCameraId={currentCamera?.id} />
+          </TabsContent>
+
+          <TabsContent value="screenshots">
+            <ScreenshotGallery />
+          </TabsContent>
+
+          <TabsContent value="timeline">
+            <EventTimeline />
+          </TabsContent>
+
           <TabsContent value="network">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <Card>
@@ -524,7 +589,10 @@ export default function Dashboard() {
                 <CardContent className="p-4">
                   <h3 className="font-medium text-lg mb-4">Network Diagnostics</h3>
                   <NetworkDiagnostics 
-                    currentCameraIp={currentCamera ? currentCamera.rtspUrl.split('@')[1]?.split(':')[0] || '' : ''}
+                    currentCameraIp={currentCamera ? parseRtspUrl(currentCamera.rtspUrl).ip || '' : ''}
+                    currentRtspPort={currentCamera ? parseRtspUrl(currentCamera.rtspUrl).port : undefined}
+                    currentStreamPath={currentCamera ? parseRtspUrl(currentCamera.rtspUrl).path : undefined}
+                    cameraId={currentCamera?.id}
                   />
                 </CardContent>
               </Card>
@@ -537,9 +605,20 @@ export default function Dashboard() {
         isOpen={isSettingsOpen}
         onClose={() => setIsSettingsOpen(false)}
         settings={settings}
-        streamUrl={streamUrl}
+        streamUrl={currentCamera?.rtspUrl || ''}
+        camera={currentCamera}
+        onTranscodeProfileChanged={(camera: CameraType) => {
+          // Restart the stream so the server applies the new profile
+          setCurrentCamera(camera);
+          reconnectStream();
+        }}
+        onCameraUpdated={(camera: CameraType) => {
+          // Restart the stream on the URL the camera's ONVIF profiles point to
+          setCurrentCamera(camera);
+          reconnectStream();
+        }}
         onReconnect={(url) => {
-          reconnectStream(url);
+          handleReconnect(url);
           setIsSettingsOpen(false);
         }}
       />
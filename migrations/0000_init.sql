@@ -0,0 +1,71 @@
+CREATE TABLE "camera_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"camera_id" integer NOT NULL,
+	"event_type" text NOT NULL,
+	"message" text NOT NULL,
+	"timestamp" timestamp DEFAULT now() NOT NULL,
+	"screenshot_id" integer,
+	"notified" boolean DEFAULT false NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "cameras" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"rtsp_url" text NOT NULL,
+	"is_default" boolean DEFAULT false,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"settings" json DEFAULT '{"brightness":0,"contrast":0,"saturation":0,"nightMode":false,"bwMode":false,"autoExposure":true,"viewMode":"360","dewarpEnabled":true,"streamQuality":"high","renderingQuality":"balanced"}'::json
+);
+--> statement-breakpoint
+CREATE TABLE "notifications" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"title" text NOT NULL,
+	"message" text NOT NULL,
+	"type" text DEFAULT 'info' NOT NULL,
+	"timestamp" timestamp DEFAULT now() NOT NULL,
+	"is_read" boolean DEFAULT false NOT NULL,
+	"camera_id" integer,
+	"screenshot_url" text
+);
+--> statement-breakpoint
+CREATE TABLE "recordings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"camera_id" integer NOT NULL,
+	"file_name" text NOT NULL,
+	"file_path" text NOT NULL,
+	"duration" integer NOT NULL,
+	"file_size" integer NOT NULL,
+	"thumbnail_url" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"metadata" json
+);
+--> statement-breakpoint
+CREATE TABLE "screenshots" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"camera_id" integer NOT NULL,
+	"file_name" text NOT NULL,
+	"file_path" text NOT NULL,
+	"file_size" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"metadata" json
+);
+--> statement-breakpoint
+CREATE TABLE "user_preferences" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"theme" text DEFAULT 'dark' NOT NULL,
+	"language" text DEFAULT 'en' NOT NULL,
+	"enable_notifications" boolean DEFAULT true NOT NULL,
+	"default_view_mode" text DEFAULT '360' NOT NULL,
+	"default_camera" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
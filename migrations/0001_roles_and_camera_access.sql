@@ -0,0 +1,9 @@
+CREATE TABLE "camera_access" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"camera_id" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "camera_access_user_camera_unique" UNIQUE("user_id","camera_id")
+);
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "role" text DEFAULT 'viewer' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "cameras" ADD COLUMN "rtsp_username" text;--> statement-breakpoint
+ALTER TABLE "cameras" ADD COLUMN "rtsp_password" text;
\ No newline at end of file
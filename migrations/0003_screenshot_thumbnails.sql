@@ -0,0 +1 @@
+ALTER TABLE "screenshots" ADD COLUMN "thumbnail_url" text;
\ No newline at end of file
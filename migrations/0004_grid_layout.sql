@@ -0,0 +1 @@
+ALTER TABLE "user_preferences" ADD COLUMN "grid_layout" text DEFAULT 'single' NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "cameras" ADD COLUMN "onvif" json;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "recordings" ADD COLUMN "started_at" timestamp;--> statement-breakpoint
+ALTER TABLE "recordings" ADD COLUMN "ended_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,319 @@
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import session from "express-session";
+import type { Express, Request, Response, NextFunction, RequestHandler } from "express";
+import type { IncomingMessage, ServerResponse } from "http";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { z } from "zod";
+import { storage } from "./storage";
+import { insertUserSchema, hasPermission, type Permission, type User as SelectUser } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+// Passport keeps the serialized user ID in the session
+declare module "express-session" {
+  interface SessionData {
+    passport?: { user?: number };
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+// Users as returned by the API, without the password hash
+export type PublicUser = Omit<SelectUser, "password">;
+
+const credentialsSchema = insertUserSchema.extend({
+  username: z.string().trim().min(3, "Username must be at least 3 characters").max(50),
+  password: z.string().min(8, "Password must be at least 8 characters").max(200),
+});
+
+let sessionMiddleware: RequestHandler | undefined;
+
+/**
+ * Hash a password with a random salt using scrypt
+ * @param password The plain text password
+ * @returns "<hash>.<salt>" in hex
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+/**
+ * Check a password against a stored scrypt hash in constant time
+ * @param supplied The plain text password
+ * @param stored The stored "<hash>.<salt>" value
+ */
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) {
+    return false;
+  }
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+/**
+ * Strip the password hash from a user before sending it to a client
+ */
+export function toPublicUser(user: SelectUser): PublicUser {
+  const { password, ...publicUser } = user;
+  return publicUser;
+}
+
+/**
+ * Get the session secret, generating a throwaway one in development
+ */
+function getSessionSecret(): string {
+  if (process.env.SESSION_SECRET) {
+    return process.env.SESSION_SECRET;
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  console.warn("SESSION_SECRET is not set, using a random secret; sessions will not survive restarts");
+  return randomBytes(32).toString("hex");
+}
+
+/**
+ * Reject requests that are not logged in
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Authentication required" });
+  }
+  next();
+}
+
+/**
+ * Reject requests from users whose role lacks a permission
+ * @param permission The permission the route needs
+ */
+export function requirePermission(permission: Permission) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!hasPermission(req.user?.role, permission)) {
+      return res.status(403).json({ message: "You do not have permission to do this" });
+    }
+    next();
+  };
+}
+
+/**
+ * Check whether a user may see a camera. Admins can see every camera;
+ * other roles need an access grant.
+ * @param user The logged-in user
+ * @param cameraId The camera to check
+ */
+export async function canAccessCamera(user: SelectUser, cameraId: number): Promise<boolean> {
+  if (user.role === "admin") {
+    return true;
+  }
+  return storage.hasCameraAccess(user.id, cameraId);
+}
+
+/**
+ * Get the cameras a user may see
+ * @param user The logged-in user
+ * @returns Camera IDs, or null if the user can see every camera
+ */
+export async function getAccessibleCameraIds(user: SelectUser): Promise<number[] | null> {
+  if (user.role === "admin") {
+    return null;
+  }
+  return storage.getCameraAccess(user.id);
+}
+
+/**
+ * Reject requests for cameras the user has not been granted
+ * @param getCameraId Reads the camera ID from the request
+ */
+export function requireCameraAccess(getCameraId: (req: Request) => number) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const cameraId = getCameraId(req);
+      if (Number.isNaN(cameraId) || !(await canAccessCamera(req.user!, cameraId))) {
+        return res.status(404).json({ message: "Camera not found" });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Check whether a WebSocket upgrade request belongs to a logged-in user with access to the camera.
+ * Upgrades bypass Express, so the session cookie is parsed here directly.
+ * @param request The upgrade request
+ * @param cameraId The camera being streamed
+ */
+export function isUpgradeAuthorized(request: IncomingMessage, cameraId: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    if (!sessionMiddleware) {
+      return resolve(false);
+    }
+
+    const req = request as Request;
+    sessionMiddleware(req, {} as Response & ServerResponse, async (err?: unknown) => {
+      const userId = req.session?.passport?.user;
+      if (err || userId === undefined) {
+        return resolve(false);
+      }
+
+      try {
+        const user = await storage.getUser(userId);
+        resolve(!!user && await canAccessCamera(user, cameraId));
+      } catch (error) {
+        console.error('Error authorizing stream upgrade:', error);
+        resolve(false);
+      }
+    });
+  });
+}
+
+/**
+ * Set up sessions, passport and the register/login/logout routes.
+ * Must be called before any route that uses requireAuth.
+ * @param app The Express app
+ */
+export function setupAuth(app: Express) {
+  const sessionSettings: session.SessionOptions = {
+    secret: getSessionSecret(),
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: 7 * 24 * 60 * 60 * 1000, // 1 week
+    },
+  };
+
+  if (process.env.NODE_ENV === "production") {
+    app.set("trust proxy", 1);
+  }
+
+  sessionMiddleware = session(sessionSettings);
+  app.use(sessionMiddleware);
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false, { message: "Invalid username or password" });
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  // Anyone may create the first account, which becomes the admin;
+  // after that only admins can add accounts
+  app.post("/api/register", async (req, res, next) => {
+    try {
+      const isFirstUser = (await storage.getUserCount()) === 0;
+      if (!isFirstUser && !req.isAuthenticated()) {
+        return res.status(403).json({ message: "Registration is closed, ask an admin for an account" });
+      }
+      if (!isFirstUser && !hasPermission(req.user?.role, "users:manage")) {
+        return res.status(403).json({ message: "Only admins can create accounts" });
+      }
+
+      const { username, password, role } = credentialsSchema.parse(req.body);
+      if (await storage.getUserByUsername(username)) {
+        return res.status(400).json({ message: "Username already exists" });
+      }
+
+      const passwordHash = await hashPassword(password);
+      const user = isFirstUser
+        ? await storage.createFirstUser({ username, password: passwordHash })
+        : await storage.createUser({ username, password: passwordHash, role: role ?? "viewer" });
+
+      // Another registration created the first account while this one was being checked
+      if (!user) {
+        return res.status(403).json({ message: "Registration is closed, ask an admin for an account" });
+      }
+
+      // Log in as the new user unless an admin is adding an account
+      if (req.isAuthenticated()) {
+        return res.status(201).json(toPublicUser(user));
+      }
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error) {
+      console.error('Error registering user:', error);
+
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: error.errors[0]?.message || 'Invalid registration',
+          errors: error.errors
+        });
+      }
+
+      res.status(500).json({
+        message: error instanceof Error ? error.message : 'Failed to register user'
+      });
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (err: unknown, user: SelectUser | false, info?: { message: string }) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ message: info?.message || "Invalid username or password" });
+      }
+
+      // Issue a fresh session ID on login to prevent session fixation
+      req.session.regenerate((regenerateErr) => {
+        if (regenerateErr) return next(regenerateErr);
+        req.login(user, (loginErr) => {
+          if (loginErr) return next(loginErr);
+          res.status(200).json(toPublicUser(user));
+        });
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.sendStatus(200);
+      });
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.sendStatus(401);
+    }
+    res.json(toPublicUser(req.user));
+  });
+}
@@ -0,0 +1,31 @@
+import pg from "pg";
+import path from "path";
+import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import { migrate } from "drizzle-orm/node-postgres/migrator";
+import * as schema from "@shared/schema";
+
+export type Database = NodePgDatabase<typeof schema> & { $client: pg.Pool };
+
+/**
+ * Create a Drizzle database instance backed by a PostgreSQL connection pool
+ * @param connectionString The PostgreSQL connection string (defaults to DATABASE_URL)
+ * @returns Drizzle database instance
+ */
+export function createDb(connectionString = process.env.DATABASE_URL): Database {
+  if (!connectionString) {
+    throw new Error("DATABASE_URL, ensure the database is provisioned");
+  }
+
+  const pool = new pg.Pool({ connectionString });
+  return drizzle(pool, { schema });
+}
+
+/**
+ * Apply any pending SQL migrations generated by drizzle-kit
+ * @param db The database to migrate
+ */
+export async function runMigrations(db: Database): Promise<void> {
+  await migrate(db, {
+    migrationsFolder: path.resolve(process.cwd(), "migrations")
+  });
+}
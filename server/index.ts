@@ -1,5 +1,9 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { storage, DatabaseStorage } from "./storage";
+import { startRecordingScheduler } from "./lib/continuous-recording";
+import { encryptPlaintextCredentials } from "./lib/camera-credentials";
+import { startMotionDetectors } from "./lib/motion-detection";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
@@ -37,6 +41,18 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Bring the database schema up to date before serving any requests
+  if (storage instanceof DatabaseStorage) {
+    await storage.migrate();
+    log("database migrations applied");
+  }
+
+  // Encrypt credentials of cameras saved before they were stored separately
+  const converted = await encryptPlaintextCredentials();
+  if (converted > 0) {
+    log(`encrypted credentials for ${converted} camera(s)`);
+  }
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -66,5 +82,15 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+
+    // Resume continuous recording for configured cameras
+    startRecordingScheduler().catch((error) => {
+      console.error('Failed to start recording scheduler:', error);
+    });
+
+    // Resume motion detection for configured cameras
+    startMotionDetectors().catch((error) => {
+      console.error('Failed to start motion detection:', error);
+    });
   });
 })();
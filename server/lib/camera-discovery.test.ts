@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import dgram from 'dgram';
+import { discoverOnvifDevices } from './camera-discovery';
+
+/**
+ * A WS-Discovery ProbeMatches answer, as a camera sends it
+ */
+function buildProbeMatches(relatesTo: string, xaddrs: string, scopes: string[]): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<SOAP-ENV:Envelope xmlns:SOAP-ENV="http://www.w3.org/2003/05/soap-envelope"',
+    ' xmlns:wsa="http://schemas.xmlsoap.org/ws/2004/08/addressing"',
+    ' xmlns:d="http://schemas.xmlsoap.org/ws/2005/04/discovery">',
+    '<SOAP-ENV:Header>',
+    `<wsa:RelatesTo>${relatesTo}</wsa:RelatesTo>`,
+    '<wsa:Action>http://schemas.xmlsoap.org/ws/2005/04/discovery/ProbeMatches</wsa:Action>',
+    '</SOAP-ENV:Header>',
+    '<SOAP-ENV:Body><d:ProbeMatches><d:ProbeMatch>',
+    '<wsa:EndpointReference><wsa:Address>urn:uuid:5f5a69c2-e0ae-504f-829b-00387a2f2e13</wsa:Address></wsa:EndpointReference>',
+    '<d:Types>dn:NetworkVideoTransmitter</d:Types>',
+    `<d:Scopes>${scopes.join(' ')}</d:Scopes>`,
+    `<d:XAddrs>${xaddrs}</d:XAddrs>`,
+    '<d:MetadataVersion>1</d:MetadataVersion>',
+    '</d:ProbeMatch></d:ProbeMatches></SOAP-ENV:Body>',
+    '</SOAP-ENV:Envelope>'
+  ].join('');
+}
+
+describe('discoverOnvifDevices', () => {
+  let responder: dgram.Socket;
+  let responderPort: number;
+  const probes: string[] = [];
+
+  beforeAll(async () => {
+    responder = dgram.createSocket('udp4');
+    responder.on('message', (message, remote) => {
+      const xml = message.toString('utf8');
+      probes.push(xml);
+      const messageId = xml.match(/<w:MessageID>([^<]+)<\/w:MessageID>/)?.[1] ?? '';
+
+      const answer = buildProbeMatches(messageId, 'http://192.0.2.10/onvif/device_service', [
+        'onvif://www.onvif.org/type/video_encoder',
+        'onvif://www.onvif.org/name/Front%20Door',
+        'onvif://www.onvif.org/mfr/Acme',
+        'onvif://www.onvif.org/hardware/IPC-100',
+        'onvif://www.onvif.org/location/country/nl'
+      ]);
+      // An answer meant for another client's probe, which must be ignored
+      const stray = buildProbeMatches('uuid:someone-else', 'http://192.0.2.99/onvif/device_service', []);
+
+      responder.send(stray, remote.port, remote.address);
+      responder.send(answer, remote.port, remote.address);
+    });
+
+    await new Promise<void>((resolve) => responder.bind(0, '127.0.0.1', resolve));
+    responderPort = responder.address().port;
+  });
+
+  afterAll(() => {
+    responder.close();
+  });
+
+  it('sends an ONVIF probe and collects the devices that answer it', async () => {
+    const devices = await discoverOnvifDevices({ probeAddress: '127.0.0.1', probePort: responderPort, timeout: 500 });
+
+    expect(probes).toHaveLength(1);
+    expect(probes[0]).toContain('dn:NetworkVideoTransmitter');
+    expect([...devices.keys()]).toEqual(['192.0.2.10']);
+    expect(devices.get('192.0.2.10')).toMatchObject({
+      address: '192.0.2.10',
+      sources: ['onvif'],
+      name: 'Front Door',
+      manufacturer: 'Acme',
+      model: 'IPC-100',
+      location: 'nl',
+      onvifUrl: 'http://192.0.2.10/onvif/device_service',
+      endpointReference: 'urn:uuid:5f5a69c2-e0ae-504f-829b-00387a2f2e13',
+      openPorts: [],
+      suggestedRtspUrl: 'rtsp://192.0.2.10:554/'
+    });
+  });
+
+  it('finishes with no devices when nothing answers', async () => {
+    const silent = dgram.createSocket('udp4');
+    await new Promise<void>((resolve) => silent.bind(0, '127.0.0.1', resolve));
+    try {
+      const devices = await discoverOnvifDevices({ probeAddress: '127.0.0.1', probePort: silent.address().port, timeout: 200 });
+      expect(devices.size).toBe(0);
+    } finally {
+      silent.close();
+    }
+  });
+});
@@ -0,0 +1,295 @@
+import dgram from 'dgram';
+import { randomUUID } from 'crypto';
+import { getIpAddress } from './network-utils';
+import { getNetworkFromIp, isPortOpen } from './network-diagnostics';
+import { probeRtspStream } from './rtsp-probe';
+import { getElementText } from './onvif-client';
+
+const WS_DISCOVERY_ADDRESS = '239.255.255.250';
+const WS_DISCOVERY_PORT = 3702;
+export const DEFAULT_DISCOVERY_TIMEOUT = 3000;
+export const DEFAULT_SCAN_PORTS = [554, 8554];
+const PORT_SCAN_TIMEOUT = 500; // Hosts on the LAN answer quickly or not at all
+const PORT_SCAN_CONCURRENCY = 64;
+const RTSP_PROBE_TIMEOUT = 2000;
+
+// A device found on the LAN that may be a camera
+export interface DiscoveredCamera {
+  address: string;
+  sources: Array<'onvif' | 'port-scan'>;
+  name?: string;
+  manufacturer?: string;
+  model?: string;
+  location?: string;
+  onvifUrl?: string; // ONVIF device service, from the WS-Discovery answer
+  endpointReference?: string;
+  scopes?: string[];
+  openPorts: number[];
+  rtspServer?: string; // Server header of the RTSP answer, often naming the vendor
+  suggestedRtspUrl: string;
+}
+
+export interface DiscoveryOptions {
+  timeout?: number; // How long to wait for WS-Discovery answers, in milliseconds
+  portScan?: boolean; // Also look for open RTSP ports on the server's /24 subnet
+  ports?: number[];
+  // Where to send the probe; defaults to the WS-Discovery multicast group
+  probeAddress?: string;
+  probePort?: number;
+}
+
+export interface DiscoveryResult {
+  serverIp: string;
+  subnet: string; // e.g. "192.168.1", empty when the server has no IPv4 LAN address
+  candidates: DiscoveredCamera[];
+}
+
+interface ProbeMatch {
+  endpointReference?: string;
+  types?: string;
+  scopes: string[];
+  xaddrs: string[];
+}
+
+/**
+ * Build a WS-Discovery Probe for ONVIF video devices
+ * @param messageId The message's unique ID, echoed back in RelatesTo
+ */
+function buildProbeMessage(messageId: string): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<e:Envelope xmlns:e="http://www.w3.org/2003/05/soap-envelope"',
+    ' xmlns:w="http://schemas.xmlsoap.org/ws/2004/08/addressing"',
+    ' xmlns:d="http://schemas.xmlsoap.org/ws/2005/04/discovery"',
+    ' xmlns:dn="http://www.onvif.org/ver10/network/wsdl">',
+    '<e:Header>',
+    `<w:MessageID>uuid:${messageId}</w:MessageID>`,
+    '<w:To e:mustUnderstand="true">urn:schemas-xmlsoap-org:ws:2005:04:discovery</w:To>',
+    '<w:Action e:mustUnderstand="true">http://schemas.xmlsoap.org/ws/2005/04/discovery/Probe</w:Action>',
+    '</e:Header>',
+    '<e:Body><d:Probe><d:Types>dn:NetworkVideoTransmitter</d:Types></d:Probe></e:Body>',
+    '</e:Envelope>'
+  ].join('');
+}
+
+/**
+ * Read the ProbeMatch entries of a WS-Discovery ProbeMatches answer
+ * @param xml The SOAP envelope received
+ */
+export function parseProbeMatches(xml: string): ProbeMatch[] {
+  const matches: ProbeMatch[] = [];
+  const matchPattern = /<(?:[\w-]+:)?ProbeMatch(?:\s[^>]*)?>([\s\S]*?)<\/(?:[\w-]+:)?ProbeMatch>/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = matchPattern.exec(xml)) !== null) {
+    const body = match[1];
+    const endpoint = getElementText(body, 'EndpointReference');
+    matches.push({
+      endpointReference: endpoint ? getElementText(endpoint, 'Address') : undefined,
+      types: getElementText(body, 'Types'),
+      scopes: (getElementText(body, 'Scopes') || '').split(/\s+/).filter(Boolean),
+      xaddrs: (getElementText(body, 'XAddrs') || '').split(/\s+/).filter(Boolean)
+    });
+  }
+
+  return matches;
+}
+
+/**
+ * Read the device details ONVIF puts in its scopes, e.g.
+ * onvif://www.onvif.org/name/IPCAM or onvif://www.onvif.org/mfr/Acme
+ */
+function readOnvifScopes(scopes: string[]): Pick<DiscoveredCamera, 'name' | 'manufacturer' | 'model' | 'location'> {
+  const details: Record<string, string> = {};
+  for (const scope of scopes) {
+    const match = scope.match(/^onvif:\/\/www\.onvif\.org\/(name|mfr|manufacturer|hardware|location(?:\/[\w-]+)?)\/(.+)$/i);
+    if (!match) continue;
+
+    const key = match[1].toLowerCase().split('/')[0];
+    let value = match[2];
+    try {
+      value = decodeURIComponent(value);
+    } catch {
+      // Keep the raw value
+    }
+    details[key] = details[key] ? `${details[key]}, ${value}` : value;
+  }
+
+  return {
+    name: details.name,
+    manufacturer: details.mfr || details.manufacturer,
+    model: details.hardware,
+    location: details.location
+  };
+}
+
+/**
+ * Address a discovery answer refers to: the host of its first service
+ * address, or else the address the answer came from
+ */
+function getDeviceAddress(match: ProbeMatch, sender: string): string {
+  for (const xaddr of match.xaddrs) {
+    try {
+      return new URL(xaddr).hostname.replace(/^\[|\]$/g, '');
+    } catch {
+      // Try the next address
+    }
+  }
+  return sender;
+}
+
+/**
+ * Send an ONVIF WS-Discovery probe and collect the devices that answer
+ * @param options How long to listen and where to send the probe
+ * @returns The devices found, keyed by address
+ */
+export function discoverOnvifDevices(options: DiscoveryOptions = {}): Promise<Map<string, DiscoveredCamera>> {
+  const timeout = options.timeout ?? DEFAULT_DISCOVERY_TIMEOUT;
+  const probeAddress = options.probeAddress ?? WS_DISCOVERY_ADDRESS;
+  const probePort = options.probePort ?? WS_DISCOVERY_PORT;
+  const serverIp = getIpAddress();
+  const messageId = randomUUID();
+  const devices = new Map<string, DiscoveredCamera>();
+
+  return new Promise((resolve) => {
+    const socket = dgram.createSocket({ type: 'udp4', reuseAddr: true });
+    let finished = false;
+
+    const finish = () => {
+      if (finished) return;
+      finished = true;
+      clearTimeout(timer);
+      socket.close();
+      resolve(devices);
+    };
+    const timer = setTimeout(finish, timeout);
+
+    socket.on('error', (error) => {
+      console.error('WS-Discovery socket error:', error);
+      finish();
+    });
+
+    socket.on('message', (message, remote) => {
+      const xml = message.toString('utf8');
+      const relatesTo = getElementText(xml, 'RelatesTo');
+      // Ignore answers to other clients' probes
+      if (relatesTo && !relatesTo.includes(messageId)) {
+        return;
+      }
+
+      for (const match of parseProbeMatches(xml)) {
+        const address = getDeviceAddress(match, remote.address);
+        const existing = devices.get(address);
+        const onvifUrl = match.xaddrs.find((xaddr) => /^https?:\/\//i.test(xaddr));
+        devices.set(address, {
+          ...existing,
+          ...readOnvifScopes(match.scopes),
+          address,
+          sources: ['onvif'],
+          onvifUrl: onvifUrl ?? existing?.onvifUrl,
+          endpointReference: match.endpointReference,
+          scopes: match.scopes,
+          openPorts: existing?.openPorts ?? [],
+          suggestedRtspUrl: `rtsp://${address}:554/`
+        });
+      }
+    });
+
+    socket.bind(0, () => {
+      try {
+        // Send from the LAN interface the rest of the app reports
+        if (probeAddress === WS_DISCOVERY_ADDRESS && serverIp !== 'localhost') {
+          socket.setMulticastInterface(serverIp);
+        }
+      } catch (error) {
+        console.error('Could not select the multicast interface:', error);
+      }
+
+      const probe = Buffer.from(buildProbeMessage(messageId));
+      socket.send(probe, probePort, probeAddress, (error) => {
+        if (error) {
+          console.error('Failed to send WS-Discovery probe:', error);
+          finish();
+        }
+      });
+    });
+  });
+}
+
+/**
+ * Check every address of a /24 subnet for open ports
+ * @param subnet The first three octets, e.g. "192.168.1"
+ * @param ports Ports to try on each host
+ * @returns Open ports by address
+ */
+async function scanSubnet(subnet: string, ports: number[]): Promise<Map<string, number[]>> {
+  const targets: Array<{ address: string; port: number }> = [];
+  for (let host = 1; host < 255; host++) {
+    for (const port of ports) {
+      targets.push({ address: `${subnet}.${host}`, port });
+    }
+  }
+
+  const openPorts = new Map<string, number[]>();
+  let next = 0;
+
+  // A fixed number of connection attempts at a time
+  const worker = async () => {
+    while (next < targets.length) {
+      const { address, port } = targets[next++];
+      if (await isPortOpen(address, port, PORT_SCAN_TIMEOUT)) {
+        openPorts.set(address, [...(openPorts.get(address) || []), port]);
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(PORT_SCAN_CONCURRENCY, targets.length) }, worker));
+
+  return openPorts;
+}
+
+/**
+ * Find cameras on the server's LAN: ONVIF devices answering WS-Discovery and,
+ * if asked, hosts with an open RTSP port on the server's /24 subnet
+ * @param options Discovery timeout, whether to scan ports and which ones
+ * @returns The candidates, sorted by address
+ */
+export async function discoverCameras(options: DiscoveryOptions = {}): Promise<DiscoveryResult> {
+  const serverIp = getIpAddress();
+  const subnet = getNetworkFromIp(serverIp);
+  const ports = options.ports?.length ? options.ports : DEFAULT_SCAN_PORTS;
+
+  const [devices, openPorts] = await Promise.all([
+    discoverOnvifDevices(options),
+    options.portScan && subnet ? scanSubnet(subnet, ports) : Promise.resolve(new Map<string, number[]>())
+  ]);
+
+  openPorts.forEach((portsOpen, address) => {
+    const device = devices.get(address);
+    if (device) {
+      device.sources.push('port-scan');
+      device.openPorts = portsOpen;
+      device.suggestedRtspUrl = `rtsp://${address}:${portsOpen[0]}/`;
+    } else {
+      devices.set(address, {
+        address,
+        sources: ['port-scan'],
+        openPorts: portsOpen,
+        suggestedRtspUrl: `rtsp://${address}:${portsOpen[0]}/`
+      });
+    }
+  });
+
+  // The RTSP server header often names the vendor when ONVIF does not
+  await Promise.all(Array.from(devices.values())
+    .filter((device) => device.openPorts.length > 0)
+    .map(async (device) => {
+      const probe = await probeRtspStream(device.suggestedRtspUrl, { timeout: RTSP_PROBE_TIMEOUT });
+      device.rtspServer = probe.server;
+    }));
+
+  const candidates = Array.from(devices.values()).sort((a, b) =>
+    a.address.localeCompare(b.address, undefined, { numeric: true })
+  );
+
+  return { serverIp, subnet, candidates };
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { spawnSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Camera } from '@shared/schema';
+import { getCameraHealth, getCameraSnapshot } from './camera-snapshot';
+import { readImageInfo } from './screenshot-files';
+
+const hasFfmpeg = spawnSync('ffmpeg', ['-version']).status === 0;
+
+// Outside production a camera URL may be a local video file
+function cameraFromFile(id: number, filePath: string): Camera {
+  return { id, rtspUrl: filePath, rtspUsername: null, rtspPassword: null, onvif: null } as Camera;
+}
+
+describe.skipIf(!hasFfmpeg)('getCameraSnapshot', () => {
+  let workDir: string;
+  let videoPath: string;
+
+  beforeAll(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'snapshot-test-'));
+    videoPath = path.join(workDir, 'source.mp4');
+    const result = spawnSync('ffmpeg', [
+      '-f', 'lavfi', '-i', 'testsrc=size=640x480:rate=10:duration=1',
+      '-c:v', 'libx264', '-pix_fmt', 'yuv420p', '-y', videoPath
+    ]);
+    expect(result.status).toBe(0);
+  });
+
+  afterAll(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it('captures a scaled JPEG from the source and reports the camera online', async () => {
+    const camera = cameraFromFile(101, videoPath);
+
+    const image = await getCameraSnapshot(camera, { width: 320 });
+
+    expect(readImageInfo(image)).toEqual({ format: 'jpeg', width: 320, height: 240 });
+    expect(getCameraHealth(camera.id)).toMatchObject({ cameraId: camera.id, online: true, source: 'snapshot' });
+  });
+
+  it('shares one capture between requests for the same size', async () => {
+    const camera = cameraFromFile(102, videoPath);
+
+    const first = getCameraSnapshot(camera);
+    const second = getCameraSnapshot(camera);
+
+    expect(second).toBe(first);
+    expect(readImageInfo(await first)).toMatchObject({ width: 640, height: 480 });
+  });
+
+  it('reports the camera offline when the source cannot be read, without caching the failure', async () => {
+    const camera = cameraFromFile(103, path.join(workDir, 'missing.mp4'));
+
+    const failed = getCameraSnapshot(camera);
+    await expect(failed).rejects.toThrow(/No such file/);
+    expect(getCameraHealth(camera.id)).toMatchObject({ online: false, lastError: expect.stringMatching(/No such file/) });
+
+    const retry = getCameraSnapshot(camera);
+    expect(retry).not.toBe(failed);
+    await expect(retry).rejects.toThrow();
+  });
+});
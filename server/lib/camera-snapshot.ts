@@ -0,0 +1,202 @@
+import { spawn } from 'child_process';
+import type { Camera } from '@shared/schema';
+import {
+  resolveStreamUrl,
+  buildSourceInputArgs,
+  parseFfmpegError,
+  captureLiveStreamData,
+  getLatestHlsSegment,
+  getStreamStatuses
+} from './rtsp-stream';
+import { getLatestMotionFrame } from './motion-detection';
+
+export const DEFAULT_SNAPSHOT_QUALITY = 80;
+const SNAPSHOT_CACHE_TTL = 2000; // Requests within this window share one frame
+export const MAX_SNAPSHOT_AGE = 60000; // Callers may accept cached frames up to this old
+const SNAPSHOT_TIMEOUT = 15000; // Give up on cameras that do not answer
+const STREAM_CAPTURE_DURATION = 1500; // Enough live JSMpeg output to include a key frame
+
+export interface SnapshotOptions {
+  width?: number; // Scale to this width, keeping the aspect ratio
+  quality?: number; // 1-100
+  maxAge?: number; // Oldest cached frame to accept, in milliseconds
+}
+
+// Whether a camera is reachable, from its live streams or else the last snapshot attempt
+export interface CameraHealth {
+  cameraId: number;
+  online: boolean | null; // null until the camera has been streamed or captured
+  source?: 'stream' | 'snapshot';
+  checkedAt?: Date;
+  lastError?: string;
+}
+
+// Where a frame is read from, as FFmpeg input arguments plus optional data on stdin
+interface FrameSource {
+  inputArgs: string[];
+  stdin?: Buffer;
+}
+
+interface CachedSnapshot {
+  image: Promise<Buffer>;
+  capturedAt: number;
+}
+
+const snapshotCache = new Map<string, CachedSnapshot>();
+const snapshotHealth = new Map<number, Omit<CameraHealth, 'cameraId' | 'source'>>();
+
+/**
+ * Map a 1-100 quality to FFmpeg's MJPEG scale, where 2 is best and 31 is worst
+ */
+function toJpegQscale(quality: number): number {
+  return Math.round(31 - (Math.min(Math.max(quality, 1), 100) / 100) * 29);
+}
+
+/**
+ * Pick where to read a frame from, reusing FFmpeg processes that are already
+ * reading the camera before opening a new connection to it
+ */
+async function getFrameSource(camera: Camera): Promise<FrameSource> {
+  // The motion detector keeps a recent full-resolution JPEG
+  const motionFrame = getLatestMotionFrame(camera.id, SNAPSHOT_CACHE_TTL);
+  if (motionFrame) {
+    return { inputArgs: ['-i', motionFrame] };
+  }
+
+  // Last frame of the newest HLS segment
+  const hlsSegment = getLatestHlsSegment(camera.id);
+  if (hlsSegment) {
+    return { inputArgs: ['-sseof', '-0.5', '-i', hlsSegment] };
+  }
+
+  // A short stretch of live JSMpeg output, decoded from its first key frame
+  const streamData = await captureLiveStreamData(camera.id, STREAM_CAPTURE_DURATION);
+  if (streamData) {
+    return { inputArgs: ['-f', 'mpegts', '-i', 'pipe:0'], stdin: streamData };
+  }
+
+  // Nothing is running, so connect to the camera once
+  return { inputArgs: buildSourceInputArgs(resolveStreamUrl(camera, 'main'), { realtime: false }) };
+}
+
+/**
+ * Decode one frame from a source and encode it as a JPEG
+ */
+function encodeSnapshot(source: FrameSource, width: number | undefined, quality: number): Promise<Buffer> {
+  const ffmpegArgs = [
+    '-v', 'error',
+    ...source.inputArgs,
+    '-frames:v', '1',
+    ...(width ? ['-vf', `scale=${width}:-2`] : []),
+    '-q:v', String(toJpegQscale(quality)),
+    '-f', 'image2pipe',
+    '-c:v', 'mjpeg',
+    'pipe:1'
+  ];
+
+  return new Promise((resolve, reject) => {
+    const ffmpeg = spawn('ffmpeg', ffmpegArgs, {
+      shell: false,
+      stdio: [source.stdin ? 'pipe' : 'ignore', 'pipe', 'pipe']
+    });
+
+    const chunks: Buffer[] = [];
+    let stderr = '';
+    const timeout = setTimeout(() => {
+      ffmpeg.kill('SIGKILL');
+      reject(new Error('Timed out waiting for a frame from the camera'));
+    }, SNAPSHOT_TIMEOUT);
+
+    ffmpeg.stdout!.on('data', (data: Buffer) => { chunks.push(data); });
+    ffmpeg.stderr!.on('data', (data: Buffer) => { stderr = (stderr + data.toString()).slice(-4096); });
+    ffmpeg.on('error', (err) => {
+      clearTimeout(timeout);
+      reject(err);
+    });
+    ffmpeg.on('close', (code: number | null) => {
+      clearTimeout(timeout);
+      if (code === 0 && chunks.length > 0) {
+        resolve(Buffer.concat(chunks));
+      } else {
+        const lastLine = stderr.trim().split('\n').pop();
+        reject(new Error(parseFfmpegError(stderr) || lastLine || `FFmpeg failed to capture a frame (code ${code})`));
+      }
+    });
+
+    if (source.stdin) {
+      // FFmpeg may exit as soon as it has a frame, before reading everything
+      ffmpeg.stdin!.on('error', () => {});
+      ffmpeg.stdin!.end(source.stdin);
+    }
+  });
+}
+
+/**
+ * Get a JPEG of a camera's current view. Requests for the same camera and size
+ * share one capture for a couple of seconds, or up to maxAge if the caller allows.
+ * @param camera The camera to capture
+ * @param options Output width, JPEG quality and the oldest acceptable frame
+ * @returns The JPEG image
+ */
+export function getCameraSnapshot(camera: Camera, options: SnapshotOptions = {}): Promise<Buffer> {
+  const quality = options.quality ?? DEFAULT_SNAPSHOT_QUALITY;
+  const maxAge = Math.min(Math.max(options.maxAge ?? SNAPSHOT_CACHE_TTL, SNAPSHOT_CACHE_TTL), MAX_SNAPSHOT_AGE);
+  const cacheKey = `${camera.id}:${options.width || 'full'}:${quality}`;
+  const now = Date.now();
+
+  const cached = snapshotCache.get(cacheKey);
+  if (cached && now - cached.capturedAt < maxAge) {
+    return cached.image;
+  }
+
+  // Drop expired entries so the cache does not grow with every size requested
+  snapshotCache.forEach((entry, key) => {
+    if (now - entry.capturedAt >= MAX_SNAPSHOT_AGE) {
+      snapshotCache.delete(key);
+    }
+  });
+
+  const image = getFrameSource(camera).then((source) => encodeSnapshot(source, options.width, quality));
+  snapshotCache.set(cacheKey, { image, capturedAt: now });
+
+  image.then(
+    () => {
+      snapshotHealth.set(camera.id, { online: true, checkedAt: new Date() });
+    },
+    (error) => {
+      snapshotHealth.set(camera.id, {
+        online: false,
+        checkedAt: new Date(),
+        lastError: error instanceof Error ? error.message : String(error)
+      });
+
+      // Failures are not cached, so the next request tries again
+      if (snapshotCache.get(cacheKey)?.image === image) {
+        snapshotCache.delete(cacheKey);
+      }
+    }
+  );
+
+  return image;
+}
+
+/**
+ * Get whether a camera is reachable. A live or failing stream is the freshest signal;
+ * otherwise the result of the last snapshot is used.
+ * @param cameraId The camera to check
+ */
+export function getCameraHealth(cameraId: number): CameraHealth {
+  const streams = getStreamStatuses(cameraId);
+  const live = streams.find((stream) => stream.state === 'live');
+  if (live) {
+    return { cameraId, online: true, source: 'stream', checkedAt: live.stateChangedAt };
+  }
+
+  const failing = streams.find((stream) => stream.state === 'reconnecting' || stream.state === 'failed');
+  if (failing) {
+    return { cameraId, online: false, source: 'stream', checkedAt: failing.stateChangedAt, lastError: failing.lastError };
+  }
+
+  const health = snapshotHealth.get(cameraId);
+  return health ? { cameraId, source: 'snapshot', ...health } : { cameraId, online: null };
+}
@@ -0,0 +1,308 @@
+import fs from 'fs';
+import path from 'path';
+import type { ChildProcess } from 'child_process';
+import type { Camera, Recording } from '@shared/schema';
+import { storage } from '../storage';
+import { RECORDINGS_DIR, spawnSegmentRecorder, resolveStreamUrl } from './rtsp-stream';
+import { probeMediaFile } from './media-probe';
+
+export const DEFAULT_SEGMENT_DURATION = 300; // 5 minutes
+const RESTART_DELAY = 30000; // Wait before restarting a failed recorder
+const RETENTION_INTERVAL = 10 * 60 * 1000; // Run retention every 10 minutes
+
+// Store running continuous recorders, keyed by camera ID
+interface ContinuousRecorder {
+  cameraId: number;
+  rtspUrl: string;
+  segmentDuration: number;
+  viewMode: string;
+  ffmpegProcess?: ChildProcess;
+  restartTimeout?: NodeJS.Timeout;
+  stopping: boolean;
+}
+
+const recorders = new Map<number, ContinuousRecorder>();
+let retentionInterval: NodeJS.Timeout | undefined;
+
+/**
+ * Directory that a camera's continuous segments are written to
+ */
+function getSegmentDir(cameraId: number): string {
+  return path.join(RECORDINGS_DIR, `camera_${cameraId}`);
+}
+
+/**
+ * Whether continuous recording is enabled for a camera
+ */
+function isContinuousEnabled(camera: Camera): boolean {
+  return camera.isActive && !!camera.settings?.continuousRecording;
+}
+
+/**
+ * Segment length for a camera, falling back to the default
+ */
+function getSegmentDuration(camera: Camera): number {
+  const duration = camera.settings?.segmentDuration;
+  return duration && duration >= 10 ? Math.round(duration) : DEFAULT_SEGMENT_DURATION;
+}
+
+/**
+ * Read when a segment started from the time FFmpeg stamped into its file name
+ * @param fileName Segment file name, e.g. recording_1_2024-05-01T13-05-00.mp4
+ * @returns The start time, or undefined if the name carries none
+ */
+export function parseSegmentStartTime(fileName: string): Date | undefined {
+  const match = fileName.match(/_(\d{4})-(\d{2})-(\d{2})T(\d{2})-(\d{2})-(\d{2})\.mp4$/);
+  if (!match) {
+    return undefined;
+  }
+
+  // strftime writes the server's local time
+  const [year, month, day, hour, minute, second] = match.slice(1).map(Number);
+  return new Date(year, month - 1, day, hour, minute, second);
+}
+
+/**
+ * Probe a completed segment and add it to the recordings table
+ */
+async function indexSegment(cameraId: number, segmentPath: string, viewMode: string): Promise<Recording> {
+  const info = await probeMediaFile(segmentPath);
+  const fileName = path.basename(segmentPath);
+
+  // Fall back to the file's last write, which is when the segment ended
+  const namedStart = parseSegmentStartTime(fileName);
+  const endedAt = namedStart
+    ? new Date(namedStart.getTime() + info.duration * 1000)
+    : (await fs.promises.stat(segmentPath)).mtime;
+  const startedAt = namedStart || new Date(endedAt.getTime() - info.duration * 1000);
+
+  return storage.createRecording({
+    cameraId,
+    fileName,
+    filePath: `/uploads/recordings/camera_${cameraId}/${fileName}`,
+    duration: info.duration,
+    fileSize: info.fileSize,
+    startedAt,
+    endedAt,
+    metadata: {
+      resolution: `${info.width}x${info.height}`,
+      format: 'mp4',
+      fps: info.fps,
+      hasAudio: info.hasAudio,
+      viewMode,
+      continuous: true
+    }
+  });
+}
+
+/**
+ * Index segments that were written while the server was not running
+ * (e.g. the last segment before a crash or restart)
+ */
+async function indexOrphanSegments(camera: Camera): Promise<void> {
+  const dir = getSegmentDir(camera.id);
+  if (!fs.existsSync(dir)) {
+    return;
+  }
+
+  const indexed = new Set((await storage.getRecordings(camera.id)).map((recording) => recording.fileName));
+  const files = (await fs.promises.readdir(dir)).filter((file) => file.endsWith('.mp4') && !indexed.has(file));
+
+  for (const file of files) {
+    try {
+      await indexSegment(camera.id, path.join(dir, file), camera.settings?.viewMode || '360');
+    } catch (error) {
+      // Interrupted segments may be missing their MP4 index and cannot be probed
+      console.warn(`Skipping unreadable segment ${file}:`, error);
+    }
+  }
+}
+
+/**
+ * Spawn the segment recorder for a registered recorder, restarting it if FFmpeg exits
+ */
+function runRecorder(recorder: ContinuousRecorder): void {
+  const dir = getSegmentDir(recorder.cameraId);
+  fs.mkdirSync(dir, { recursive: true });
+
+  const ffmpegProcess = spawnSegmentRecorder(
+    recorder.rtspUrl,
+    dir,
+    `recording_${recorder.cameraId}`,
+    recorder.segmentDuration,
+    (segmentPath) => {
+      indexSegment(recorder.cameraId, segmentPath, recorder.viewMode).catch((error) => {
+        console.error(`Failed to index segment ${segmentPath}:`, error);
+      });
+    }
+  );
+
+  ffmpegProcess.on('error', (err) => {
+    console.error(`Continuous recorder [camera ${recorder.cameraId}] failed to start:`, err);
+  });
+
+  ffmpegProcess.on('close', (code: number | null) => {
+    recorder.ffmpegProcess = undefined;
+    if (recorder.stopping) {
+      return;
+    }
+
+    console.log(`Continuous recorder [camera ${recorder.cameraId}] exited with code ${code}, restarting in ${RESTART_DELAY / 1000}s`);
+    recorder.restartTimeout = setTimeout(async () => {
+      recorder.restartTimeout = undefined;
+      const camera = await storage.getCamera(recorder.cameraId).catch(() => undefined);
+      if (!recorder.stopping && camera && isContinuousEnabled(camera)) {
+        runRecorder(recorder);
+      }
+    }, RESTART_DELAY);
+  });
+
+  recorder.ffmpegProcess = ffmpegProcess;
+}
+
+/**
+ * Stop continuous recording for a camera, finalizing the current segment
+ * @param cameraId The camera to stop recording
+ */
+export function stopContinuousRecording(cameraId: number): void {
+  const recorder = recorders.get(cameraId);
+  if (!recorder) {
+    return;
+  }
+
+  recorder.stopping = true;
+  recorders.delete(cameraId);
+
+  if (recorder.restartTimeout) {
+    clearTimeout(recorder.restartTimeout);
+  }
+
+  // SIGINT lets FFmpeg close (and list) the segment it is writing
+  recorder.ffmpegProcess?.kill('SIGINT');
+}
+
+/**
+ * Start, restart or stop continuous recording to match a camera's settings
+ * @param camera The camera whose settings changed
+ */
+export function syncContinuousRecording(camera: Camera): void {
+  const existing = recorders.get(camera.id);
+
+  if (!isContinuousEnabled(camera)) {
+    stopContinuousRecording(camera.id);
+    return;
+  }
+
+  const segmentDuration = getSegmentDuration(camera);
+  const rtspUrl = resolveStreamUrl(camera, 'main');
+  if (existing && existing.rtspUrl === rtspUrl && existing.segmentDuration === segmentDuration) {
+    existing.viewMode = camera.settings?.viewMode || '360';
+    return;
+  }
+
+  stopContinuousRecording(camera.id);
+
+  const recorder: ContinuousRecorder = {
+    cameraId: camera.id,
+    rtspUrl,
+    segmentDuration,
+    viewMode: camera.settings?.viewMode || '360',
+    stopping: false
+  };
+  recorders.set(camera.id, recorder);
+  runRecorder(recorder);
+}
+
+/**
+ * Delete a recording's file from disk and remove it from storage
+ */
+async function removeRecording(recording: Recording): Promise<void> {
+  const filePath = path.join(process.cwd(), recording.filePath);
+  await fs.promises.unlink(filePath).catch((error) => {
+    if (error.code !== 'ENOENT') throw error;
+  });
+  await storage.deleteRecording(recording.id);
+}
+
+/**
+ * When a recording's footage starts or ends, for recordings saved before these were stored
+ * falling back to when the recording was saved
+ */
+function getFootageTime(recording: Recording, edge: 'startedAt' | 'endedAt'): number {
+  return new Date(recording[edge] ?? recording.createdAt).getTime();
+}
+
+/**
+ * Prune continuous segments by age and per-camera disk quota
+ * @returns Number of segments removed
+ */
+export async function applyRetentionPolicy(): Promise<number> {
+  let removed = 0;
+  const cameras = await storage.getCameras();
+
+  for (const camera of cameras) {
+    const retentionDays = camera.settings?.retentionDays || 0;
+    const maxBytes = (camera.settings?.maxStorageMb || 0) * 1024 * 1024;
+    if (!retentionDays && !maxBytes) {
+      continue;
+    }
+
+    // Newest footage first, so the quota keeps the most recent footage. Segments indexed
+    // after a restart were saved late, so their save time says little about their age.
+    const segments = (await storage.getRecordings(camera.id))
+      .filter((recording) => recording.metadata?.continuous)
+      .sort((a, b) => getFootageTime(b, 'startedAt') - getFootageTime(a, 'startedAt'));
+    const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+    let totalBytes = 0;
+
+    for (const segment of segments) {
+      totalBytes += segment.fileSize;
+      const isExpired = retentionDays > 0 && getFootageTime(segment, 'endedAt') < cutoff;
+      const isOverQuota = maxBytes > 0 && totalBytes > maxBytes;
+
+      if (isExpired || isOverQuota) {
+        try {
+          await removeRecording(segment);
+          removed++;
+        } catch (error) {
+          console.error(`Failed to remove segment ${segment.fileName}:`, error);
+        }
+      }
+    }
+  }
+
+  return removed;
+}
+
+/**
+ * Resume continuous recording for all configured cameras and start the retention scheduler.
+ * Called on server startup so recording survives restarts.
+ */
+export async function startRecordingScheduler(): Promise<void> {
+  const cameras = await storage.getCameras();
+
+  // One camera failing (e.g. credentials that no longer decrypt) must not stop the others or retention
+  for (const camera of cameras) {
+    try {
+      await indexOrphanSegments(camera);
+      syncContinuousRecording(camera);
+    } catch (error) {
+      console.error(`Failed to resume continuous recording for camera ${camera.id}:`, error);
+    }
+  }
+
+  const runRetention = () => {
+    applyRetentionPolicy()
+      .then((removed) => {
+        if (removed > 0) {
+          console.log(`Retention policy removed ${removed} recording segment(s)`);
+        }
+      })
+      .catch((error) => console.error('Error applying retention policy:', error));
+  };
+
+  runRetention();
+  if (!retentionInterval) {
+    retentionInterval = setInterval(runRetention, RETENTION_INTERVAL);
+  }
+}
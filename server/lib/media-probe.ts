@@ -0,0 +1,85 @@
+import { spawn } from 'child_process';
+import fs from 'fs';
+
+export interface MediaInfo {
+  duration: number; // in seconds
+  fileSize: number; // in bytes
+  width: number;
+  height: number;
+  fps: number;
+  videoCodec?: string;
+  hasAudio: boolean;
+}
+
+// The parts of FFprobe's -show_streams and -show_format JSON that are read
+interface FfprobeStream {
+  codec_type?: string; // "video", "audio", "subtitle" or "data"
+  codec_name?: string;
+  width?: number;
+  height?: number;
+  avg_frame_rate?: string;
+  r_frame_rate?: string;
+}
+
+interface FfprobeOutput {
+  streams?: FfprobeStream[];
+  format?: {
+    duration?: string;
+  };
+}
+
+/**
+ * Parse an FFprobe frame rate such as "30000/1001" into a number
+ */
+function parseFrameRate(rate?: string): number {
+  if (!rate) return 0;
+  const [num, den] = rate.split('/').map(Number);
+  if (!den) return num || 0;
+  return Math.round((num / den) * 100) / 100;
+}
+
+/**
+ * Read duration, size and resolution back from a media file using FFprobe
+ * @param filePath Absolute path to the media file
+ * @returns Media information for the file
+ */
+export async function probeMediaFile(filePath: string): Promise<MediaInfo> {
+  const { size } = await fs.promises.stat(filePath);
+
+  const output = await new Promise<string>((resolve, reject) => {
+    const ffprobe = spawn('ffprobe', [
+      '-v', 'error',
+      '-print_format', 'json',
+      '-show_format',
+      '-show_streams',
+      filePath
+    ], { shell: false });
+
+    let stdout = '';
+    let stderr = '';
+    ffprobe.stdout.on('data', (data: Buffer) => { stdout += data.toString(); });
+    ffprobe.stderr.on('data', (data: Buffer) => { stderr += data.toString(); });
+    ffprobe.on('error', reject);
+    ffprobe.on('close', (code: number) => {
+      if (code === 0) {
+        resolve(stdout);
+      } else {
+        reject(new Error(`FFprobe failed with code ${code}: ${stderr.trim()}`));
+      }
+    });
+  });
+
+  const data: FfprobeOutput = JSON.parse(output);
+  const streams = data.streams || [];
+  const video = streams.find((stream) => stream.codec_type === 'video');
+
+  return {
+    duration: Math.round(parseFloat(data.format?.duration ?? '') || 0),
+    fileSize: size,
+    width: video?.width || 0,
+    height: video?.height || 0,
+    fps: parseFrameRate(video?.avg_frame_rate || video?.r_frame_rate),
+    videoCodec: video?.codec_name,
+    hasAudio: streams.some((stream) => stream.codec_type === 'audio')
+  };
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { spawnSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const hasFfmpeg = spawnSync('ffmpeg', ['-version']).status === 0;
+
+/**
+ * Wait until a check passes, polling every 200ms
+ */
+async function waitFor<T>(check: () => Promise<T | undefined> | T | undefined, timeout: number): Promise<T> {
+  const deadline = Date.now() + timeout;
+  for (;;) {
+    const result = await check();
+    if (result) return result;
+    if (Date.now() > deadline) throw new Error('Timed out waiting');
+    await new Promise((resolve) => setTimeout(resolve, 200));
+  }
+}
+
+describe.skipIf(!hasFfmpeg)('motion detector', () => {
+  let workDir: string;
+  let videoPath: string;
+
+  beforeAll(() => {
+    // Screenshots are written under the working directory
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'motion-test-'));
+    vi.spyOn(process, 'cwd').mockReturnValue(workDir);
+
+    // Four seconds of a black frame; after the first second a white square moves across it
+    videoPath = path.join(workDir, 'moving.mp4');
+    const result = spawnSync('ffmpeg', [
+      '-f', 'lavfi', '-i', 'color=c=black:s=320x240:r=10:d=4',
+      '-f', 'lavfi', '-i', 'color=c=white:s=80x80:r=10:d=4',
+      '-filter_complex', "[0][1]overlay=x='if(lt(t,1),0,(t-1)*100)':y=80",
+      '-c:v', 'libx264', '-pix_fmt', 'yuv420p', '-y', videoPath
+    ]);
+    expect(result.status).toBe(0);
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it('records a motion event with a screenshot and stops at the end of a file', async () => {
+    const { storage } = await import('../storage');
+    const { startMotionDetector, getMotionStatus, stopMotionDetection } = await import('./motion-detection');
+    const camera = await storage.createCamera({ name: 'Test', rtspUrl: 'rtsp://10.0.0.1/' });
+
+    startMotionDetector(camera, videoPath);
+    try {
+      const [event] = await waitFor(async () => {
+        const events = await storage.queryCameraEvents({ cameraIds: [camera.id], limit: 10 });
+        return events.find((item) => item.screenshotId) ? events : undefined;
+      }, 15000);
+
+      expect(event.eventType).toBe('motion');
+      const screenshot = await storage.getScreenshot(event.screenshotId!);
+      expect(screenshot?.fileName).toMatch(new RegExp(`^camera_${camera.id}_.*\\.jpg$`));
+      expect(fs.existsSync(path.join(workDir, 'uploads', 'screenshots', screenshot!.fileName))).toBe(true);
+      expect(screenshot?.metadata?.resolution).toBe('320x240');
+
+      // The file is not replayed once it ends
+      await waitFor(() => !getMotionStatus(camera.id).running, 10000);
+      expect(getMotionStatus(camera.id)).toMatchObject({ enabled: true, running: false, lastError: undefined });
+    } finally {
+      stopMotionDetection(camera.id);
+    }
+  });
+});
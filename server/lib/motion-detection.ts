@@ -0,0 +1,479 @@
+import { spawn, type ChildProcess } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Camera, CameraEvent, MotionZone, Screenshot } from '@shared/schema';
+import { storage } from '../storage';
+import { resolveStreamUrl, parseFfmpegError, isFileSource, buildSourceInputArgs } from './rtsp-stream';
+import { saveScreenshotFile, createScreenshotThumbnail } from './screenshot-files';
+import { getScreenshotFilename } from '../../client/src/lib/camera-utils';
+
+// Frames are decoded to small grayscale images for analysis
+export const ANALYSIS_WIDTH = 160;
+export const ANALYSIS_HEIGHT = 120;
+const FRAME_SIZE = ANALYSIS_WIDTH * ANALYSIS_HEIGHT;
+const ANALYSIS_FPS = 5;
+const SNAPSHOT_FPS = 2; // Full-resolution frames kept for event screenshots
+
+export const DEFAULT_MOTION_SENSITIVITY = 50;
+const TRIGGER_FRAMES = 2; // Consecutive moving frames needed to raise an event
+const MOTION_HOLD = 3000; // Motion stays reported this long after the last moving frame
+const EVENT_COOLDOWN = 30000; // Minimum time between events for a camera
+// Restart backoff for failed detectors: 10s, 20s, 40s ... capped at 5 minutes
+const RESTART_BASE_DELAY = 10000;
+const RESTART_MAX_DELAY = 300000;
+
+// Pixels of the analysis frame watched for motion. Without include zones, the
+// whole frame minus any exclude zones is a single region with no zone ID.
+export interface MotionRegion {
+  zoneId?: string;
+  pixels: Uint32Array;
+}
+
+export interface MotionResult {
+  motion: boolean;
+  zoneIds: string[]; // include zones that saw motion
+  score: number; // largest fraction of changed pixels in any region
+}
+
+export interface MotionStatus {
+  enabled: boolean;
+  running: boolean;
+  motion: boolean;
+  zoneIds: string[];
+  lastMotionAt?: Date;
+  lastError?: string;
+}
+
+// Store running motion detectors, keyed by camera ID
+interface MotionDetector {
+  cameraId: number;
+  sourceUrl: string;
+  sensitivity: number;
+  zones: MotionZone[];
+  regions: MotionRegion[];
+  viewMode: string;
+  workDir: string;
+  ffmpegProcess?: ChildProcess;
+  restartTimeout?: NodeJS.Timeout;
+  restartAttempts: number;
+  stopping: boolean;
+  previousFrame?: Buffer;
+  movingFrames: number;
+  zoneIds: string[];
+  lastMotionAt?: Date;
+  lastEventAt: number;
+  resolution?: string;
+  lastError?: string;
+}
+
+const detectors = new Map<number, MotionDetector>();
+
+/**
+ * Whether motion detection is enabled for a camera
+ */
+function isMotionEnabled(camera: Camera): boolean {
+  return camera.isActive && !!camera.settings?.motionDetection;
+}
+
+/**
+ * Check whether a normalized point lies inside a polygon (ray casting)
+ */
+function isPointInZone(x: number, y: number, points: MotionZone['points']): boolean {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i];
+    const b = points[j];
+    if ((a.y > y) !== (b.y > y) && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Work out which pixels of an analysis frame each zone covers
+ * @param zones The camera's motion zones
+ * @param width Analysis frame width
+ * @param height Analysis frame height
+ * @returns One region per include zone, or a single region for the whole frame
+ */
+export function buildMotionRegions(zones: MotionZone[], width: number, height: number): MotionRegion[] {
+  const excludeZones = zones.filter((zone) => zone.mode === 'exclude');
+  const includeZones = zones.filter((zone) => zone.mode === 'include');
+
+  // Test pixel centres so zones map the same way at any analysis size
+  const collectPixels = (zone?: MotionZone): Uint32Array => {
+    const pixels: number[] = [];
+    for (let row = 0; row < height; row++) {
+      const y = (row + 0.5) / height;
+      for (let col = 0; col < width; col++) {
+        const x = (col + 0.5) / width;
+        if (zone && !isPointInZone(x, y, zone.points)) continue;
+        if (excludeZones.some((excluded) => isPointInZone(x, y, excluded.points))) continue;
+        pixels.push(row * width + col);
+      }
+    }
+    return Uint32Array.from(pixels);
+  };
+
+  const regions: MotionRegion[] = includeZones.length > 0
+    ? includeZones.map((zone) => ({ zoneId: zone.id, pixels: collectPixels(zone) }))
+    : [{ pixels: collectPixels() }];
+
+  return regions.filter((region) => region.pixels.length > 0);
+}
+
+/**
+ * Map a sensitivity of 1-100 to how much a pixel must change and how much of a region must change
+ */
+function getMotionThresholds(sensitivity: number): { pixelDelta: number; minChangedRatio: number } {
+  const clamped = Math.min(100, Math.max(1, sensitivity));
+  return {
+    pixelDelta: Math.round(50 - clamped * 0.4), // 50 grey levels at 1, 10 at 100
+    minChangedRatio: 0.001 + ((100 - clamped) / 100) * 0.02 // 2% of the region at 1, 0.1% at 100
+  };
+}
+
+/**
+ * Compare two grayscale frames and report which regions changed
+ * @param previous The previous frame
+ * @param current The current frame
+ * @param regions Regions to watch, from buildMotionRegions
+ * @param sensitivity Motion sensitivity, 1-100
+ */
+export function compareFrames(
+  previous: Uint8Array,
+  current: Uint8Array,
+  regions: MotionRegion[],
+  sensitivity: number
+): MotionResult {
+  const { pixelDelta, minChangedRatio } = getMotionThresholds(sensitivity);
+  const result: MotionResult = { motion: false, zoneIds: [], score: 0 };
+
+  for (const region of regions) {
+    let changed = 0;
+    for (let i = 0; i < region.pixels.length; i++) {
+      const pixel = region.pixels[i];
+      if (Math.abs(current[pixel] - previous[pixel]) > pixelDelta) {
+        changed++;
+      }
+    }
+
+    const ratio = changed / region.pixels.length;
+    result.score = Math.max(result.score, ratio);
+    if (ratio >= minChangedRatio) {
+      result.motion = true;
+      if (region.zoneId) {
+        result.zoneIds.push(region.zoneId);
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Save the latest full-resolution frame as a screenshot and record a motion event with a notification
+ */
+async function recordMotionEvent(detector: MotionDetector, zoneIds: string[]): Promise<CameraEvent> {
+  const camera = await storage.getCamera(detector.cameraId);
+  let screenshot: Screenshot | undefined;
+
+  try {
+    const frame = await fs.promises.readFile(path.join(detector.workDir, 'latest.jpg'));
+    const fileName = await saveScreenshotFile(getScreenshotFilename(detector.cameraId), frame);
+    const thumbnailUrl = await createScreenshotThumbnail(fileName).catch((error) => {
+      console.warn(`Failed to create motion screenshot thumbnail for camera ${detector.cameraId}:`, error);
+      return null;
+    });
+
+    screenshot = await storage.createScreenshot({
+      cameraId: detector.cameraId,
+      fileName,
+      filePath: `/uploads/screenshots/${fileName}`,
+      fileSize: frame.length,
+      thumbnailUrl,
+      metadata: {
+        resolution: detector.resolution || `${ANALYSIS_WIDTH}x${ANALYSIS_HEIGHT}`,
+        format: 'jpeg',
+        viewMode: detector.viewMode
+      }
+    });
+  } catch (error) {
+    console.error(`Failed to save motion screenshot for camera ${detector.cameraId}:`, error);
+  }
+
+  const zoneNames = zoneIds
+    .map((id) => detector.zones.find((zone) => zone.id === id)?.name)
+    .filter((name): name is string => !!name);
+  const message = zoneNames.length > 0 ? `Motion detected in ${zoneNames.join(', ')}` : 'Motion detected';
+
+  const event = await storage.createCameraEvent({
+    cameraId: detector.cameraId,
+    eventType: 'motion',
+    message,
+    screenshotId: screenshot?.id ?? null
+  });
+
+  await storage.createNotification({
+    title: "Motion Detected",
+    message: `${message} on camera: ${camera?.name || `camera ID ${detector.cameraId}`}`,
+    type: "warning",
+    cameraId: detector.cameraId,
+    screenshotUrl: screenshot?.filePath ?? null
+  });
+
+  return event;
+}
+
+/**
+ * Compare a decoded frame with the previous one and raise an event once motion persists
+ */
+function analyzeFrame(detector: MotionDetector, frame: Buffer): void {
+  const previous = detector.previousFrame;
+  detector.previousFrame = frame;
+  detector.restartAttempts = 0;
+  if (!previous) {
+    return;
+  }
+
+  const result = compareFrames(previous, frame, detector.regions, detector.sensitivity);
+  if (!result.motion) {
+    detector.movingFrames = 0;
+    return;
+  }
+
+  detector.movingFrames++;
+  detector.lastMotionAt = new Date();
+  detector.zoneIds = result.zoneIds;
+
+  const now = Date.now();
+  if (detector.movingFrames >= TRIGGER_FRAMES && now - detector.lastEventAt >= EVENT_COOLDOWN) {
+    detector.lastEventAt = now;
+    recordMotionEvent(detector, result.zoneIds).catch((error) => {
+      console.error(`Failed to record motion event for camera ${detector.cameraId}:`, error);
+    });
+  }
+}
+
+/**
+ * Spawn FFmpeg for a registered detector, restarting it with backoff if FFmpeg fails.
+ * A file source is analysed once and the detector stops at its end.
+ */
+function runDetector(detector: MotionDetector): void {
+  const ffmpegArgs = [
+    ...buildSourceInputArgs(detector.sourceUrl),
+    '-an',
+    // Small grayscale frames on stdout for analysis
+    '-map', '0:v:0',
+    '-vf', `fps=${ANALYSIS_FPS},scale=${ANALYSIS_WIDTH}:${ANALYSIS_HEIGHT},format=gray`,
+    '-f', 'rawvideo',
+    '-pix_fmt', 'gray',
+    'pipe:1',
+    // The latest full-resolution frame, overwritten in place, for event screenshots
+    '-map', '0:v:0',
+    '-vf', `fps=${SNAPSHOT_FPS}`,
+    '-q:v', '4',
+    '-f', 'image2',
+    '-update', '1',
+    '-y',
+    path.join(detector.workDir, 'latest.jpg')
+  ];
+
+  const ffmpegProcess = spawn('ffmpeg', ffmpegArgs, { shell: false });
+  detector.ffmpegProcess = ffmpegProcess;
+  detector.previousFrame = undefined;
+  detector.movingFrames = 0;
+
+  let pending = Buffer.alloc(0);
+  ffmpegProcess.stdout.on('data', (chunk: Buffer) => {
+    pending = pending.length > 0 ? Buffer.concat([pending, chunk]) : chunk;
+    while (pending.length >= FRAME_SIZE) {
+      analyzeFrame(detector, Buffer.from(pending.subarray(0, FRAME_SIZE)));
+      pending = pending.subarray(FRAME_SIZE);
+    }
+  });
+
+  let stderrTail = '';
+  ffmpegProcess.stderr.on('data', (data: Buffer) => {
+    const text = data.toString();
+    stderrTail = (stderrTail + text).slice(-4096);
+
+    // Remember the source resolution for screenshot metadata. The input stream line may
+    // arrive split across chunks, and the scaled analysis output must not be mistaken for it.
+    if (!detector.resolution) {
+      const completeLines = stderrTail.slice(0, stderrTail.lastIndexOf('\n') + 1);
+      const inputInfo = completeLines.split(/^Output #0/m)[0];
+      const match = inputInfo.match(/Stream #0:\d+.*Video:.*?\b(\d{2,5})x(\d{2,5})\b/);
+      if (match) {
+        detector.resolution = `${match[1]}x${match[2]}`;
+      }
+    }
+  });
+
+  ffmpegProcess.on('error', (err: Error) => {
+    stderrTail += `\nFailed to start FFmpeg: ${err.message}`;
+  });
+
+  ffmpegProcess.on('close', (code: number | null) => {
+    detector.ffmpegProcess = undefined;
+    if (detector.stopping) {
+      fs.promises.rm(detector.workDir, { recursive: true, force: true }).catch(() => {});
+      return;
+    }
+
+    if (code === 0 && isFileSource(detector.sourceUrl)) {
+      console.log(`Motion detector [camera ${detector.cameraId}] reached the end of ${detector.sourceUrl}`);
+      return;
+    }
+
+    detector.lastError = parseFfmpegError(stderrTail) || `FFmpeg exited with code ${code}`;
+    const delay = Math.min(RESTART_BASE_DELAY * 2 ** detector.restartAttempts, RESTART_MAX_DELAY);
+    detector.restartAttempts++;
+    console.log(`Motion detector [camera ${detector.cameraId}] exited: ${detector.lastError}, restarting in ${delay / 1000}s`);
+
+    detector.restartTimeout = setTimeout(() => {
+      detector.restartTimeout = undefined;
+      if (!detector.stopping) {
+        runDetector(detector);
+      }
+    }, delay);
+  });
+}
+
+/**
+ * Stop motion detection for a camera
+ * @param cameraId The camera to stop watching
+ */
+export function stopMotionDetection(cameraId: number): void {
+  const detector = detectors.get(cameraId);
+  if (!detector) {
+    return;
+  }
+
+  detector.stopping = true;
+  detectors.delete(cameraId);
+
+  if (detector.restartTimeout) {
+    clearTimeout(detector.restartTimeout);
+  }
+
+  if (detector.ffmpegProcess) {
+    detector.ffmpegProcess.kill('SIGTERM');
+  } else {
+    fs.promises.rm(detector.workDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
+
+/**
+ * Start motion detection for a camera from a given source, or apply new
+ * zones and sensitivity to a detector already watching that source.
+ * Outside production the source may be a local video file, which is how
+ * the detector can be tested without a camera.
+ * @param camera The camera whose settings to use
+ * @param sourceUrl The RTSP URL or video file to analyse
+ */
+export function startMotionDetector(camera: Camera, sourceUrl: string): void {
+  const existing = detectors.get(camera.id);
+  const sensitivity = camera.settings?.motionSensitivity ?? DEFAULT_MOTION_SENSITIVITY;
+  const zones = camera.settings?.motionZones || [];
+  const viewMode = camera.settings?.viewMode || '360';
+
+  if (existing && existing.sourceUrl === sourceUrl) {
+    existing.sensitivity = sensitivity;
+    existing.zones = zones;
+    existing.regions = buildMotionRegions(zones, ANALYSIS_WIDTH, ANALYSIS_HEIGHT);
+    existing.viewMode = viewMode;
+    return;
+  }
+
+  stopMotionDetection(camera.id);
+
+  const detector: MotionDetector = {
+    cameraId: camera.id,
+    sourceUrl,
+    sensitivity,
+    zones,
+    regions: buildMotionRegions(zones, ANALYSIS_WIDTH, ANALYSIS_HEIGHT),
+    viewMode,
+    workDir: fs.mkdtempSync(path.join(os.tmpdir(), `motion-${camera.id}-`)),
+    restartAttempts: 0,
+    stopping: false,
+    movingFrames: 0,
+    zoneIds: [],
+    lastEventAt: 0
+  };
+  detectors.set(camera.id, detector);
+  runDetector(detector);
+}
+
+/**
+ * Start, reconfigure or stop motion detection to match a camera's settings
+ * @param camera The camera whose settings changed
+ */
+export function syncMotionDetection(camera: Camera): void {
+  if (!isMotionEnabled(camera)) {
+    stopMotionDetection(camera.id);
+    return;
+  }
+
+  startMotionDetector(camera, resolveStreamUrl(camera, 'main'));
+}
+
+/**
+ * Get the live motion state of a camera
+ * @param cameraId The camera to check
+ */
+export function getMotionStatus(cameraId: number): MotionStatus {
+  const detector = detectors.get(cameraId);
+  if (!detector) {
+    return { enabled: false, running: false, motion: false, zoneIds: [] };
+  }
+
+  const motion = !!detector.lastMotionAt && Date.now() - detector.lastMotionAt.getTime() < MOTION_HOLD;
+  return {
+    enabled: true,
+    running: !!detector.ffmpegProcess,
+    motion,
+    zoneIds: motion ? detector.zoneIds : [],
+    lastMotionAt: detector.lastMotionAt,
+    lastError: detector.lastError
+  };
+}
+
+/**
+ * Get the latest full-resolution frame written by a camera's running detector
+ * @param cameraId The camera to read from
+ * @param maxAge Oldest frame to accept, in milliseconds
+ * @returns Absolute path of the JPEG, or undefined if there is no recent frame
+ */
+export function getLatestMotionFrame(cameraId: number, maxAge: number): string | undefined {
+  const detector = detectors.get(cameraId);
+  if (!detector?.ffmpegProcess) {
+    return undefined;
+  }
+
+  const framePath = path.join(detector.workDir, 'latest.jpg');
+  try {
+    return Date.now() - fs.statSync(framePath).mtimeMs <= maxAge ? framePath : undefined;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/**
+ * Start motion detection for every camera that has it enabled.
+ * Called on server startup so detection survives restarts.
+ */
+export async function startMotionDetectors(): Promise<void> {
+  const cameras = await storage.getCameras();
+
+  for (const camera of cameras) {
+    try {
+      syncMotionDetection(camera);
+    } catch (error) {
+      console.error(`Failed to start motion detection for camera ${camera.id}:`, error);
+    }
+  }
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { hostSchema, isRtspEndpoint, networkDiagnosticsRequestSchema, portSchema } from './network-diagnostics';
+
+describe('isRtspEndpoint', () => {
+  it('matches the host and port of a camera URL', () => {
+    expect(isRtspEndpoint('rtsp://192.168.1.10:8554/live', '192.168.1.10', 8554)).toBe(true);
+    expect(isRtspEndpoint('rtsp://Camera.local/live', 'camera.local', 554)).toBe(true);
+    expect(isRtspEndpoint('rtsp://[fe80::1]/live', 'fe80:0:0::1', 554)).toBe(true);
+  });
+
+  it('rejects other hosts and ports', () => {
+    expect(isRtspEndpoint('rtsp://192.168.1.10/live', '192.168.1.11', 554)).toBe(false);
+    expect(isRtspEndpoint('rtsp://192.168.1.10/live', '192.168.1.10', 8554)).toBe(false);
+    expect(isRtspEndpoint('not a url', '192.168.1.10', 554)).toBe(false);
+  });
+});
+
+describe('diagnostics request validation', () => {
+  it('accepts IP addresses and host names', () => {
+    for (const host of ['192.168.1.10', 'fe80::1', 'camera-1.local', 'CAM']) {
+      expect(hostSchema.safeParse(host).success).toBe(true);
+    }
+  });
+
+  it('rejects shell metacharacters and option-like hosts', () => {
+    const hosts = [
+      '192.168.1.10; rm -rf /',
+      '192.168.1.10 && id',
+      '$(id)',
+      '`id`',
+      'camera|nc',
+      'camera > /tmp/out',
+      '-c 1000',
+      '--help',
+      '-oProxyCommand=id',
+      'camera\nlocal',
+      ''
+    ];
+    for (const host of hosts) {
+      expect(hostSchema.safeParse(host).success, host).toBe(false);
+    }
+  });
+
+  it('rejects ports outside 1-65535 and non-numbers', () => {
+    expect(portSchema.safeParse('554').data).toBe(554);
+    for (const port of [0, 65536, '-1', '554; id', 'abc']) {
+      expect(portSchema.safeParse(port).success, String(port)).toBe(false);
+    }
+  });
+
+  it('rejects stream paths and credentials that would break the RTSP request', () => {
+    const base = { cameraIp: '192.168.1.10' };
+    expect(networkDiagnosticsRequestSchema.safeParse({ ...base, rtspPath: 'live/ch00_0' }).success).toBe(true);
+    expect(networkDiagnosticsRequestSchema.safeParse({ ...base, rtspPath: 'live ch0' }).success).toBe(false);
+    expect(networkDiagnosticsRequestSchema.safeParse({ ...base, rtspPath: 'live\r\nX-Injected: 1' }).success).toBe(false);
+    expect(networkDiagnosticsRequestSchema.safeParse({ ...base, username: 'ad"min' }).success).toBe(false);
+    expect(networkDiagnosticsRequestSchema.safeParse({ ...base, password: 'pass\r\n' }).success).toBe(false);
+  });
+});
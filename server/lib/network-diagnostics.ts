@@ -1,9 +1,43 @@
-import { exec } from 'child_process';
-import { promisify } from 'util';
+import { spawn } from 'child_process';
 import * as net from 'net';
+import { z } from 'zod';
 import { getIpAddress } from './network-utils';
+import { probeRtspStream, type RtspProbeResult } from './rtsp-probe';
 
-const execAsync = promisify(exec);
+const PING_TIMEOUT = 10000;
+const TRACEROUTE_TIMEOUT = 30000;
+const INTERNET_CHECK_TIMEOUT = 5000;
+const MAX_COMMAND_OUTPUT = 64 * 1024; // Keep at most this much of a command's output
+
+// A DNS name made of letters, digits and inner hyphens, e.g. "camera-1.local"
+const HOSTNAME_PATTERN = /^(?=.{1,253}$)[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?(?:\.[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?)*\.?$/i;
+
+// Text sent inside RTSP requests; control characters would let it add headers
+const rtspFieldSchema = z.string().max(256).regex(/^[^\x00-\x1f\x7f]*$/, 'Must not contain control characters');
+
+/**
+ * An IPv4 or IPv6 address or a host name. Anything else, including shell
+ * metacharacters, spaces and leading dashes, is rejected.
+ */
+export const hostSchema = z.string().trim().min(1, 'Camera IP is required').refine(
+  (host) => net.isIP(host) !== 0 || HOSTNAME_PATTERN.test(host),
+  'Must be an IP address or host name'
+);
+
+export const portSchema = z.coerce.number().int().min(1).max(65535);
+
+// Body of a diagnostics request
+export const networkDiagnosticsRequestSchema = z.object({
+  cameraIp: hostSchema,
+  rtspPort: portSchema.default(554),
+  cameraId: z.coerce.number().int().positive().optional(),
+  rtspPath: rtspFieldSchema.max(1024).regex(/^\S*$/, 'Must not contain spaces').optional(),
+  username: rtspFieldSchema.regex(/^[^"]*$/, 'Must not contain quotes').optional(),
+  password: rtspFieldSchema.optional(),
+  allowBasic: z.boolean().optional(),
+});
+
+export type NetworkDiagnosticsRequest = z.infer<typeof networkDiagnosticsRequestSchema>;
 
 export interface NetworkDiagnostics {
   status: 'success' | 'partial' | 'failure';
@@ -16,30 +50,79 @@ export interface NetworkDiagnostics {
     isPortOpen: boolean;
     pingResult?: string;
     tracerouteResult?: string;
+    rtsp: RtspProbeResult;
     error?: string;
   };
 }
 
+// Which stream to ask the camera's RTSP server for
+export interface RtspProbeTarget {
+  path?: string;
+  username?: string;
+  password?: string;
+  allowBasic?: boolean; // Whether the credentials may be sent with Basic authentication
+}
+
+interface CommandResult {
+  success: boolean;
+  output: string;
+}
+
 /**
- * Check if a host is reachable via ping
+ * Run a command without a shell, so arguments are never interpreted. The
+ * command is killed after the timeout and its output is capped.
+ * @param command The binary to run
+ * @param args Its arguments
+ * @param timeout Milliseconds before the command is killed
  */
-async function pingHost(host: string): Promise<{success: boolean, output: string}> {
-  try {
-    // Use -c 2 to send just 2 packets for a quick check
-    const { stdout, stderr } = await execAsync(`ping -c 2 -W 2 ${host}`);
-    return { success: true, output: stdout };
-  } catch (error) {
-    return { 
-      success: false, 
-      output: error instanceof Error ? error.message : String(error) 
+function runCommand(command: string, args: string[], timeout: number): Promise<CommandResult> {
+  return new Promise((resolve) => {
+    const child = spawn(command, args, { shell: false, stdio: ['ignore', 'pipe', 'pipe'] });
+    let output = '';
+    let timedOut = false;
+
+    const append = (data: Buffer) => {
+      if (output.length < MAX_COMMAND_OUTPUT) {
+        output = (output + data.toString()).slice(0, MAX_COMMAND_OUTPUT);
+      }
     };
-  }
+    child.stdout.on('data', append);
+    child.stderr.on('data', append);
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill('SIGKILL');
+    }, timeout);
+
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      clearTimeout(timer);
+      resolve({
+        success: false,
+        output: error.code === 'ENOENT' ? `${command} is not installed on the server` : error.message
+      });
+    });
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      resolve({
+        success: code === 0 && !timedOut,
+        output: timedOut ? `${output}\n${command} timed out after ${timeout / 1000} seconds`.trim() : output
+      });
+    });
+  });
+}
+
+/**
+ * Check if a host is reachable via ping
+ */
+function pingHost(host: string): Promise<CommandResult> {
+  // Send just 2 packets for a quick check
+  return runCommand('ping', ['-c', '2', '-W', '2', host], PING_TIMEOUT);
 }
 
 /**
  * Check if a port is open on a host
  */
-async function isPortOpen(host: string, port: number, timeout = 3000): Promise<boolean> {
+export async function isPortOpen(host: string, port: number, timeout = 3000): Promise<boolean> {
   return new Promise((resolve) => {
     const socket = new net.Socket();
     let resolved = false;
@@ -79,22 +162,18 @@ async function isPortOpen(host: string, port: number, timeout = 3000): Promise<b
  * Run a traceroute to see the network path to the camera
  */
 async function traceroute(host: string): Promise<string> {
-  try {
-    // Use -m 10 to limit to 10 hops for quicker results
-    const { stdout } = await execAsync(`traceroute -m 10 -w 2 ${host}`);
-    return stdout;
-  } catch (error) {
-    return error instanceof Error ? error.message : String(error);
-  }
+  // Limit to 10 hops for quicker results
+  const { output } = await runCommand('traceroute', ['-m', '10', '-w', '2', host], TRACEROUTE_TIMEOUT);
+  return output;
 }
 
 /**
- * Check internet connectivity by attempting to resolve a well-known domain
+ * Check internet connectivity by requesting a well-known site
  */
 async function checkInternetConnectivity(): Promise<boolean> {
   try {
-    const { stdout } = await execAsync('curl -s --connect-timeout 5 https://www.google.com');
-    return stdout.length > 0;
+    await fetch('https://www.google.com', { method: 'HEAD', signal: AbortSignal.timeout(INTERNET_CHECK_TIMEOUT) });
+    return true;
   } catch (error) {
     return false;
   }
@@ -102,20 +181,34 @@ async function checkInternetConnectivity(): Promise<boolean> {
 
 /**
  * Run comprehensive network diagnostics
+ * @param cameraIp The camera's address
+ * @param rtspPort The camera's RTSP port
+ * @param rtspTarget Stream path and credentials for the RTSP OPTIONS/DESCRIBE probe
  */
-export async function runNetworkDiagnostics(cameraIp: string, rtspPort = 554): Promise<NetworkDiagnostics> {
+export async function runNetworkDiagnostics(cameraIp: string, rtspPort = 554, rtspTarget: RtspProbeTarget = {}): Promise<NetworkDiagnostics> {
+  // Checked here as well as in the route, since the host ends up in command arguments
+  cameraIp = hostSchema.parse(cameraIp);
+  rtspPort = portSchema.parse(rtspPort);
   const serverIp = getIpAddress();
+  const host = cameraIp.includes(':') ? `[${cameraIp}]` : cameraIp;
+  const path = (rtspTarget.path || '').replace(/^\/+/, '');
   
   // Run tests in parallel for efficiency
-  const [pingResults, portCheck, traceResults, internetCheck] = await Promise.all([
+  const [pingResults, portCheck, traceResults, internetCheck, rtspProbe] = await Promise.all([
     pingHost(cameraIp),
     isPortOpen(cameraIp, rtspPort),
     traceroute(cameraIp),
-    checkInternetConnectivity()
+    checkInternetConnectivity(),
+    probeRtspStream(`rtsp://${host}:${rtspPort}/${path}`, {
+      username: rtspTarget.username,
+      password: rtspTarget.password,
+      allowBasic: rtspTarget.allowBasic
+    })
   ]);
   
+  // A stream that answers DESCRIBE is a success even if the camera ignores ping
   return {
-    status: pingResults.success && portCheck ? 'success' : pingResults.success || portCheck ? 'partial' : 'failure',
+    status: rtspProbe.success ? 'success' : pingResults.success || portCheck ? 'partial' : 'failure',
     server: {
       ipAddress: serverIp,
       isConnectedToInternet: internetCheck
@@ -125,12 +218,31 @@ export async function runNetworkDiagnostics(cameraIp: string, rtspPort = 554): P
       isPortOpen: portCheck,
       pingResult: pingResults.output,
       tracerouteResult: traceResults,
-      error: !pingResults.success ? 'Camera IP is not reachable' : 
-             !portCheck ? 'RTSP port is closed or blocked' : undefined
+      rtsp: rtspProbe,
+      error: rtspProbe.success ? undefined :
+             !pingResults.success && !portCheck ? 'Camera IP is not reachable' : 
+             !portCheck ? 'RTSP port is closed or blocked' : rtspProbe.error
     }
   };
 }
 
+/**
+ * Whether a host and port are the ones a camera's RTSP URL points at
+ * @param rtspUrl The camera's stored URL
+ * @param host An address from a diagnostics request
+ * @param port An RTSP port from a diagnostics request
+ */
+export function isRtspEndpoint(rtspUrl: string, host: string, port: number): boolean {
+  try {
+    const camera = new URL(rtspUrl);
+    const target = new URL(`rtsp://${host.includes(':') ? `[${host}]` : host}/`);
+    const cameraPort = camera.port ? parseInt(camera.port, 10) : camera.protocol === 'rtsps:' ? 322 : 554;
+    return camera.hostname.toLowerCase() === target.hostname.toLowerCase() && cameraPort === port;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Extract network from IP address (e.g., 192.168.1.x)
  */
@@ -168,8 +280,8 @@ export function getConnectionSuggestions(diagnostics: NetworkDiagnostics, camera
     );
   }
   
-  // Camera reachability
-  if (!diagnostics.camera.isReachable) {
+  // Camera reachability; cameras that answer RTSP may just ignore ping
+  if (!diagnostics.camera.isReachable && !diagnostics.camera.rtsp.success) {
     suggestions.push(
       'Cannot reach your camera. Verify it is powered on and connected to the network.'
     );
@@ -182,10 +294,52 @@ export function getConnectionSuggestions(diagnostics: NetworkDiagnostics, camera
     );
   }
   
+  // RTSP answers, once the port is open
+  if (diagnostics.camera.isPortOpen) {
+    switch (diagnostics.camera.rtsp.failureReason) {
+      case 'not_rtsp':
+        suggestions.push(
+          'Something is listening on the RTSP port but it does not speak RTSP. Check the port number in the camera settings.'
+        );
+        break;
+      case 'auth_required':
+        suggestions.push(
+          'The camera requires a username and password. Enter the credentials configured on the camera.'
+        );
+        break;
+      case 'auth_failed':
+        suggestions.push(
+          'The camera rejected the username or password. Check the credentials, and whether the account may use RTSP.'
+        );
+        break;
+      case 'unsupported_auth':
+        suggestions.push(
+          'The camera uses an authentication method other than Basic or Digest. Check its RTSP authentication settings.'
+        );
+        break;
+      case 'not_found':
+        suggestions.push(
+          'The camera answers RTSP but has no stream at this path. Check the stream path in the camera manual (e.g. /stream1 or /h264).'
+        );
+        break;
+      case 'forbidden':
+        suggestions.push(
+          'The camera refused access to this stream. Check that the account has permission to view live video.'
+        );
+        break;
+      case 'timeout':
+      case 'connection_closed':
+        suggestions.push(
+          'The RTSP port accepts connections but the camera did not answer. It may be overloaded or limit the number of clients.'
+        );
+        break;
+    }
+  }
+  
   // If all checks failed
   if (suggestions.length === 0 && diagnostics.status !== 'success') {
     suggestions.push(
-      'All basic checks passed but connection still fails. Your camera may require specific authentication or have non-standard RTSP paths.'
+      'All basic checks passed but connection still fails. Check the RTSP details below for the camera\'s answer.'
     );
   }
   
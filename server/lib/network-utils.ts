@@ -28,14 +28,4 @@ export function getIpAddress(): string {
   
   // Use the first found IP, or localhost
   return results[0] || 'localhost';
-}
-
-/**
- * Format a WebSocket URL using the application's IP address
- * @param port The port to connect to
- * @returns The WebSocket URL
- */
-export function formatWsUrl(port: number): string {
-  const ipAddress = getIpAddress();
-  return `ws://${ipAddress}:${port}`;
 }
\ No newline at end of file
@@ -0,0 +1,320 @@
+import { createHash, randomBytes } from 'crypto';
+import type { OnvifDeviceDetails, OnvifProfile } from '@shared/schema';
+import { splitRtspCredentials } from './camera-credentials';
+
+const ONVIF_REQUEST_TIMEOUT = 5000;
+const CLOCK_OFFSET_TTL = 5 * 60 * 1000; // Check a camera's clock again after 5 minutes, e.g. after an NTP sync
+
+const DEVICE_NAMESPACE = 'http://www.onvif.org/ver10/device/wsdl';
+const MEDIA_NAMESPACE = 'http://www.onvif.org/ver10/media/wsdl';
+const SCHEMA_NAMESPACE = 'http://www.onvif.org/ver10/schema';
+const WSSE_NAMESPACE = 'http://docs.oasis-open.org/wss/2004/01/oasis-200401-wss-wssecurity-secext-1.0.xsd';
+const WSU_NAMESPACE = 'http://docs.oasis-open.org/wss/2004/01/oasis-200401-wss-wssecurity-utility-1.0.xsd';
+const PASSWORD_DIGEST_TYPE = 'http://docs.oasis-open.org/wss/2004/01/oasis-200401-wss-username-token-profile-1.0#PasswordDigest';
+const NONCE_ENCODING_TYPE = 'http://docs.oasis-open.org/wss/2004/01/oasis-200401-wss-soap-message-security-1.0#Base64Binary';
+
+export interface OnvifCredentials {
+  username?: string;
+  password?: string;
+}
+
+export interface OnvifSession extends OnvifCredentials {
+  clockOffset: number; // Camera clock minus server clock, in milliseconds
+}
+
+// Clock offsets by device service address, so repeated commands (e.g. PTZ moves) skip the time check
+const clockOffsets = new Map<string, { offset: number; checkedAt: number }>();
+
+/**
+ * Escape text for use inside an XML element or attribute
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Turn XML entities in element text back into characters
+ */
+export function decodeXmlText(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code, 10)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Get the text of the first element with a local name, whatever its namespace prefix
+ * @param xml The XML to search
+ * @param localName The element name without a prefix, e.g. "XAddrs"
+ * @returns The element's raw content, or undefined if there is no such element
+ */
+export function getElementText(xml: string, localName: string): string | undefined {
+  const match = xml.match(new RegExp(`<(?:[\\w-]+:)?${localName}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w-]+:)?${localName}>`));
+  return match ? match[1].trim() : undefined;
+}
+
+/**
+ * Get the decoded text of the first element with a local name
+ */
+export function getElementValue(xml: string, localName: string): string | undefined {
+  const text = getElementText(xml, localName);
+  return text ? decodeXmlText(text) : undefined;
+}
+
+function getElementNumber(xml: string, localName: string): number | undefined {
+  const value = parseFloat(getElementText(xml, localName) || '');
+  return isNaN(value) ? undefined : value;
+}
+
+/**
+ * Build the WS-Security header ONVIF uses for authentication: a UsernameToken
+ * whose password is SHA1(nonce + created + password), so it never travels in clear
+ */
+function buildSecurityHeader(session: OnvifSession): string {
+  if (!session.username) {
+    return '';
+  }
+
+  const nonce = randomBytes(16);
+  const created = new Date(Date.now() + session.clockOffset).toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const digest = createHash('sha1')
+    .update(Buffer.concat([nonce, Buffer.from(created), Buffer.from(session.password || '')]))
+    .digest('base64');
+
+  return [
+    `<wsse:Security s:mustUnderstand="1" xmlns:wsse="${WSSE_NAMESPACE}" xmlns:wsu="${WSU_NAMESPACE}">`,
+    '<wsse:UsernameToken>',
+    `<wsse:Username>${escapeXml(session.username)}</wsse:Username>`,
+    `<wsse:Password Type="${PASSWORD_DIGEST_TYPE}">${digest}</wsse:Password>`,
+    `<wsse:Nonce EncodingType="${NONCE_ENCODING_TYPE}">${nonce.toString('base64')}</wsse:Nonce>`,
+    `<wsu:Created>${created}</wsu:Created>`,
+    '</wsse:UsernameToken>',
+    '</wsse:Security>'
+  ].join('');
+}
+
+/**
+ * Send a SOAP 1.2 request to an ONVIF service
+ * @param serviceUrl The service address
+ * @param body The request element
+ * @param session Credentials and clock offset; omitted for unauthenticated calls
+ * @returns The response envelope
+ */
+export async function sendOnvifRequest(serviceUrl: string, body: string, session?: OnvifSession): Promise<string> {
+  const envelope = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<s:Envelope xmlns:s="http://www.w3.org/2003/05/soap-envelope">',
+    `<s:Header>${session ? buildSecurityHeader(session) : ''}</s:Header>`,
+    `<s:Body>${body}</s:Body>`,
+    '</s:Envelope>'
+  ].join('');
+
+  let response: Response;
+  try {
+    response = await fetch(serviceUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/soap+xml; charset=utf-8' },
+      body: envelope,
+      signal: AbortSignal.timeout(ONVIF_REQUEST_TIMEOUT)
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === 'TimeoutError') {
+      throw new Error(`The camera did not answer ONVIF requests at ${serviceUrl}`);
+    }
+    // fetch hides the network error (e.g. ECONNREFUSED) in its cause
+    const cause = error instanceof Error && error.cause instanceof Error ? error.cause : error;
+    throw new Error(`Could not connect to ONVIF service at ${serviceUrl}: ${cause instanceof Error ? cause.message : String(cause)}`);
+  }
+
+  const xml = await response.text();
+  const fault = getElementText(xml, 'Fault');
+  if (fault) {
+    const reason = getElementValue(fault, 'Text') || getElementValue(fault, 'Value') || 'Unknown error';
+    if (/not ?authori[sz]ed|authentication|password/i.test(fault)) {
+      throw new Error(`The camera rejected the ONVIF username or password (${reason})`);
+    }
+    throw new Error(`ONVIF request failed: ${reason}`);
+  }
+  if (response.status === 401) {
+    throw new Error('The camera rejected the ONVIF username or password');
+  }
+  if (!response.ok) {
+    throw new Error(`ONVIF request failed with HTTP ${response.status}`);
+  }
+
+  return xml;
+}
+
+/**
+ * Work out how far the camera's clock is from ours. Cameras reject
+ * UsernameTokens whose creation time is too far from their own clock.
+ */
+async function getClockOffset(deviceUrl: string): Promise<number> {
+  try {
+    const xml = await sendOnvifRequest(deviceUrl, `<tds:GetSystemDateAndTime xmlns:tds="${DEVICE_NAMESPACE}"/>`);
+    const utc = getElementText(xml, 'UTCDateTime');
+    if (!utc) return 0;
+
+    const date = getElementText(utc, 'Date') || '';
+    const time = getElementText(utc, 'Time') || '';
+    const cameraTime = Date.UTC(
+      getElementNumber(date, 'Year') ?? 1970,
+      (getElementNumber(date, 'Month') ?? 1) - 1,
+      getElementNumber(date, 'Day') ?? 1,
+      getElementNumber(time, 'Hour') ?? 0,
+      getElementNumber(time, 'Minute') ?? 0,
+      getElementNumber(time, 'Second') ?? 0
+    );
+    return cameraTime - Date.now();
+  } catch {
+    // Not every camera answers this; assume its clock is right
+    return 0;
+  }
+}
+
+/**
+ * Set up authentication for requests to a camera
+ * @param deviceUrl The device service address, used to check the camera's clock
+ * @param credentials ONVIF username and password
+ * @param refresh Check the camera's clock again even if the last offset has not expired
+ */
+export async function createOnvifSession(deviceUrl: string, credentials: OnvifCredentials = {}, refresh = false): Promise<OnvifSession> {
+  const cached = clockOffsets.get(deviceUrl);
+  if (cached && !refresh && Date.now() - cached.checkedAt < CLOCK_OFFSET_TTL) {
+    return { ...credentials, clockOffset: cached.offset };
+  }
+
+  const clockOffset = await getClockOffset(deviceUrl);
+  clockOffsets.set(deviceUrl, { offset: clockOffset, checkedAt: Date.now() });
+  return { ...credentials, clockOffset };
+}
+
+/**
+ * Read the media profiles from a GetProfiles answer
+ * @param xml The response envelope
+ */
+export function parseProfiles(xml: string): OnvifProfile[] {
+  const profiles: OnvifProfile[] = [];
+  const profilePattern = /<(?:[\w-]+:)?Profiles(\s[^>]*)?>([\s\S]*?)<\/(?:[\w-]+:)?Profiles>/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = profilePattern.exec(xml)) !== null) {
+    const token = (match[1] || '').match(/\btoken="([^"]*)"/);
+    if (!token) continue;
+
+    const body = match[2];
+    const encoder = getElementText(body, 'VideoEncoderConfiguration') || '';
+    const resolution = getElementText(encoder, 'Resolution') || '';
+    profiles.push({
+      token: decodeXmlText(token[1]),
+      name: getElementValue(body, 'Name') || decodeXmlText(token[1]),
+      encoding: getElementValue(encoder, 'Encoding'),
+      width: getElementNumber(resolution, 'Width'),
+      height: getElementNumber(resolution, 'Height'),
+      frameRate: getElementNumber(encoder, 'FrameRateLimit'),
+      bitrate: getElementNumber(encoder, 'BitrateLimit')
+    });
+  }
+
+  return profiles;
+}
+
+/**
+ * Ask a camera for its RTSP address of a profile
+ */
+async function getStreamUri(mediaUrl: string, profileToken: string, session: OnvifSession): Promise<string | undefined> {
+  const xml = await sendOnvifRequest(mediaUrl, [
+    `<trt:GetStreamUri xmlns:trt="${MEDIA_NAMESPACE}" xmlns:tt="${SCHEMA_NAMESPACE}">`,
+    '<trt:StreamSetup>',
+    '<tt:Stream>RTP-Unicast</tt:Stream>',
+    '<tt:Transport><tt:Protocol>RTSP</tt:Protocol></tt:Transport>',
+    '</trt:StreamSetup>',
+    `<trt:ProfileToken>${escapeXml(profileToken)}</trt:ProfileToken>`,
+    '</trt:GetStreamUri>'
+  ].join(''), session);
+
+  const uri = getElementValue(xml, 'Uri');
+  // Stored without credentials; the camera's own are added when streaming
+  return uri ? splitRtspCredentials(uri).url : undefined;
+}
+
+/**
+ * Pick the profiles to stream in high and low quality: the largest and the smallest picture
+ */
+export function pickStreamProfiles(profiles: OnvifProfile[]): Pick<OnvifDeviceDetails, 'mainProfileToken' | 'subProfileToken'> {
+  const streamable = profiles
+    .filter((profile) => profile.streamUri)
+    .sort((a, b) => (b.width ?? 0) * (b.height ?? 0) - (a.width ?? 0) * (a.height ?? 0));
+
+  if (streamable.length === 0) {
+    return {};
+  }
+  return {
+    mainProfileToken: streamable[0].token,
+    subProfileToken: streamable.length > 1 ? streamable[streamable.length - 1].token : undefined
+  };
+}
+
+/**
+ * Query an ONVIF camera for its device information, media profiles and
+ * the RTSP address of each profile
+ * @param deviceUrl The device service address
+ * @param credentials ONVIF username and password, usually the camera's admin account
+ * @returns The device details, with the largest profile as main stream and the smallest as sub stream
+ */
+export async function queryOnvifDevice(deviceUrl: string, credentials: OnvifCredentials = {}): Promise<OnvifDeviceDetails> {
+  const session = await createOnvifSession(deviceUrl, credentials, true);
+
+  const infoXml = await sendOnvifRequest(deviceUrl, `<tds:GetDeviceInformation xmlns:tds="${DEVICE_NAMESPACE}"/>`, session);
+
+  // The media service usually lives at its own address; a PTZ service only exists on PTZ cameras
+  let mediaUrl = deviceUrl;
+  let ptzUrl: string | undefined;
+  try {
+    const capabilitiesXml = await sendOnvifRequest(
+      deviceUrl,
+      `<tds:GetCapabilities xmlns:tds="${DEVICE_NAMESPACE}"><tds:Category>All</tds:Category></tds:GetCapabilities>`,
+      session
+    );
+    const media = getElementText(capabilitiesXml, 'Media');
+    const ptz = getElementText(capabilitiesXml, 'PTZ');
+    mediaUrl = (media && getElementValue(media, 'XAddr')) || deviceUrl;
+    ptzUrl = ptz ? getElementValue(ptz, 'XAddr') : undefined;
+  } catch (error) {
+    console.error('ONVIF GetCapabilities failed, using the device service for media:', error);
+  }
+
+  const profilesXml = await sendOnvifRequest(mediaUrl, `<trt:GetProfiles xmlns:trt="${MEDIA_NAMESPACE}"/>`, session);
+  const profiles = parseProfiles(profilesXml);
+
+  for (const profile of profiles) {
+    try {
+      profile.streamUri = await getStreamUri(mediaUrl, profile.token, session);
+    } catch (error) {
+      // Some profiles (e.g. metadata only) have no stream
+      console.error(`ONVIF GetStreamUri failed for profile ${profile.token}:`, error);
+    }
+  }
+
+  return {
+    deviceUrl,
+    manufacturer: getElementValue(infoXml, 'Manufacturer'),
+    model: getElementValue(infoXml, 'Model'),
+    firmwareVersion: getElementValue(infoXml, 'FirmwareVersion'),
+    serialNumber: getElementValue(infoXml, 'SerialNumber'),
+    hardwareId: getElementValue(infoXml, 'HardwareId'),
+    ptzUrl,
+    profiles,
+    ...pickStreamProfiles(profiles),
+    updatedAt: new Date().toISOString()
+  };
+}
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import http from 'http';
+import net from 'net';
+import { getElementText, getElementValue } from './onvif-client';
+import { continuousMove, getPresets, gotoPreset, setPreset, stopMove, type PtzTarget } from './onvif-ptz';
+
+interface PtzRequest {
+  path: string;
+  action: string;
+  body: string; // The request element
+  username?: string;
+}
+
+function soapEnvelope(body: string): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<SOAP-ENV:Envelope xmlns:SOAP-ENV="http://www.w3.org/2003/05/soap-envelope"',
+    ' xmlns:tds="http://www.onvif.org/ver10/device/wsdl" xmlns:tptz="http://www.onvif.org/ver20/ptz/wsdl"',
+    ' xmlns:tt="http://www.onvif.org/ver10/schema">',
+    `<SOAP-ENV:Body>${body}</SOAP-ENV:Body>`,
+    '</SOAP-ENV:Envelope>'
+  ].join('');
+}
+
+/**
+ * Answer PTZ requests like a camera with two saved presets
+ */
+function answer(action: string, body: string): string {
+  switch (action) {
+    case 'GetSystemDateAndTime': {
+      const now = new Date();
+      return [
+        '<tds:GetSystemDateAndTimeResponse><tds:SystemDateAndTime><tt:UTCDateTime>',
+        `<tt:Time><tt:Hour>${now.getUTCHours()}</tt:Hour><tt:Minute>${now.getUTCMinutes()}</tt:Minute><tt:Second>${now.getUTCSeconds()}</tt:Second></tt:Time>`,
+        `<tt:Date><tt:Year>${now.getUTCFullYear()}</tt:Year><tt:Month>${now.getUTCMonth() + 1}</tt:Month><tt:Day>${now.getUTCDate()}</tt:Day></tt:Date>`,
+        '</tt:UTCDateTime></tds:SystemDateAndTime></tds:GetSystemDateAndTimeResponse>'
+      ].join('');
+    }
+    case 'ContinuousMove':
+    case 'Stop':
+    case 'GotoPreset':
+      return `<tptz:${action}Response/>`;
+    case 'GetPresets':
+      return [
+        '<tptz:GetPresetsResponse>',
+        '<tptz:Preset token="1"><tt:Name>Front &amp; Gate</tt:Name></tptz:Preset>',
+        '<tptz:Preset token="2"/>',
+        '</tptz:GetPresetsResponse>'
+      ].join('');
+    case 'SetPreset':
+      return `<tptz:SetPresetResponse><tptz:PresetToken>${getElementValue(body, 'PresetToken') || '3'}</tptz:PresetToken></tptz:SetPresetResponse>`;
+    default:
+      return '<SOAP-ENV:Fault><SOAP-ENV:Reason><SOAP-ENV:Text>Action not supported</SOAP-ENV:Text></SOAP-ENV:Reason></SOAP-ENV:Fault>';
+  }
+}
+
+describe('PTZ commands', () => {
+  let server: http.Server;
+  let target: PtzTarget;
+  const requests: PtzRequest[] = [];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let envelope = '';
+      req.on('data', (chunk) => { envelope += chunk; });
+      req.on('end', () => {
+        const body = getElementText(envelope, 'Body') || '';
+        const action = body.match(/^<(?:[\w-]+:)?(\w+)/)?.[1] || '';
+        requests.push({ path: req.url || '', action, body, username: getElementValue(envelope, 'Username') });
+
+        const response = answer(action, body);
+        res.writeHead(response.includes('Fault>') ? 400 : 200, { 'Content-Type': 'application/soap+xml; charset=utf-8' });
+        res.end(soapEnvelope(response));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+    const baseUrl = `http://127.0.0.1:${(server.address() as net.AddressInfo).port}`;
+    target = {
+      deviceUrl: `${baseUrl}/onvif/device_service`,
+      ptzUrl: `${baseUrl}/onvif/ptz_service`,
+      profileToken: 'main',
+      credentials: { username: 'admin', password: 'secret' }
+    };
+  });
+
+  afterAll(async () => {
+    vi.restoreAllMocks();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const lastRequest = () => requests[requests.length - 1];
+
+  it('moves only the axes asked for and stops', async () => {
+    await continuousMove(target, { pan: 0.5, tilt: -0.25 });
+
+    expect(lastRequest()).toMatchObject({ path: '/onvif/ptz_service', action: 'ContinuousMove', username: 'admin' });
+    expect(getElementValue(lastRequest().body, 'ProfileToken')).toBe('main');
+    expect(lastRequest().body).toContain('<tt:PanTilt x="0.5" y="-0.25"/>');
+    expect(lastRequest().body).not.toContain('Zoom');
+    expect(getElementValue(lastRequest().body, 'Timeout')).toBe('PT5S');
+
+    await continuousMove(target, { zoom: 1 }, 2);
+    expect(lastRequest().body).toContain('<tt:Zoom x="1"/>');
+    expect(lastRequest().body).not.toContain('PanTilt');
+    expect(getElementValue(lastRequest().body, 'Timeout')).toBe('PT2S');
+
+    await stopMove(target);
+    expect(lastRequest().action).toBe('Stop');
+    expect(getElementValue(lastRequest().body, 'PanTilt')).toBe('true');
+    expect(getElementValue(lastRequest().body, 'Zoom')).toBe('true');
+  });
+
+  it('lists, saves and goes to presets', async () => {
+    expect(await getPresets(target)).toEqual([
+      { token: '1', name: 'Front & Gate' },
+      { token: '2', name: 'Preset 2' }
+    ]);
+
+    expect(await setPreset(target, 'Driveway <north>')).toBe('3');
+    expect(getElementText(lastRequest().body, 'PresetName')).toBe('Driveway &lt;north&gt;');
+    expect(getElementValue(lastRequest().body, 'PresetToken')).toBeUndefined();
+
+    expect(await setPreset(target, 'Gate', '1')).toBe('1');
+    expect(getElementValue(lastRequest().body, 'PresetToken')).toBe('1');
+
+    await gotoPreset(target, '2');
+    expect(lastRequest().action).toBe('GotoPreset');
+    expect(getElementValue(lastRequest().body, 'PresetToken')).toBe('2');
+  });
+
+  it('checks the camera clock once and again after the cached offset expires', async () => {
+    const clockChecks = () => requests.filter((request) => request.action === 'GetSystemDateAndTime').length;
+    expect(clockChecks()).toBe(1);
+
+    const now = Date.now();
+    vi.spyOn(Date, 'now').mockReturnValue(now + 6 * 60 * 1000);
+    await stopMove(target);
+
+    expect(clockChecks()).toBe(2);
+    expect(requests[requests.length - 2]).toMatchObject({ path: '/onvif/device_service', action: 'GetSystemDateAndTime' });
+  });
+});
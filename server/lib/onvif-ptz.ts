@@ -0,0 +1,134 @@
+import {
+  createOnvifSession,
+  decodeXmlText,
+  escapeXml,
+  getElementValue,
+  sendOnvifRequest,
+  type OnvifCredentials
+} from './onvif-client';
+
+const PTZ_NAMESPACE = 'http://www.onvif.org/ver20/ptz/wsdl';
+const SCHEMA_NAMESPACE = 'http://www.onvif.org/ver10/schema';
+
+// A continuous move stops by itself after this long if the stop never arrives,
+// e.g. because the browser closed mid-move
+export const DEFAULT_MOVE_TIMEOUT = 5;
+
+// Where to send PTZ commands for a camera
+export interface PtzTarget {
+  deviceUrl: string; // Device service, used for the camera's clock
+  ptzUrl: string;
+  profileToken: string;
+  credentials: OnvifCredentials;
+}
+
+// Speeds from -1 to 1: pan left/right, tilt down/up, zoom out/in
+export interface PtzVelocity {
+  pan?: number;
+  tilt?: number;
+  zoom?: number;
+}
+
+export interface PtzPreset {
+  token: string;
+  name: string;
+}
+
+/**
+ * Send a PTZ service request
+ * @param target The camera's PTZ service and profile
+ * @param operation The element name, e.g. "ContinuousMove"
+ * @param content The request's child elements, after the profile token
+ */
+async function sendPtzRequest(target: PtzTarget, operation: string, content = ''): Promise<string> {
+  const session = await createOnvifSession(target.deviceUrl, target.credentials);
+  return sendOnvifRequest(target.ptzUrl, [
+    `<tptz:${operation} xmlns:tptz="${PTZ_NAMESPACE}" xmlns:tt="${SCHEMA_NAMESPACE}">`,
+    `<tptz:ProfileToken>${escapeXml(target.profileToken)}</tptz:ProfileToken>`,
+    content,
+    `</tptz:${operation}>`
+  ].join(''), session);
+}
+
+/**
+ * Start moving the camera until stopped or the timeout passes
+ * @param target The camera's PTZ service and profile
+ * @param velocity Pan, tilt and zoom speeds; axes left out do not move
+ * @param timeout Seconds after which the camera stops by itself
+ */
+export async function continuousMove(target: PtzTarget, velocity: PtzVelocity, timeout = DEFAULT_MOVE_TIMEOUT): Promise<void> {
+  // Fixed-lens cameras reject zoom velocities, so only send the axes that move
+  const panTilt = velocity.pan || velocity.tilt
+    ? `<tt:PanTilt x="${velocity.pan ?? 0}" y="${velocity.tilt ?? 0}"/>`
+    : '';
+  const zoom = velocity.zoom ? `<tt:Zoom x="${velocity.zoom}"/>` : '';
+
+  await sendPtzRequest(target, 'ContinuousMove', [
+    `<tptz:Velocity>${panTilt}${zoom}</tptz:Velocity>`,
+    `<tptz:Timeout>PT${timeout}S</tptz:Timeout>`
+  ].join(''));
+}
+
+/**
+ * Stop any pan, tilt and zoom movement
+ */
+export async function stopMove(target: PtzTarget): Promise<void> {
+  await sendPtzRequest(target, 'Stop', '<tptz:PanTilt>true</tptz:PanTilt><tptz:Zoom>true</tptz:Zoom>');
+}
+
+/**
+ * Read the presets from a GetPresets answer
+ * @param xml The response envelope
+ */
+export function parsePresets(xml: string): PtzPreset[] {
+  const presets: PtzPreset[] = [];
+  const presetPattern = /<(?:[\w-]+:)?Preset(\s[^>]*)?(?:\/>|>([\s\S]*?)<\/(?:[\w-]+:)?Preset>)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = presetPattern.exec(xml)) !== null) {
+    const token = (match[1] || '').match(/\btoken="([^"]*)"/);
+    if (!token) continue;
+
+    const presetToken = decodeXmlText(token[1]);
+    presets.push({
+      token: presetToken,
+      name: getElementValue(match[2] || '', 'Name') || `Preset ${presetToken}`
+    });
+  }
+
+  return presets;
+}
+
+/**
+ * List the positions saved on the camera
+ */
+export async function getPresets(target: PtzTarget): Promise<PtzPreset[]> {
+  return parsePresets(await sendPtzRequest(target, 'GetPresets'));
+}
+
+/**
+ * Save the camera's current position as a preset
+ * @param target The camera's PTZ service and profile
+ * @param name Name to show for the preset
+ * @param presetToken Existing preset to overwrite; a new one is created if left out
+ * @returns The token of the saved preset
+ */
+export async function setPreset(target: PtzTarget, name: string, presetToken?: string): Promise<string> {
+  const xml = await sendPtzRequest(target, 'SetPreset', [
+    `<tptz:PresetName>${escapeXml(name)}</tptz:PresetName>`,
+    presetToken ? `<tptz:PresetToken>${escapeXml(presetToken)}</tptz:PresetToken>` : ''
+  ].join(''));
+
+  const savedToken = getElementValue(xml, 'PresetToken') || presetToken;
+  if (!savedToken) {
+    throw new Error('The camera did not return a token for the saved preset');
+  }
+  return savedToken;
+}
+
+/**
+ * Move the camera to a saved preset
+ */
+export async function gotoPreset(target: PtzTarget, presetToken: string): Promise<void> {
+  await sendPtzRequest(target, 'GotoPreset', `<tptz:PresetToken>${escapeXml(presetToken)}</tptz:PresetToken>`);
+}
@@ -0,0 +1,644 @@
+import net from 'net';
+import tls from 'tls';
+import { createHash, randomBytes } from 'crypto';
+
+const DEFAULT_PROBE_TIMEOUT = 5000;
+const MAX_RESPONSE_SIZE = 64 * 1024; // Largest answer read from a camera, SDP included
+const USER_AGENT = 'RTSP-Camera-Viewer probe';
+
+// Why a probe failed, from the network up to the RTSP answer
+export type RtspProbeFailure =
+  | 'invalid_url'
+  | 'host_unreachable'
+  | 'connection_refused'
+  | 'timeout'
+  | 'connection_closed'
+  | 'not_rtsp'
+  | 'auth_required'
+  | 'auth_failed'
+  | 'unsupported_auth'
+  | 'basic_not_allowed'
+  | 'forbidden'
+  | 'not_found'
+  | 'unexpected_status'
+  | 'response_too_large';
+
+export interface RtspTrack {
+  type: string; // video, audio or application
+  codec?: string;
+  payloadType?: number;
+  clockRate?: number;
+  channels?: number;
+  control?: string;
+  width?: number;
+  height?: number;
+  frameRate?: number;
+}
+
+export interface RtspProbeResult {
+  success: boolean;
+  url: string; // Without credentials
+  failureReason?: RtspProbeFailure;
+  error?: string;
+  statusCode?: number;
+  statusText?: string;
+  server?: string;
+  authMethod?: 'none' | 'basic' | 'digest';
+  methods?: string[]; // Methods the server lists in its OPTIONS answer
+  sessionName?: string;
+  tracks?: RtspTrack[];
+  responseTime?: number; // Milliseconds until the DESCRIBE answer
+}
+
+export interface RtspProbeOptions {
+  username?: string;
+  password?: string;
+  // Answer Basic challenges, which send the password unencrypted to whoever asks.
+  // Off by default, so saved credentials are only given out with Digest.
+  allowBasic?: boolean;
+  timeout?: number; // Per connection attempt and request, in milliseconds
+}
+
+interface RtspResponse {
+  statusCode: number;
+  statusText: string;
+  headers: Map<string, string[]>; // Lower-cased names; a header may repeat
+  body: string;
+}
+
+interface RtspConnection {
+  request: (method: string, url: string, headers: Record<string, string>) => Promise<RtspResponse>;
+  isOpen: () => boolean;
+  close: () => void;
+}
+
+interface AuthChallenge {
+  scheme: 'basic' | 'digest';
+  params: Record<string, string>;
+}
+
+type ProbeError = Error & { reason: RtspProbeFailure };
+
+// Encodings that RTP assigns to fixed payload types, used when the SDP has no rtpmap
+const STATIC_PAYLOAD_TYPES: Record<number, { codec: string; clockRate: number; channels?: number }> = {
+  0: { codec: 'PCMU', clockRate: 8000, channels: 1 },
+  8: { codec: 'PCMA', clockRate: 8000, channels: 1 },
+  14: { codec: 'MPA', clockRate: 90000 },
+  26: { codec: 'JPEG', clockRate: 90000 },
+  32: { codec: 'MPV', clockRate: 90000 },
+  33: { codec: 'MP2T', clockRate: 90000 },
+};
+
+// H.264 profiles whose SPS carries chroma format and bit depth fields
+const H264_HIGH_PROFILES = new Set([100, 110, 122, 244, 44, 83, 86, 118, 128, 138, 139, 134, 135]);
+
+function probeError(reason: RtspProbeFailure, message: string): ProbeError {
+  return Object.assign(new Error(message), { reason });
+}
+
+/**
+ * Translate a socket error into a probe failure
+ */
+function toConnectionError(error: NodeJS.ErrnoException, host: string, port: number): ProbeError {
+  switch (error.code) {
+    case 'ECONNREFUSED':
+      return probeError('connection_refused', `Connection to ${host}:${port} was refused`);
+    case 'ENOTFOUND':
+    case 'EAI_AGAIN':
+      return probeError('host_unreachable', `Could not resolve host ${host}`);
+    case 'EHOSTUNREACH':
+    case 'ENETUNREACH':
+    case 'EHOSTDOWN':
+      return probeError('host_unreachable', `Host ${host} is unreachable`);
+    case 'ECONNRESET':
+      return probeError('connection_closed', 'The camera closed the connection');
+    default:
+      return probeError('connection_closed', error.message);
+  }
+}
+
+/**
+ * Read one RTSP response from the start of a buffer
+ * @returns The response and the number of bytes it used, or null if more data is needed
+ */
+function parseResponse(buffer: Buffer): { response: RtspResponse; length: number } | null {
+  const headerEnd = buffer.indexOf('\r\n\r\n');
+  if (headerEnd === -1) {
+    return null;
+  }
+
+  const [statusLine, ...headerLines] = buffer.toString('utf8', 0, headerEnd).split('\r\n');
+  const status = statusLine.match(/^RTSP\/\d\.\d\s+(\d{3})\s*(.*)$/);
+  if (!status) {
+    throw probeError('not_rtsp', `The server did not answer with RTSP: "${statusLine.slice(0, 80)}"`);
+  }
+
+  const headers = new Map<string, string[]>();
+  for (const line of headerLines) {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      const name = line.slice(0, separator).trim().toLowerCase();
+      headers.set(name, [...(headers.get(name) || []), line.slice(separator + 1).trim()]);
+    }
+  }
+
+  const contentLength = parseInt(headers.get('content-length')?.[0] || '0', 10) || 0;
+  const bodyStart = headerEnd + 4;
+  if (buffer.length < bodyStart + contentLength) {
+    return null;
+  }
+
+  return {
+    response: {
+      statusCode: parseInt(status[1], 10),
+      statusText: status[2],
+      headers,
+      body: buffer.toString('utf8', bodyStart, bodyStart + contentLength)
+    },
+    length: bodyStart + contentLength
+  };
+}
+
+/**
+ * Open a connection that sends RTSP requests one at a time
+ */
+function openConnection(host: string, port: number, secure: boolean, timeout: number): Promise<RtspConnection> {
+  return new Promise((resolve, reject) => {
+    const socket: net.Socket = secure
+      ? tls.connect({ host, port, servername: net.isIP(host) ? undefined : host, rejectUnauthorized: false })
+      : net.connect({ host, port });
+
+    let buffer = Buffer.alloc(0);
+    let cseq = 0;
+    let open = false;
+    let pending: { resolve: (response: RtspResponse) => void; reject: (error: Error) => void } | null = null;
+
+    const fail = (error: ProbeError) => {
+      open = false;
+      socket.destroy();
+      if (pending) {
+        pending.reject(error);
+        pending = null;
+      } else {
+        reject(error);
+      }
+    };
+
+    socket.setTimeout(timeout);
+    socket.on('timeout', () => {
+      fail(probeError('timeout', pending ? 'Timed out waiting for an RTSP answer' : `Timed out connecting to ${host}:${port}`));
+    });
+    socket.on('error', (error: NodeJS.ErrnoException) => fail(toConnectionError(error, host, port)));
+    socket.on('close', () => {
+      open = false;
+      if (pending) {
+        fail(probeError('connection_closed', 'The camera closed the connection without answering'));
+      }
+    });
+
+    socket.on('data', (data: Buffer) => {
+      buffer = Buffer.concat([buffer, data]);
+      if (buffer.length > MAX_RESPONSE_SIZE) {
+        fail(probeError('response_too_large', `The camera sent more than ${MAX_RESPONSE_SIZE / 1024} KB without a complete answer`));
+        return;
+      }
+      if (!pending) {
+        return;
+      }
+      try {
+        const parsed = parseResponse(buffer);
+        if (parsed) {
+          buffer = buffer.subarray(parsed.length);
+          const { resolve: resolveRequest } = pending;
+          pending = null;
+          resolveRequest(parsed.response);
+        }
+      } catch (error) {
+        fail(error as ProbeError);
+      }
+    });
+
+    socket.once(secure ? 'secureConnect' : 'connect', () => {
+      open = true;
+      resolve({
+        request: (method, url, headers) => new Promise((resolveRequest, rejectRequest) => {
+          if (!open) {
+            rejectRequest(probeError('connection_closed', 'The connection to the camera is closed'));
+            return;
+          }
+          pending = { resolve: resolveRequest, reject: rejectRequest };
+          const lines = [
+            `${method} ${url} RTSP/1.0`,
+            `CSeq: ${++cseq}`,
+            `User-Agent: ${USER_AGENT}`,
+            ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`)
+          ];
+          socket.write(`${lines.join('\r\n')}\r\n\r\n`);
+        }),
+        isOpen: () => open,
+        close: () => {
+          open = false;
+          socket.destroy();
+        }
+      });
+    });
+  });
+}
+
+/**
+ * Read the Basic and Digest challenges from a 401 answer
+ */
+function parseChallenges(response: RtspResponse): AuthChallenge[] {
+  const challenges: AuthChallenge[] = [];
+  for (const header of response.headers.get('www-authenticate') || []) {
+    const scheme = header.match(/^(\w+)\s*/);
+    if (!scheme) continue;
+
+    const name = scheme[1].toLowerCase();
+    if (name !== 'basic' && name !== 'digest') continue;
+
+    const params: Record<string, string> = {};
+    const paramPattern = /(\w+)\s*=\s*(?:"([^"]*)"|([^,\s]+))/g;
+    let match: RegExpExecArray | null;
+    while ((match = paramPattern.exec(header.slice(scheme[0].length))) !== null) {
+      params[match[1].toLowerCase()] = match[2] ?? match[3];
+    }
+    challenges.push({ scheme: name, params });
+  }
+  return challenges;
+}
+
+function md5(value: string): string {
+  return createHash('md5').update(value).digest('hex');
+}
+
+/**
+ * Build the Authorization header answering a challenge
+ * @param nonceCount How many requests have used this nonce, including this one
+ */
+function buildAuthorization(
+  challenge: AuthChallenge,
+  username: string,
+  password: string,
+  method: string,
+  uri: string,
+  nonceCount: number
+): string {
+  if (challenge.scheme === 'basic') {
+    return `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+  }
+
+  const { realm = '', nonce = '', opaque, algorithm } = challenge.params;
+  const qop = challenge.params.qop?.split(',').map((value) => value.trim()).includes('auth') ? 'auth' : undefined;
+  const cnonce = randomBytes(8).toString('hex');
+  const nc = nonceCount.toString(16).padStart(8, '0');
+
+  let ha1 = md5(`${username}:${realm}:${password}`);
+  if (algorithm?.toLowerCase() === 'md5-sess') {
+    ha1 = md5(`${ha1}:${nonce}:${cnonce}`);
+  }
+  const ha2 = md5(`${method}:${uri}`);
+  const response = qop
+    ? md5(`${ha1}:${nonce}:${nc}:${cnonce}:${qop}:${ha2}`)
+    : md5(`${ha1}:${nonce}:${ha2}`);
+
+  const fields = [
+    `username="${username}"`,
+    `realm="${realm}"`,
+    `nonce="${nonce}"`,
+    `uri="${uri}"`,
+    `response="${response}"`,
+    ...(algorithm ? [`algorithm=${algorithm}`] : []),
+    ...(opaque !== undefined ? [`opaque="${opaque}"`] : []),
+    ...(qop ? [`qop=${qop}`, `nc=${nc}`, `cnonce="${cnonce}"`] : [])
+  ];
+  return `Digest ${fields.join(', ')}`;
+}
+
+/**
+ * Read the coded picture size from an H.264 sequence parameter set
+ * @param sps The SPS NAL unit, including its header byte
+ */
+function parseH264Sps(sps: Buffer): { width: number; height: number } | null {
+  // Drop emulation prevention bytes (00 00 03 -> 00 00)
+  const rbsp: number[] = [];
+  for (let i = 0; i < sps.length; i++) {
+    if (sps[i] === 3 && rbsp.length >= 2 && rbsp[rbsp.length - 1] === 0 && rbsp[rbsp.length - 2] === 0) {
+      continue;
+    }
+    rbsp.push(sps[i]);
+  }
+
+  let bit = 0;
+  const readBits = (count: number): number => {
+    let value = 0;
+    for (let i = 0; i < count; i++, bit++) {
+      const byte = rbsp[bit >> 3];
+      if (byte === undefined) {
+        throw new Error('SPS ended early');
+      }
+      value = value * 2 + ((byte >> (7 - (bit & 7))) & 1);
+    }
+    return value;
+  };
+  const readUE = (): number => {
+    let leadingZeros = 0;
+    while (readBits(1) === 0) {
+      if (++leadingZeros > 31) throw new Error('Invalid Exp-Golomb code');
+    }
+    return 2 ** leadingZeros - 1 + readBits(leadingZeros);
+  };
+  const readSE = (): number => {
+    const value = readUE();
+    return value % 2 === 0 ? -(value / 2) : (value + 1) / 2;
+  };
+
+  try {
+    if ((readBits(8) & 0x1f) !== 7) {
+      return null;
+    }
+    const profileIdc = readBits(8);
+    readBits(16); // constraint flags and level
+    readUE(); // seq_parameter_set_id
+
+    let chromaFormatIdc = 1;
+    let separateColourPlanes = false;
+    if (H264_HIGH_PROFILES.has(profileIdc)) {
+      chromaFormatIdc = readUE();
+      if (chromaFormatIdc === 3) {
+        separateColourPlanes = readBits(1) === 1;
+      }
+      readUE(); // bit_depth_luma_minus8
+      readUE(); // bit_depth_chroma_minus8
+      readBits(1); // qpprime_y_zero_transform_bypass_flag
+      if (readBits(1)) {
+        // Scaling matrices are skipped, but their lists have to be walked
+        for (let i = 0; i < (chromaFormatIdc === 3 ? 12 : 8); i++) {
+          if (readBits(1)) {
+            let lastScale = 8;
+            let nextScale = 8;
+            for (let j = 0; j < (i < 6 ? 16 : 64); j++) {
+              if (nextScale !== 0) {
+                nextScale = (lastScale + readSE() + 256) % 256;
+              }
+              lastScale = nextScale === 0 ? lastScale : nextScale;
+            }
+          }
+        }
+      }
+    }
+
+    readUE(); // log2_max_frame_num_minus4
+    const picOrderCntType = readUE();
+    if (picOrderCntType === 0) {
+      readUE();
+    } else if (picOrderCntType === 1) {
+      readBits(1);
+      readSE();
+      readSE();
+      const cycleLength = readUE();
+      for (let i = 0; i < cycleLength; i++) readSE();
+    }
+    readUE(); // max_num_ref_frames
+    readBits(1); // gaps_in_frame_num_value_allowed_flag
+
+    const widthInMbs = readUE() + 1;
+    const heightInMapUnits = readUE() + 1;
+    const frameMbsOnly = readBits(1);
+    if (!frameMbsOnly) readBits(1); // mb_adaptive_frame_field_flag
+    readBits(1); // direct_8x8_inference_flag
+
+    let width = widthInMbs * 16;
+    let height = (2 - frameMbsOnly) * heightInMapUnits * 16;
+
+    if (readBits(1)) {
+      const [left, right, top, bottom] = [readUE(), readUE(), readUE(), readUE()];
+      const hasChroma = chromaFormatIdc !== 0 && !separateColourPlanes;
+      const cropUnitX = hasChroma && chromaFormatIdc !== 3 ? 2 : 1;
+      const cropUnitY = (hasChroma && chromaFormatIdc === 1 ? 2 : 1) * (2 - frameMbsOnly);
+      width -= (left + right) * cropUnitX;
+      height -= (top + bottom) * cropUnitY;
+    }
+
+    return width > 0 && height > 0 ? { width, height } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read the session name and media tracks from an SDP description
+ * @param sdp The DESCRIBE body
+ */
+export function parseSdp(sdp: string): { sessionName?: string; tracks: RtspTrack[] } {
+  let sessionName: string | undefined;
+  const tracks: RtspTrack[] = [];
+  let track: RtspTrack | undefined;
+
+  for (const line of sdp.split(/\r?\n/)) {
+    const separator = line.indexOf('=');
+    if (separator !== 1) continue;
+    const type = line[0];
+    const value = line.slice(2).trim();
+
+    if (type === 's' && !track) {
+      sessionName = value || undefined;
+      continue;
+    }
+
+    if (type === 'm') {
+      // m=<media> <port> <proto> <payload types...>
+      const [media, , , payloadType] = value.split(/\s+/);
+      track = { type: media };
+      const pt = parseInt(payloadType, 10);
+      if (!isNaN(pt)) {
+        track.payloadType = pt;
+        const known = STATIC_PAYLOAD_TYPES[pt];
+        if (known) Object.assign(track, known);
+      }
+      tracks.push(track);
+      continue;
+    }
+
+    if (type !== 'a' || !track) continue;
+
+    const attribute = value.match(/^([\w-]+)(?::(.*))?$/);
+    if (!attribute) continue;
+    const [, name, attributeValue = ''] = attribute;
+
+    switch (name) {
+      case 'rtpmap': {
+        // a=rtpmap:<pt> <codec>/<clock rate>[/<channels>]
+        const rtpmap = attributeValue.match(/^(\d+)\s+([^/\s]+)\/(\d+)(?:\/(\d+))?/);
+        if (rtpmap && parseInt(rtpmap[1], 10) === track.payloadType) {
+          track.codec = rtpmap[2].toUpperCase();
+          track.clockRate = parseInt(rtpmap[3], 10);
+          if (rtpmap[4]) track.channels = parseInt(rtpmap[4], 10);
+        }
+        break;
+      }
+      case 'fmtp': {
+        const spropSets = attributeValue.match(/sprop-parameter-sets=([^;\s]+)/);
+        if (spropSets && track.width === undefined) {
+          const size = parseH264Sps(Buffer.from(spropSets[1].split(',')[0], 'base64'));
+          if (size) Object.assign(track, size);
+        }
+        break;
+      }
+      case 'control':
+        track.control = attributeValue;
+        break;
+      case 'framerate': {
+        const frameRate = parseFloat(attributeValue);
+        if (frameRate > 0) track.frameRate = frameRate;
+        break;
+      }
+      case 'framesize': {
+        // a=framesize:<pt> <width>-<height>
+        const size = attributeValue.match(/(\d+)-(\d+)\s*$/);
+        if (size) {
+          track.width = parseInt(size[1], 10);
+          track.height = parseInt(size[2], 10);
+        }
+        break;
+      }
+      case 'x-dimensions': {
+        const size = attributeValue.match(/^(\d+),\s*(\d+)/);
+        if (size) {
+          track.width = parseInt(size[1], 10);
+          track.height = parseInt(size[2], 10);
+        }
+        break;
+      }
+    }
+  }
+
+  return { sessionName, tracks };
+}
+
+/**
+ * Classify a non-success RTSP answer
+ */
+function classifyStatus(response: RtspResponse, hadCredentials: boolean): { reason: RtspProbeFailure; message: string } {
+  const status = `${response.statusCode} ${response.statusText}`.trim();
+  switch (response.statusCode) {
+    case 401:
+      return hadCredentials
+        ? { reason: 'auth_failed', message: `The camera rejected the username or password (${status})` }
+        : { reason: 'auth_required', message: `The camera requires a username and password (${status})` };
+    case 403:
+      return { reason: 'forbidden', message: `The camera refused access to this stream (${status})` };
+    case 404:
+      return { reason: 'not_found', message: `The camera has no stream at this path (${status})` };
+    default:
+      return { reason: 'unexpected_status', message: `The camera answered ${status}` };
+  }
+}
+
+/**
+ * Talk to a camera's RTSP server the way a player would before streaming:
+ * OPTIONS, then DESCRIBE, answering Digest challenges, and Basic ones if allowed,
+ * with the given credentials. Never throws; failures are reported in the result.
+ * @param rtspUrl The stream URL; credentials in it are used unless options give them
+ * @param options Credentials, whether Basic authentication may be used, and timeout
+ * @returns What the server answered, the stream's tracks, or why it failed
+ */
+export async function probeRtspStream(rtspUrl: string, options: RtspProbeOptions = {}): Promise<RtspProbeResult> {
+  const timeout = options.timeout ?? DEFAULT_PROBE_TIMEOUT;
+
+  let parsed: URL;
+  try {
+    parsed = new URL(rtspUrl);
+    if (parsed.protocol !== 'rtsp:' && parsed.protocol !== 'rtsps:') {
+      throw new Error('not an RTSP URL');
+    }
+  } catch {
+    return { success: false, url: rtspUrl.replace(/\/\/[^@/]*@/, '//'), failureReason: 'invalid_url', error: 'Invalid RTSP URL' };
+  }
+
+  const username = options.username ?? (parsed.username ? decodeURIComponent(parsed.username) : undefined);
+  const password = options.password ?? (parsed.password ? decodeURIComponent(parsed.password) : '');
+  parsed.username = '';
+  parsed.password = '';
+
+  const secure = parsed.protocol === 'rtsps:';
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  const port = parsed.port ? parseInt(parsed.port, 10) : secure ? 322 : 554;
+  const url = parsed.toString();
+  const result: RtspProbeResult = { success: false, url, authMethod: 'none' };
+
+  let connection: RtspConnection | undefined;
+  let challenge: AuthChallenge | undefined;
+  let nonceCount = 0;
+
+  // Send a request, answering one authentication challenge if the camera asks
+  const send = async (method: string, headers: Record<string, string> = {}): Promise<RtspResponse> => {
+    const attempt = async () => {
+      if (!connection || !connection.isOpen()) {
+        connection = await openConnection(host, port, secure, timeout);
+      }
+      const requestHeaders = { ...headers };
+      if (challenge && username !== undefined) {
+        requestHeaders.Authorization = buildAuthorization(challenge, username, password, method, url, ++nonceCount);
+      }
+      return connection.request(method, url, requestHeaders);
+    };
+
+    let response = await attempt();
+    if (response.statusCode === 401 && username !== undefined) {
+      const challenges = parseChallenges(response);
+      const offered = challenges.find((c) => c.scheme === 'digest') || challenges.find((c) => c.scheme === 'basic');
+      if (!offered) {
+        const scheme = response.headers.get('www-authenticate')?.[0];
+        if (scheme) {
+          throw probeError('unsupported_auth', `The camera asked for an unsupported authentication method: ${scheme}`);
+        }
+        return response;
+      }
+      if (offered.scheme === 'basic' && !options.allowBasic) {
+        throw probeError(
+          'basic_not_allowed',
+          'The camera only accepts Basic authentication, which sends the password unencrypted; allow Basic authentication to try it'
+        );
+      }
+
+      // Answer a first challenge, a new nonce or a stale one; the same challenge again means bad credentials
+      if (!challenge || offered.params.nonce !== challenge.params.nonce || offered.params.stale?.toLowerCase() === 'true') {
+        challenge = offered;
+        nonceCount = 0;
+        result.authMethod = offered.scheme;
+        response = await attempt();
+      }
+    }
+    return response;
+  };
+
+  try {
+    const optionsResponse = await send('OPTIONS');
+    result.server = optionsResponse.headers.get('server')?.[0];
+    const methods = optionsResponse.headers.get('public')?.[0];
+    if (methods) {
+      result.methods = methods.split(',').map((method) => method.trim()).filter(Boolean);
+    }
+
+    const startedAt = Date.now();
+    const describe = await send('DESCRIBE', { Accept: 'application/sdp' });
+    result.responseTime = Date.now() - startedAt;
+    result.statusCode = describe.statusCode;
+    result.statusText = describe.statusText;
+    result.server = result.server || describe.headers.get('server')?.[0];
+
+    if (describe.statusCode !== 200) {
+      const failure = classifyStatus(describe, username !== undefined);
+      return { ...result, failureReason: failure.reason, error: failure.message };
+    }
+
+    const { sessionName, tracks } = parseSdp(describe.body);
+    return { ...result, success: true, sessionName, tracks };
+  } catch (error) {
+    const reason = (error as Partial<ProbeError>).reason || 'connection_closed';
+    return { ...result, failureReason: reason, error: error instanceof Error ? error.message : String(error) };
+  } finally {
+    connection?.close();
+  }
+}
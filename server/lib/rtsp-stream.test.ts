@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import { spawnSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const hasFfmpeg = spawnSync('ffmpeg', ['-version']).status === 0;
+
+/**
+ * Wait until a check passes, polling every 200ms
+ */
+async function waitFor<T>(check: () => Promise<T | undefined> | T | undefined, timeout: number): Promise<T> {
+  const deadline = Date.now() + timeout;
+  for (;;) {
+    const result = await check();
+    if (result) return result;
+    if (Date.now() > deadline) throw new Error('Timed out waiting');
+    await new Promise((resolve) => setTimeout(resolve, 200));
+  }
+}
+
+describe.skipIf(!hasFfmpeg)('live streams', () => {
+  let workDir: string;
+  let videoPath: string;
+  let rtspStream: typeof import('./rtsp-stream');
+  let storage: typeof import('../storage')['storage'];
+
+  beforeAll(async () => {
+    // Recordings are written under the working directory
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'stream-test-'));
+    vi.spyOn(process, 'cwd').mockReturnValue(workDir);
+    rtspStream = await import('./rtsp-stream');
+    ({ storage } = await import('../storage'));
+    fs.mkdirSync(rtspStream.RECORDINGS_DIR, { recursive: true });
+
+    videoPath = path.join(workDir, 'source.mp4');
+    const result = spawnSync('ffmpeg', [
+      '-f', 'lavfi', '-i', 'testsrc=size=320x240:rate=10:duration=30',
+      '-c:v', 'libx264', '-preset', 'ultrafast', '-g', '10', '-pix_fmt', 'yuv420p', '-y', videoPath
+    ]);
+    expect(result.status).toBe(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it('stops a JSMpeg stream whose client never connects', async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+
+    expect(await rtspStream.setupRtspStream(201, 'main', videoPath)).toBe('/ws/stream/201/main');
+    expect(rtspStream.getStreamStatuses(201)).toHaveLength(1);
+
+    // Asking for the stream again gives the new viewer the full minute
+    await vi.advanceTimersByTimeAsync(45000);
+    await rtspStream.setupRtspStream(201, 'main', videoPath);
+    await vi.advanceTimersByTimeAsync(45000);
+    expect(rtspStream.getStreamStatuses(201)).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(15000);
+    expect(rtspStream.getStreamStatuses(201)).toEqual([]);
+  });
+
+  /**
+   * Wait for a recording to be saved and check that it plays
+   */
+  async function waitForSavedRecording(cameraId: number) {
+    const [recording] = await waitFor(async () => {
+      const recordings = await storage.getRecordings(cameraId);
+      return recordings.length > 0 ? recordings : undefined;
+    }, 10000);
+    expect(recording.duration).toBeGreaterThan(0);
+    expect(recording.metadata).toMatchObject({ resolution: '320x240', format: 'mp4' });
+    return recording;
+  }
+
+  it('saves a recording cut short by FFmpeg crashing and keeps streaming', async () => {
+    const session = await rtspStream.startRecording(202, videoPath, 'recording_202_crash.mp4');
+    await new Promise((resolve) => setTimeout(resolve, 3000));
+
+    session.ffmpegProcess!.kill('SIGKILL');
+    const recording = await waitForSavedRecording(202);
+
+    expect(recording.fileName).toBe('recording_202_crash.mp4');
+    expect(rtspStream.getActiveRecording(202)).toBeUndefined();
+    expect(await rtspStream.stopRecording(202)).toBeUndefined();
+    // The live output comes back without the recording
+    const [status] = rtspStream.getStreamStatuses(202);
+    expect(['reconnecting', 'live']).toContain(status.state);
+
+    await rtspStream.disconnectStream(202, 'main');
+  });
+
+  it('saves a recording whose stream is disconnected', async () => {
+    await rtspStream.startRecording(203, videoPath, 'recording_203_disconnect.mp4');
+    await new Promise((resolve) => setTimeout(resolve, 3000));
+
+    await rtspStream.disconnectStream(203, 'main');
+    const recording = await waitForSavedRecording(203);
+
+    expect(recording.fileName).toBe('recording_203_disconnect.mp4');
+    expect(rtspStream.getActiveRecording(203)).toBeUndefined();
+    expect(rtspStream.getStreamStatuses(203)).toEqual([]);
+  });
+});
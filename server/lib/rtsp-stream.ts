@@ -1,155 +1,706 @@
-import { spawn } from 'child_process';
+import { spawn, type ChildProcess } from 'child_process';
 import { WebSocketServer, WebSocket } from 'ws';
-import { createServer } from 'http';
-import { formatWsUrl } from './network-utils';
+import type { IncomingMessage, Server } from 'http';
+import type { Duplex } from 'stream';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DEFAULT_TRANSCODE_PROFILES, type Camera, type Recording, type TranscodeProfile } from '@shared/schema';
+import { getAlternativeStreamUrl, getOnvifStreamUrl } from '../../client/src/lib/camera-utils';
+import { storage } from '../storage';
+import { buildTranscodeArgs } from './transcode-profiles';
+import { probeMediaFile } from './media-probe';
+import { decryptSecret, redactUrlCredentials, withRtspCredentials } from './camera-credentials';
 
-// Store active RTSP streams
+// Path prefix that stream WebSockets are served under on the main HTTP server
+export const STREAM_WS_PREFIX = '/ws/stream/';
+
+// Path prefix that HLS playlists and segments are served under
+export const HLS_PATH_PREFIX = '/hls/';
+
+// Main stream or low-resolution substream of a camera
+export type StreamProfile = 'main' | 'sub';
+
+// How a stream is delivered: MPEG1 over WebSocket for JSMpeg, or H.264 HLS for <video>
+export type StreamMode = 'jsmpeg' | 'hls';
+
+// Lifecycle state of a stream's FFmpeg process
+export type StreamState = 'starting' | 'live' | 'reconnecting' | 'failed';
+
+export interface StreamOptions {
+  mode?: StreamMode;
+  transcodeProfile?: TranscodeProfile;
+  recording?: RecordingSession; // Recording to add as a second output
+}
+
+// Store active RTSP streams, keyed by camera ID, profile and mode
 interface StreamInfo {
+  cameraId: number;
+  profile: StreamProfile;
+  mode: StreamMode;
+  transcodeProfile: TranscodeProfile;
+  rtspUrl: string;
   ffmpegProcess: any;
-  wsServer: WebSocketServer;
+  ffmpegExited?: Promise<number | null>;
+  wsServer?: WebSocketServer;
   clients: Set<WebSocket>;
-  lastClientDisconnectTimeout?: NodeJS.Timeout;
+  dataTaps: Set<(data: Buffer) => void>; // Extra readers of the output, e.g. for snapshots
+  idleTimeout?: NodeJS.Timeout; // Stops a JSMpeg stream that has no clients
+  hlsDir?: string;
+  lastAccessAt: number;
+  idleCheckInterval?: NodeJS.Timeout;
+  state: StreamState;
+  stateChangedAt: Date;
+  lastError?: string;
+  restartAttempts: number;
+  restartTimeout?: NodeJS.Timeout;
+  wentOffline: boolean;
+  stopped: boolean;
+  recording?: RecordingSession; // Written as a second output of the stream's FFmpeg process
 }
 
+// Public view of a stream's health
+export interface StreamStatus {
+  cameraId: number;
+  profile: StreamProfile;
+  mode: StreamMode;
+  state: StreamState;
+  stateChangedAt: Date;
+  lastError?: string;
+  restartAttempts: number;
+  clients: number;
+}
+
+// Restart backoff: 1s, 2s, 4s ... capped at 30s, giving up after 8 attempts
+const RESTART_BASE_DELAY = 1000;
+const RESTART_MAX_DELAY = 30000;
+const MAX_RESTART_ATTEMPTS = 8;
+
+// HLS streams have no persistent connection, so they are stopped once
+// nobody has requested the playlist for a minute
+const HLS_IDLE_TIMEOUT = 60000;
+const HLS_IDLE_CHECK_INTERVAL = 15000;
+const HLS_STARTUP_TIMEOUT = 15000;
+const HLS_FILE_PATTERN = /^(index\.m3u8|segment_\d+\.ts)$/;
+
+// JSMpeg streams are stopped a minute after their last client leaves, or a minute
+// after being requested if no client connects, e.g. because the viewer went away
+const JSMPEG_IDLE_TIMEOUT = 60000;
+
 const activeStreams = new Map<string, StreamInfo>();
 
 /**
- * Setup an RTSP stream and serve it over WebSocket
- * @param rtspUrl The RTSP URL to stream
- * @returns WebSocket URL to connect to
+ * Build the registry key for a camera stream
  */
-export async function setupRtspStream(rtspUrl: string): Promise<string> {
-  // Generate a unique stream ID based on the RTSP URL
-  const streamId = Buffer.from(rtspUrl).toString('base64');
-  
-  // Check if stream already exists
-  if (activeStreams.has(streamId)) {
-    // Clear any disconnect timeout
-    const stream = activeStreams.get(streamId)!;
-    if (stream.lastClientDisconnectTimeout) {
-      clearTimeout(stream.lastClientDisconnectTimeout);
-      stream.lastClientDisconnectTimeout = undefined;
-    }
-    
-    // Return existing WebSocket URL with proper IP address
-    return formatWsUrl(getPortForStream(streamId));
+function getStreamKey(cameraId: number, profile: StreamProfile, mode: StreamMode = 'jsmpeg'): string {
+  return `${cameraId}:${profile}:${mode}`;
+}
+
+/**
+ * Get the WebSocket path a camera stream is served on
+ */
+export function getStreamPath(cameraId: number, profile: StreamProfile): string {
+  return `${STREAM_WS_PREFIX}${cameraId}/${profile}`;
+}
+
+/**
+ * Get the URL path of a camera stream's HLS playlist
+ */
+export function getHlsPlaylistPath(cameraId: number, profile: StreamProfile): string {
+  return `${HLS_PATH_PREFIX}${cameraId}/${profile}/index.m3u8`;
+}
+
+/**
+ * Resolve the RTSP URL for a camera's stream profile, decrypting its credentials.
+ * This is the only place the full URL is put back together, just before it is
+ * handed to FFmpeg, so it must never be sent to clients or logged.
+ * @param camera The camera to stream
+ * @param profile The stream profile
+ */
+export function resolveStreamUrl(camera: Camera, profile: StreamProfile): string {
+  // Cameras queried over ONVIF report their own sub stream; otherwise guess it
+  const onvifSubUrl = profile === 'sub' ? getOnvifStreamUrl(camera, 'low') : undefined;
+  let rtspUrl = onvifSubUrl || camera.rtspUrl;
+  if (camera.rtspUsername) {
+    rtspUrl = withRtspCredentials(
+      rtspUrl,
+      decryptSecret(camera.rtspUsername),
+      camera.rtspPassword ? decryptSecret(camera.rtspPassword) : undefined
+    );
   }
-  
-  // Get a random port between 10000 and 20000
-  const port = Math.floor(Math.random() * 10000) + 10000;
-  
-  // Create HTTP server
-  const server = createServer();
-  
-  // Create WebSocket server
-  const wsServer = new WebSocketServer({ server });
-  
-  // Start HTTP server
-  await new Promise<void>((resolve, reject) => {
-    server.listen(port, '0.0.0.0', () => {
-      resolve();
-    });
-    server.on('error', (err) => {
-      reject(err);
+
+  return profile === 'sub' && !onvifSubUrl ? getAlternativeStreamUrl(rtspUrl, 'low') : rtspUrl;
+}
+
+/**
+ * Whether a camera source is a local video file rather than an RTSP address.
+ * Outside production any source that is not an rtsp:// or rtsps:// URL is
+ * read as a file, which is how the FFmpeg-based modules are tested without a camera.
+ */
+export function isFileSource(sourceUrl: string): boolean {
+  return !/^rtsps?:\/\//i.test(sourceUrl) && process.env.NODE_ENV !== 'production';
+}
+
+/**
+ * Build the FFmpeg input arguments for a camera source
+ * @param sourceUrl The RTSP URL, or a local video file outside production
+ * @param options rtspTransport for RTSP sources (TCP by default); realtime to read
+ *   files at their native frame rate, as a camera would send them (on by default)
+ */
+export function buildSourceInputArgs(
+  sourceUrl: string,
+  options: { rtspTransport?: string; realtime?: boolean } = {}
+): string[] {
+  if (isFileSource(sourceUrl)) {
+    return [...(options.realtime === false ? [] : ['-re']), '-i', sourceUrl];
+  }
+  return ['-rtsp_transport', options.rtspTransport || 'tcp', '-i', sourceUrl];
+}
+
+/**
+ * Route WebSocket upgrade requests for stream paths to the matching stream.
+ * Requests for other paths (e.g. Vite HMR) are left for other handlers.
+ * @param httpServer The main HTTP server
+ * @param isAuthorized Optional check run before a client may join a camera's stream
+ */
+export function attachStreamUpgradeHandler(
+  httpServer: Server,
+  isAuthorized?: (request: IncomingMessage, cameraId: number) => Promise<boolean>
+): void {
+  httpServer.on('upgrade', async (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const { pathname } = new URL(request.url || '/', 'http://localhost');
+    if (!pathname.startsWith(STREAM_WS_PREFIX)) {
+      return;
+    }
+
+    const [cameraIdParam, profile = 'main'] = pathname.slice(STREAM_WS_PREFIX.length).split('/');
+    const cameraId = parseInt(cameraIdParam);
+
+    if (isAuthorized && !(await isAuthorized(request, cameraId))) {
+      socket.write('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+      socket.destroy();
+      return;
+    }
+
+    const stream = activeStreams.get(getStreamKey(cameraId, profile as StreamProfile));
+    const wsServer = stream?.wsServer;
+
+    if (!wsServer) {
+      socket.write('HTTP/1.1 404 Not Found\r\nConnection: close\r\n\r\n');
+      socket.destroy();
+      return;
+    }
+
+    wsServer.handleUpgrade(request, socket, head, (ws) => {
+      wsServer.emit('connection', ws, request);
     });
   });
+}
+
+/**
+ * Resolve a requested HLS file to its path on disk and mark the stream as watched
+ * @param cameraId The camera being streamed
+ * @param profile The stream profile
+ * @param fileName The playlist or segment file name
+ * @returns Absolute file path, or undefined if the stream or file name is unknown
+ */
+export function getHlsFilePath(cameraId: number, profile: StreamProfile, fileName: string): string | undefined {
+  if (!HLS_FILE_PATTERN.test(fileName)) {
+    return undefined;
+  }
+
+  const stream = activeStreams.get(getStreamKey(cameraId, profile, 'hls'));
+  if (!stream || !stream.hlsDir) {
+    return undefined;
+  }
+
+  stream.lastAccessAt = Date.now();
+  return path.join(stream.hlsDir, fileName);
+}
+
+/**
+ * Extract the most relevant error message from FFmpeg stderr output
+ * @param output Recent FFmpeg stderr text
+ * @returns The error line with any URL credentials hidden, or undefined if none was found
+ */
+export function parseFfmpegError(output: string): string | undefined {
+  const knownErrors = [
+    /401 Unauthorized/i,
+    /403 Forbidden/i,
+    /404 Not Found/i,
+    /Connection refused/i,
+    /Connection timed out/i,
+    /No route to host/i,
+    /Network is unreachable/i,
+    /Name or service not known/i,
+    /Invalid data found when processing input/i,
+    /Server returned [^\n]*/i
+  ];
+  const lines = redactUrlCredentials(output).split('\n').map((line) => line.trim()).filter(Boolean);
+
+  for (let i = lines.length - 1; i >= 0; i--) {
+    if (knownErrors.some((pattern) => pattern.test(lines[i]))) {
+      return lines[i];
+    }
+  }
+
+  for (let i = lines.length - 1; i >= 0; i--) {
+    if (/error|failed|invalid/i.test(lines[i])) {
+      return lines[i];
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Update a stream's state and record online/offline transitions as camera events
+ */
+function setStreamState(stream: StreamInfo, state: StreamState): void {
+  if (stream.state === state) {
+    return;
+  }
+
+  const previous = stream.state;
+  stream.state = state;
+  stream.stateChangedAt = new Date();
+
+  if (previous === 'live' && (state === 'reconnecting' || state === 'failed')) {
+    stream.wentOffline = true;
+    recordStreamTransition(stream, 'offline').catch(console.error);
+  } else if (state === 'live' && stream.wentOffline) {
+    stream.wentOffline = false;
+    recordStreamTransition(stream, 'online').catch(console.error);
+  }
+}
+
+/**
+ * Store a camera event and notification for a stream going offline or coming back online
+ */
+async function recordStreamTransition(stream: StreamInfo, eventType: 'offline' | 'online'): Promise<void> {
+  const camera = await storage.getCamera(stream.cameraId);
+  const name = camera ? camera.name : `camera ID ${stream.cameraId}`;
+  const message = eventType === 'offline'
+    ? `${name} (${stream.profile}) went offline${stream.lastError ? `: ${stream.lastError}` : ''}`
+    : `${name} (${stream.profile}) is back online`;
+
+  await storage.createCameraEvent({
+    cameraId: stream.cameraId,
+    eventType,
+    message
+  });
+
+  await storage.createNotification({
+    title: eventType === 'offline' ? "Camera Offline" : "Camera Online",
+    message,
+    type: eventType === 'offline' ? "warning" : "info",
+    cameraId: stream.cameraId
+  });
+}
+
+
+/**
+ * Whether anyone is (or is about to be) watching a stream
+ */
+function isStreamWatched(stream: StreamInfo): boolean {
+  if (stream.recording) {
+    return true;
+  }
+  if (stream.mode === 'hls') {
+    return Date.now() - stream.lastAccessAt < HLS_IDLE_TIMEOUT;
+  }
+  return stream.clients.size > 0 || stream.idleTimeout !== undefined;
+}
+
+/**
+ * Stop a JSMpeg stream unless a client connects within the idle timeout
+ */
+function scheduleIdleCleanup(stream: StreamInfo): void {
+  if (stream.idleTimeout) {
+    clearTimeout(stream.idleTimeout);
+  }
+  stream.idleTimeout = setTimeout(() => {
+    stream.idleTimeout = undefined;
+    // A running recording keeps the stream up; stopping it cleans up instead
+    if (stream.stopped || stream.clients.size > 0 || stream.recording) {
+      return;
+    }
+    console.log('No clients connected, cleaning up stream');
+    disconnectStream(stream.cameraId, stream.profile, stream.mode).catch(console.error);
+  }, JSMPEG_IDLE_TIMEOUT);
+}
+
+/**
+ * Mark a stream as live once FFmpeg produces output
+ */
+function markStreamLive(stream: StreamInfo): void {
+  if (stream.state !== 'live') {
+    stream.restartAttempts = 0;
+    stream.lastError = undefined;
+    setStreamState(stream, 'live');
+  }
+}
+
+/**
+ * Spawn (or respawn) the FFmpeg process for a stream and supervise it
+ */
+function spawnStreamProcess(stream: StreamInfo): void {
+  const { cameraId, profile, mode, clients } = stream;
   
-  // Store clients for this stream
-  const clients = new Set<WebSocket>();
-  
-  // Setup FFmpeg process to convert RTSP to MPEG-TS
+  // Spawn FFmpeg process, adding the recording as a second output so it shares the camera connection
+  const { recording } = stream;
   const ffmpegArgs = [
-    '-i', rtspUrl,
-    '-f', 'mpegts',
-    '-codec:v', 'mpeg1video',
-    '-s', '640x480', // Adjust resolution as needed
-    '-b:v', '1000k', // Adjust bitrate as needed
-    '-r', '30', // Frames per second
-    '-bf', '0', // No B-frames for lower latency
-    '-q:v', '3', // Quality (1-31, where 1 is best)
-    '-codec:a', 'mp2', // Audio codec
-    '-ar', '44100', // Audio sample rate
-    '-ac', '1', // Audio channels
-    '-b:a', '128k', // Audio bitrate
-    '-muxdelay', '0.001', // Low muxing delay
-    'pipe:1' // Output to stdout
+    ...buildTranscodeArgs(stream.rtspUrl, stream.transcodeProfile, mode, stream.hlsDir),
+    ...(recording ? buildRecordingOutputArgs(recording.outputPath) : [])
   ];
-  
-  // Spawn FFmpeg process
   const ffmpegProcess = spawn('ffmpeg', ffmpegArgs, {
     shell: false
   });
-  
-  // Handle FFmpeg errors
-  ffmpegProcess.stderr.on('data', (data: Buffer) => {
-    console.log(`FFmpeg: ${data.toString()}`);
+  const exited = new Promise<number | null>((resolve) => {
+    ffmpegProcess.on('close', resolve);
+    ffmpegProcess.on('error', () => resolve(null));
   });
+  stream.ffmpegProcess = ffmpegProcess;
+  stream.ffmpegExited = exited;
+  if (recording) {
+    recording.ffmpegProcess = ffmpegProcess;
+    recording.exited = exited;
+  }
   
-  // Handle FFmpeg exit
-  ffmpegProcess.on('close', (code: number) => {
-    console.log(`FFmpeg process exited with code ${code}`);
+  // Keep recent stderr output so the last error can be reported
+  let stderrTail = '';
+  ffmpegProcess.stderr.on('data', (data: Buffer) => {
+    // FFmpeg prints the input URL, credentials included
+    const text = redactUrlCredentials(data.toString());
+    console.log(`FFmpeg [camera ${cameraId}/${profile}/${mode}]: ${text}`);
+    stderrTail = (stderrTail + text).slice(-4096);
     
-    // Clean up
-    wsServer.close();
-    server.close();
-    activeStreams.delete(streamId);
+    // The HLS muxer writes to disk, so watch for the playlist being written
+    if (mode === 'hls' && /Opening '[^']*index\.m3u8/.test(text)) {
+      markStreamLive(stream);
+    }
   });
   
-  // WebSocket connection handler
-  wsServer.on('connection', (ws) => {
-    console.log('WebSocket client connected');
-    
-    // Add client to set
-    clients.add(ws);
-    
-    // Handle client disconnect
-    ws.on('close', () => {
-      console.log('WebSocket client disconnected');
-      clients.delete(ws);
-      
-      // If no clients left, schedule cleanup
-      if (clients.size === 0) {
-        const stream = activeStreams.get(streamId);
-        if (stream) {
-          stream.lastClientDisconnectTimeout = setTimeout(() => {
-            console.log('No clients left, cleaning up stream');
-            disconnectStream(rtspUrl).catch(console.error);
-          }, 60000); // Give 1 minute before cleanup
-        }
-      }
-    });
+  ffmpegProcess.on('error', (err: Error) => {
+    stderrTail += `\nFailed to start FFmpeg: ${err.message}`;
   });
   
   // Handle FFmpeg output and send to WebSocket clients
   ffmpegProcess.stdout.on('data', (data: Buffer) => {
+    markStreamLive(stream);
+    
     // Send data to all connected clients
     clients.forEach((client) => {
       if (client.readyState === WebSocket.OPEN) {
         client.send(data);
       }
     });
+    stream.dataTaps.forEach((tap) => tap(data));
   });
   
-  // Store stream info
-  activeStreams.set(streamId, {
-    ffmpegProcess,
-    wsServer,
-    clients
+  // Handle FFmpeg exit
+  ffmpegProcess.on('close', (code: number | null) => {
+    console.log(`FFmpeg process [camera ${cameraId}/${profile}/${mode}] exited with code ${code}`);
+    
+    // A recording ends with the process writing it; restarts only bring back the live output.
+    // If it was not stopped (FFmpeg crashed, or the stream was stopped or replaced), keep what was recorded.
+    if (recording && stream.recording === recording) {
+      stream.recording = undefined;
+      if (activeRecordings.get(cameraId) === recording) {
+        activeRecordings.delete(cameraId);
+        console.log(`Recording [camera ${cameraId}] ended with its stream, saving ${recording.fileName}`);
+        saveRecording(recording).catch((error) => console.error('Error saving interrupted recording:', error));
+      }
+    }
+    
+    // Ignore exits of processes that were stopped or replaced
+    if (stream.stopped || stream.ffmpegProcess !== ffmpegProcess) {
+      return;
+    }
+    
+    stream.lastError = parseFfmpegError(stderrTail) || `FFmpeg exited with code ${code}`;
+    
+    // Only keep retrying while someone is (or is about to be) watching
+    if (!isStreamWatched(stream)) {
+      disconnectStream(cameraId, profile, mode).catch(console.error);
+      return;
+    }
+    
+    if (stream.restartAttempts >= MAX_RESTART_ATTEMPTS) {
+      setStreamState(stream, 'failed');
+      clients.forEach((client) => client.close());
+      return;
+    }
+    
+    const delay = Math.min(RESTART_BASE_DELAY * 2 ** stream.restartAttempts, RESTART_MAX_DELAY);
+    stream.restartAttempts++;
+    setStreamState(stream, 'reconnecting');
+    console.log(`Restarting stream [camera ${cameraId}/${profile}/${mode}] in ${delay}ms (attempt ${stream.restartAttempts})`);
+    
+    stream.restartTimeout = setTimeout(() => {
+      stream.restartTimeout = undefined;
+      if (!stream.stopped) {
+        spawnStreamProcess(stream);
+      }
+    }, delay);
   });
+}
+
+/**
+ * Ask FFmpeg to quit so its outputs are finalized, killing it if it does not finish in time
+ * @param ffmpegProcess The process to stop
+ * @param exited Resolves when the process has exited
+ */
+async function quitFfmpeg(ffmpegProcess: ChildProcess, exited: Promise<number | null>): Promise<void> {
+  if (ffmpegProcess.exitCode !== null || ffmpegProcess.signalCode !== null) {
+    return;
+  }
+
+  ffmpegProcess.stdin?.write('q');
+  ffmpegProcess.stdin?.end();
+
+  const interruptTimeout = setTimeout(() => ffmpegProcess.kill('SIGINT'), 5000);
+  const killTimeout = setTimeout(() => ffmpegProcess.kill('SIGKILL'), 15000);
+
+  await exited;
+  clearTimeout(interruptTimeout);
+  clearTimeout(killTimeout);
+}
+
+/**
+ * Replace a stream's FFmpeg process, e.g. to add or remove the recording output.
+ * Viewers stay connected and see a short gap while the camera reconnects.
+ */
+async function restartStreamProcess(stream: StreamInfo): Promise<void> {
+  const { ffmpegProcess, ffmpegExited } = stream;
+
+  // Detach the old process first so its exit is not treated as a dropped connection
+  stream.ffmpegProcess = null;
+  if (stream.restartTimeout) {
+    clearTimeout(stream.restartTimeout);
+    stream.restartTimeout = undefined;
+  }
+
+  if (ffmpegProcess && ffmpegExited) {
+    await quitFfmpeg(ffmpegProcess, ffmpegExited);
+  }
+  if (!stream.stopped) {
+    spawnStreamProcess(stream);
+  }
+}
+
+/**
+ * Wait for FFmpeg to write the first HLS playlist so players don't start on a 404
+ * @returns Whether the playlist is available
+ */
+async function waitForHlsPlaylist(stream: StreamInfo): Promise<boolean> {
+  const playlistPath = path.join(stream.hlsDir!, 'index.m3u8');
+  const deadline = Date.now() + HLS_STARTUP_TIMEOUT;
   
-  // Store port for this stream
-  setPortForStream(streamId, port);
+  while (Date.now() < deadline && !stream.stopped && stream.state !== 'failed') {
+    if (fs.existsSync(playlistPath)) {
+      return true;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 500));
+  }
   
-  // Return WebSocket URL with proper IP address
-  return formatWsUrl(port);
+  return fs.existsSync(playlistPath);
 }
 
 /**
- * Disconnect an RTSP stream
- * @param rtspUrl The RTSP URL to disconnect
+ * Setup a camera's RTSP stream and serve it on the main HTTP server,
+ * either over WebSocket for JSMpeg or as an HLS playlist
+ * @param cameraId The camera to stream
+ * @param profile The stream profile (main or sub)
+ * @param rtspUrl The RTSP URL for the profile
+ * @param options Output mode and transcode profile
+ * @returns WebSocket path, or playlist path for HLS streams
  */
-export async function disconnectStream(rtspUrl: string): Promise<void> {
-  const streamId = Buffer.from(rtspUrl).toString('base64');
+export async function setupRtspStream(
+  cameraId: number,
+  profile: StreamProfile,
+  rtspUrl: string,
+  options: StreamOptions = {}
+): Promise<string> {
+  const mode = options.mode || 'jsmpeg';
+  const transcodeProfile = options.transcodeProfile || DEFAULT_TRANSCODE_PROFILES[0];
+  const streamId = getStreamKey(cameraId, profile, mode);
+  const streamPath = mode === 'hls' ? getHlsPlaylistPath(cameraId, profile) : getStreamPath(cameraId, profile);
+  
+  // Check if stream already exists
+  const existing = activeStreams.get(streamId);
+  if (existing) {
+    const sameProfile = JSON.stringify(existing.transcodeProfile) === JSON.stringify(transcodeProfile);
+    if (existing.rtspUrl === rtspUrl && sameProfile && existing.state !== 'failed') {
+      // Give the new viewer the full idle timeout to connect
+      if (existing.mode === 'jsmpeg' && existing.clients.size === 0) {
+        scheduleIdleCleanup(existing);
+      }
+      existing.lastAccessAt = Date.now();
+      
+      if (options.recording) {
+        existing.recording = options.recording;
+        await restartStreamProcess(existing);
+      }
+      
+      // Return existing stream path
+      return streamPath;
+    }
+    
+    // The camera URL or transcode profile changed, or the stream gave up, so start over
+    await disconnectStream(cameraId, profile, mode);
+  }
+  
+  const stream: StreamInfo = {
+    cameraId,
+    profile,
+    mode,
+    transcodeProfile,
+    rtspUrl,
+    ffmpegProcess: null,
+    clients: new Set<WebSocket>(),
+    dataTaps: new Set(),
+    lastAccessAt: Date.now(),
+    state: 'starting',
+    stateChangedAt: new Date(),
+    restartAttempts: 0,
+    wentOffline: false,
+    stopped: false,
+    recording: options.recording
+  };
+  
+  if (mode === 'hls') {
+    // Segments are short-lived, so keep them out of the project directory
+    stream.hlsDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), `rtsp-hls-${cameraId}-${profile}-`));
+    
+    stream.idleCheckInterval = setInterval(() => {
+      if (!isStreamWatched(stream)) {
+        console.log('HLS stream idle, cleaning up stream');
+        disconnectStream(cameraId, profile, mode).catch(console.error);
+      }
+    }, HLS_IDLE_CHECK_INTERVAL);
+  } else {
+    // Create WebSocket server; upgrades are routed by attachStreamUpgradeHandler
+    const wsServer = new WebSocketServer({ noServer: true });
+    stream.wsServer = wsServer;
+    
+    // WebSocket connection handler
+    wsServer.on('connection', (ws) => {
+      console.log('WebSocket client connected');
+      
+      // Add client to set
+      stream.clients.add(ws);
+      if (stream.idleTimeout) {
+        clearTimeout(stream.idleTimeout);
+        stream.idleTimeout = undefined;
+      }
+      
+      // Handle client disconnect
+      ws.on('close', () => {
+        console.log('WebSocket client disconnected');
+        stream.clients.delete(ws);
+        
+        // If no clients left, schedule cleanup
+        if (stream.clients.size === 0 && !stream.stopped) {
+          scheduleIdleCleanup(stream);
+        }
+      });
+    });
+    
+    // The client that requested the stream may never connect
+    scheduleIdleCleanup(stream);
+  }
+  
+  // Store stream info and start FFmpeg
+  activeStreams.set(streamId, stream);
+  spawnStreamProcess(stream);
+  
+  if (mode === 'hls' && !(await waitForHlsPlaylist(stream))) {
+    throw new Error(stream.lastError || 'Timed out waiting for HLS playlist');
+  }
+  
+  // Return the path clients connect to
+  return streamPath;
+}
+
+/**
+ * Find a camera's live stream in a mode, preferring the main profile
+ */
+function findLiveStream(cameraId: number, mode: StreamMode): StreamInfo | undefined {
+  const live = Array.from(activeStreams.values())
+    .filter((stream) => stream.cameraId === cameraId && stream.mode === mode && stream.state === 'live');
+  return live.find((stream) => stream.profile === 'main') || live[0];
+}
+
+/**
+ * Copy a stretch of a camera's live JSMpeg output without disturbing its viewers
+ * @param cameraId The camera to read from
+ * @param duration How long to collect output for, in milliseconds
+ * @returns MPEG-TS data, or undefined if no JSMpeg stream is live
+ */
+export async function captureLiveStreamData(cameraId: number, duration: number): Promise<Buffer | undefined> {
+  const stream = findLiveStream(cameraId, 'jsmpeg');
+  if (!stream) {
+    return undefined;
+  }
+
+  const chunks: Buffer[] = [];
+  const tap = (data: Buffer) => { chunks.push(data); };
+  stream.dataTaps.add(tap);
+  await new Promise((resolve) => setTimeout(resolve, duration));
+  stream.dataTaps.delete(tap);
+
+  return chunks.length > 0 ? Buffer.concat(chunks) : undefined;
+}
+
+/**
+ * Get the newest finished segment of a camera's live HLS stream
+ * @param cameraId The camera to read from
+ * @returns Absolute path of the segment, or undefined if no HLS stream is live
+ */
+export function getLatestHlsSegment(cameraId: number): string | undefined {
+  const stream = findLiveStream(cameraId, 'hls');
+  if (!stream?.hlsDir) {
+    return undefined;
+  }
+
+  try {
+    // The playlist only lists segments once they have been written in full
+    const playlist = fs.readFileSync(path.join(stream.hlsDir, 'index.m3u8'), 'utf8');
+    const segment = playlist.split('\n').map((line) => line.trim()).filter((line) => HLS_FILE_PATTERN.test(line)).pop();
+    return segment ? path.join(stream.hlsDir, segment) : undefined;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/**
+ * Get the health of active streams
+ * @param cameraId Optionally limit the result to one camera
+ */
+export function getStreamStatuses(cameraId?: number): StreamStatus[] {
+  return Array.from(activeStreams.values())
+    .filter((stream) => cameraId === undefined || stream.cameraId === cameraId)
+    .map((stream) => ({
+      cameraId: stream.cameraId,
+      profile: stream.profile,
+      mode: stream.mode,
+      state: stream.state,
+      stateChangedAt: stream.stateChangedAt,
+      lastError: stream.lastError,
+      restartAttempts: stream.restartAttempts,
+      clients: stream.clients.size
+    }));
+}
+
+/**
+ * Disconnect a camera's RTSP stream
+ * @param cameraId The camera to disconnect
+ * @param profile The stream profile to disconnect
+ * @param mode The output mode to disconnect
+ */
+export async function disconnectStream(cameraId: number, profile: StreamProfile, mode: StreamMode = 'jsmpeg'): Promise<void> {
+  const streamId = getStreamKey(cameraId, profile, mode);
   
   // Get stream info
   const stream = activeStreams.get(streamId);
@@ -157,8 +708,25 @@ export async function disconnectStream(rtspUrl: string): Promise<void> {
     return;
   }
   
-  // Kill FFmpeg process
-  if (stream.ffmpegProcess) {
+  // Remove from active streams
+  activeStreams.delete(streamId);
+  stream.stopped = true;
+  
+  // Clear any pending cleanup or restart
+  if (stream.idleTimeout) {
+    clearTimeout(stream.idleTimeout);
+  }
+  if (stream.restartTimeout) {
+    clearTimeout(stream.restartTimeout);
+  }
+  if (stream.idleCheckInterval) {
+    clearInterval(stream.idleCheckInterval);
+  }
+  
+  // Kill FFmpeg process, letting it finish the MP4 index first if it is recording
+  if (stream.ffmpegProcess && stream.recording && stream.ffmpegExited) {
+    await quitFfmpeg(stream.ffmpegProcess, stream.ffmpegExited);
+  } else if (stream.ffmpegProcess) {
     stream.ffmpegProcess.kill('SIGKILL');
   }
   
@@ -168,26 +736,243 @@ export async function disconnectStream(rtspUrl: string): Promise<void> {
   });
   
   // Close WebSocket server
-  stream.wsServer.close();
+  stream.wsServer?.close();
   
-  // Remove from active streams
-  activeStreams.delete(streamId);
-  
-  // Clear port mapping
-  clearPortForStream(streamId);
+  // Remove HLS playlist and segments
+  if (stream.hlsDir) {
+    await fs.promises.rm(stream.hlsDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Disconnect every stream of a camera (e.g. when it is deleted)
+ * @param cameraId The camera to disconnect
+ */
+export async function disconnectCameraStreams(cameraId: number): Promise<void> {
+  const streams = Array.from(activeStreams.values()).filter((stream) => stream.cameraId === cameraId);
+  await Promise.all(streams.map((stream) => disconnectStream(stream.cameraId, stream.profile, stream.mode)));
+}
+
+// Directory that server-side recordings are written to
+export const RECORDINGS_DIR = path.join(process.cwd(), 'uploads', 'recordings');
+
+// Store active server-side recordings, keyed by camera ID
+export interface RecordingSession {
+  cameraId: number;
+  fileName: string;
+  outputPath: string;
+  startedAt: Date;
+  viewMode?: string;
+  ffmpegProcess?: ChildProcess; // The stream process writing the file
+  exited: Promise<number | null>;
+}
+
+const activeRecordings = new Map<number, RecordingSession>();
+
+/**
+ * Build the FFmpeg output arguments that record a stream's input to an MP4 file
+ * @param outputPath The file to write
+ */
+function buildRecordingOutputArgs(outputPath: string): string[] {
+  // Copy the video as-is to avoid re-encoding, and make audio MP4-compatible.
+  // Fragmented, so a file cut short by a crash still plays up to its last key frame.
+  return [
+    '-map', '0:v:0',
+    '-map', '0:a?',
+    '-c:v', 'copy',
+    '-c:a', 'aac',
+    '-movflags', '+frag_keyframe+empty_moov+default_base_moof',
+    '-f', 'mp4',
+    '-y',
+    outputPath
+  ];
+}
+
+/**
+ * Start recording a camera's main stream to an MP4 file. The recording is added as a
+ * second output of the live stream's FFmpeg process, starting the stream if nobody is watching.
+ * @param cameraId The camera being recorded
+ * @param rtspUrl The RTSP URL of the main stream
+ * @param fileName The file name to write inside the recordings directory
+ * @param viewMode Optional view mode to store with the recording metadata
+ * @param options Transcode profile for the live output, if the stream has to be started
+ * @returns The new recording session
+ */
+export async function startRecording(
+  cameraId: number,
+  rtspUrl: string,
+  fileName: string,
+  viewMode?: string,
+  options: StreamOptions = {}
+): Promise<RecordingSession> {
+  if (activeRecordings.has(cameraId)) {
+    throw new Error('Camera is already recording');
+  }
+
+  const session: RecordingSession = {
+    cameraId,
+    fileName,
+    outputPath: path.join(RECORDINGS_DIR, fileName),
+    startedAt: new Date(),
+    viewMode,
+    exited: Promise.resolve(null)
+  };
+  activeRecordings.set(cameraId, session);
+
+  try {
+    // Join whichever main stream viewers are using
+    const existing = Array.from(activeStreams.values())
+      .find((stream) => stream.cameraId === cameraId && stream.profile === 'main');
+    await setupRtspStream(cameraId, 'main', rtspUrl, {
+      ...options,
+      mode: options.mode || existing?.mode || 'jsmpeg',
+      recording: session
+    });
+    return session;
+  } catch (error) {
+    activeRecordings.delete(cameraId);
+    const stream = Array.from(activeStreams.values()).find((candidate) => candidate.recording === session);
+    if (stream) {
+      await disconnectStream(stream.cameraId, stream.profile, stream.mode);
+    }
+    throw error;
+  }
 }
 
-// Simple in-memory port storage
-const streamPorts = new Map<string, number>();
+/**
+ * Stop a server-side recording and wait for FFmpeg to finalize the file
+ * @param cameraId The camera whose recording should stop
+ * @returns The finished session, or undefined if the camera was not recording
+ */
+export async function stopRecording(cameraId: number): Promise<RecordingSession | undefined> {
+  const session = activeRecordings.get(cameraId);
+  if (!session) {
+    return undefined;
+  }
+
+  activeRecordings.delete(cameraId);
+
+  const stream = Array.from(activeStreams.values()).find((candidate) => candidate.recording === session);
+  if (stream && stream.mode === 'jsmpeg' && stream.clients.size === 0) {
+    // Nobody is watching, so the stream was only kept up for the recording
+    await disconnectStream(stream.cameraId, stream.profile, stream.mode);
+  } else if (stream) {
+    stream.recording = undefined;
+    await restartStreamProcess(stream);
+  }
+
+  await session.exited;
+  return session;
+}
+
+/**
+ * Store a finished recording's file, with its real duration, size and resolution,
+ * and notify about it
+ * @param session The recording whose FFmpeg process has exited
+ * @returns The stored recording
+ */
+export async function saveRecording(session: RecordingSession): Promise<Recording> {
+  if (!fs.existsSync(session.outputPath)) {
+    throw new Error('Recording produced no output file');
+  }
+
+  // Read the real duration, size and resolution back from the file
+  const info = await probeMediaFile(session.outputPath);
+
+  const recording = await storage.createRecording({
+    cameraId: session.cameraId,
+    fileName: session.fileName,
+    filePath: `/uploads/recordings/${session.fileName}`,
+    duration: info.duration,
+    fileSize: info.fileSize,
+    startedAt: session.startedAt,
+    endedAt: new Date(session.startedAt.getTime() + info.duration * 1000),
+    metadata: {
+      resolution: `${info.width}x${info.height}`,
+      format: 'mp4',
+      fps: info.fps,
+      hasAudio: info.hasAudio,
+      viewMode: session.viewMode || '360'
+    }
+  });
+
+  // Create a notification for the new recording
+  await storage.createNotification({
+    title: "Recording Saved",
+    message: `New recording saved from camera ID: ${recording.cameraId} (${recording.duration}s)`,
+    type: "info",
+    cameraId: recording.cameraId
+  });
 
-function getPortForStream(streamId: string): number {
-  return streamPorts.get(streamId) || 0;
+  return recording;
 }
 
-function setPortForStream(streamId: string, port: number): void {
-  streamPorts.set(streamId, port);
+/**
+ * Get the active recording for a camera, if any
+ * @param cameraId The camera to check
+ */
+export function getActiveRecording(cameraId: number): RecordingSession | undefined {
+  return activeRecordings.get(cameraId);
 }
 
-function clearPortForStream(streamId: string): void {
-  streamPorts.delete(streamId);
+/**
+ * Spawn an FFmpeg process that records an RTSP stream into rolling MP4 segments
+ * @param rtspUrl The RTSP URL to record
+ * @param outputDir Directory the segments are written to
+ * @param filePrefix Prefix for segment file names
+ * @param segmentSeconds Length of each segment in seconds
+ * @param onSegment Called with the absolute path of each completed segment
+ * @returns The FFmpeg process
+ */
+export function spawnSegmentRecorder(
+  rtspUrl: string,
+  outputDir: string,
+  filePrefix: string,
+  segmentSeconds: number,
+  onSegment: (segmentPath: string) => void
+): ChildProcess {
+  const ffmpegArgs = [
+    '-rtsp_transport', 'tcp',
+    '-i', rtspUrl,
+    '-map', '0:v:0',
+    '-map', '0:a?',
+    '-c:v', 'copy',
+    '-c:a', 'aac',
+    '-f', 'segment',
+    '-segment_time', String(segmentSeconds),
+    '-segment_format', 'mp4',
+    // Put the MP4 index first so playback can start and seek before the whole segment loads
+    '-segment_format_options', 'movflags=+faststart',
+    '-reset_timestamps', '1',
+    '-strftime', '1',
+    // Completed segment names are listed on stdout as they are closed
+    '-segment_list', 'pipe:1',
+    '-segment_list_type', 'flat',
+    path.join(outputDir, `${filePrefix}_%Y-%m-%dT%H-%M-%S.mp4`)
+  ];
+
+  const ffmpegProcess = spawn('ffmpeg', ffmpegArgs, {
+    shell: false,
+    stdio: ['ignore', 'pipe', 'pipe']
+  });
+
+  let pending = '';
+  ffmpegProcess.stdout?.on('data', (data: Buffer) => {
+    pending += data.toString();
+    const lines = pending.split('\n');
+    pending = lines.pop() || '';
+    
+    for (const line of lines) {
+      const name = line.trim();
+      if (name) {
+        onSegment(path.join(outputDir, path.basename(name)));
+      }
+    }
+  });
+
+  ffmpegProcess.stderr?.on('data', (data: Buffer) => {
+    console.log(`FFmpeg segmenter [${filePrefix}]: ${redactUrlCredentials(data.toString())}`);
+  });
+
+  return ffmpegProcess;
 }
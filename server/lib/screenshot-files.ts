@@ -0,0 +1,135 @@
+import { spawn } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import type { Screenshot } from '@shared/schema';
+
+export const SCREENSHOTS_DIR = path.join(process.cwd(), 'uploads', 'screenshots');
+const THUMBNAILS_DIR = path.join(SCREENSHOTS_DIR, 'thumbnails');
+const THUMBNAIL_WIDTH = 320;
+
+export interface ImageInfo {
+  format: 'jpeg' | 'png';
+  width: number;
+  height: number;
+}
+
+/**
+ * Read the format and size of a JPEG or PNG image from its header
+ * @param data The image bytes
+ * @returns The image details, or null if the data is not a JPEG or PNG image
+ */
+export function readImageInfo(data: Buffer): ImageInfo | null {
+  // PNG: signature, then the IHDR chunk holding width and height
+  if (data.length >= 24 && data.readUInt32BE(0) === 0x89504e47 && data.toString('ascii', 12, 16) === 'IHDR') {
+    return { format: 'png', width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+
+  // JPEG: walk the segments until a start-of-frame marker
+  if (data.length < 4 || data[0] !== 0xff || data[1] !== 0xd8) {
+    return null;
+  }
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) {
+      return null;
+    }
+    const marker = data[offset + 1];
+    const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+    if (isStartOfFrame) {
+      return { format: 'jpeg', width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+    }
+    offset += 2 + data.readUInt16BE(offset + 2);
+  }
+
+  return null;
+}
+
+/**
+ * Absolute path of a stored screenshot image
+ * @param fileName The screenshot's file name; any directory part is ignored
+ */
+export function getScreenshotPath(fileName: string): string {
+  return path.join(SCREENSHOTS_DIR, path.basename(fileName));
+}
+
+/**
+ * Write an uploaded screenshot image to the screenshots directory without overwriting
+ * an existing file; names taken in the same second get a numbered suffix
+ * @param fileName Server-generated file name
+ * @param data The image bytes
+ * @returns The file name that was written
+ */
+export async function saveScreenshotFile(fileName: string, data: Buffer): Promise<string> {
+  await fs.promises.mkdir(SCREENSHOTS_DIR, { recursive: true });
+  const { name, ext } = path.parse(path.basename(fileName));
+
+  for (let attempt = 0; ; attempt++) {
+    const candidate = attempt === 0 ? `${name}${ext}` : `${name}_${attempt}${ext}`;
+    try {
+      await fs.promises.writeFile(getScreenshotPath(candidate), data, { flag: 'wx' });
+      return candidate;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST' || attempt >= 100) {
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * Scale a stored screenshot down to a JPEG thumbnail using FFmpeg
+ * @param fileName The screenshot's file name
+ * @returns The URL the thumbnail is served under
+ */
+export async function createScreenshotThumbnail(fileName: string): Promise<string> {
+  const baseName = path.basename(fileName);
+  // Keep the original extension so a .png and a .jpg of the same name get separate thumbnails
+  const thumbnailName = `${baseName}.jpg`;
+  await fs.promises.mkdir(THUMBNAILS_DIR, { recursive: true });
+
+  await new Promise<void>((resolve, reject) => {
+    const ffmpeg = spawn('ffmpeg', [
+      '-v', 'error',
+      '-i', getScreenshotPath(baseName),
+      '-vf', `scale=${THUMBNAIL_WIDTH}:-2`,
+      '-frames:v', '1',
+      '-q:v', '5',
+      '-y',
+      path.join(THUMBNAILS_DIR, thumbnailName)
+    ], { shell: false });
+
+    let stderr = '';
+    ffmpeg.stderr.on('data', (data: Buffer) => { stderr = (stderr + data.toString()).slice(-4096); });
+    ffmpeg.on('error', reject);
+    ffmpeg.on('close', (code: number) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`FFmpeg failed to create thumbnail with code ${code}: ${stderr.trim()}`));
+      }
+    });
+  });
+
+  return `/uploads/screenshots/thumbnails/${thumbnailName}`;
+}
+
+/**
+ * Remove a screenshot's image and thumbnail from disk. Files that are already gone are ignored.
+ * @param screenshot The screenshot being deleted
+ */
+export async function deleteScreenshotFiles(screenshot: Screenshot): Promise<void> {
+  const files = [getScreenshotPath(screenshot.fileName)];
+  if (screenshot.thumbnailUrl) {
+    files.push(path.join(THUMBNAILS_DIR, path.basename(screenshot.thumbnailUrl)));
+  }
+
+  await Promise.all(files.map(async (file) => {
+    try {
+      await fs.promises.unlink(file);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }));
+}
@@ -0,0 +1,103 @@
+import path from 'path';
+import { DEFAULT_TRANSCODE_PROFILES, type Camera, type TranscodeProfile } from '@shared/schema';
+import { buildSourceInputArgs, type StreamMode } from './rtsp-stream';
+
+/**
+ * List the transcode profiles available to a camera: the built-in ones followed by its own
+ * @param camera The camera to list profiles for
+ */
+export function getTranscodeProfiles(camera: Camera): TranscodeProfile[] {
+  return [...DEFAULT_TRANSCODE_PROFILES, ...(camera.settings?.transcodeProfiles || [])];
+}
+
+/**
+ * Find a transcode profile by name among the profiles available to a camera
+ * @param camera The camera to look in
+ * @param name The profile name
+ * @returns The profile, or undefined if the camera has no profile with that name
+ */
+export function findTranscodeProfile(camera: Camera, name: string): TranscodeProfile | undefined {
+  return getTranscodeProfiles(camera).find((profile) => profile.name === name);
+}
+
+/**
+ * Get a camera's active transcode profile, falling back to the standard profile
+ * @param camera The camera being streamed
+ */
+export function resolveTranscodeProfile(camera: Camera): TranscodeProfile {
+  const name = camera.settings?.transcodeProfile;
+  return (name && findTranscodeProfile(camera, name)) || DEFAULT_TRANSCODE_PROFILES[0];
+}
+
+/**
+ * Build the FFmpeg arguments for a live stream from a transcode profile
+ * @param rtspUrl The RTSP URL to read
+ * @param profile The transcode profile to apply
+ * @param mode The output mode; JSMpeg always receives MPEG1 video over stdout
+ * @param hlsDir Directory to write the playlist and segments to (HLS only)
+ * @returns FFmpeg argument list
+ */
+export function buildTranscodeArgs(
+  rtspUrl: string,
+  profile: TranscodeProfile,
+  mode: StreamMode,
+  hlsDir?: string
+): string[] {
+  const inputArgs = buildSourceInputArgs(rtspUrl, { rtspTransport: profile.rtspTransport });
+  const scaleArgs = profile.resolution ? ['-s', profile.resolution] : [];
+  const rateArgs = ['-b:v', `${profile.bitrate}k`, '-r', String(profile.fps)];
+
+  if (mode === 'hls') {
+    if (!hlsDir) {
+      throw new Error('HLS output requires a segment directory');
+    }
+
+    // Copy the camera's H.264 as-is where possible; transcoding costs CPU
+    // but works for cameras that send H.265 or MJPEG
+    const videoArgs = profile.codec === 'copy'
+      ? ['-c:v', 'copy']
+      : [
+        '-c:v', 'libx264',
+        '-preset', 'veryfast',
+        '-tune', 'zerolatency',
+        '-pix_fmt', 'yuv420p',
+        ...scaleArgs,
+        ...rateArgs,
+        '-g', String(profile.fps * 2) // Keyframe every 2 seconds to match the segment length
+      ];
+
+    return [
+      ...inputArgs,
+      ...videoArgs,
+      ...(profile.audio ? ['-c:a', 'aac'] : ['-an']), // Browsers cannot play most camera audio codecs
+      '-f', 'hls',
+      '-hls_time', '2', // Segment length in seconds
+      '-hls_list_size', '6', // Segments kept in the live playlist
+      '-hls_flags', 'delete_segments+omit_endlist',
+      '-hls_start_number_source', 'epoch', // Keep segment numbers increasing across restarts
+      '-hls_segment_filename', path.join(hlsDir, 'segment_%d.ts'),
+      path.join(hlsDir, 'index.m3u8')
+    ];
+  }
+
+  // Convert RTSP to MPEG-TS for JSMpeg
+  return [
+    ...inputArgs,
+    '-f', 'mpegts',
+    '-codec:v', 'mpeg1video',
+    ...scaleArgs,
+    ...rateArgs,
+    '-bf', '0', // No B-frames for lower latency
+    '-q:v', '3', // Quality (1-31, where 1 is best)
+    ...(profile.audio
+      ? [
+        '-codec:a', 'mp2',
+        '-ar', '44100', // Audio sample rate
+        '-ac', '1', // Audio channels
+        '-b:a', '128k' // Audio bitrate
+      ]
+      : ['-an']),
+    '-muxdelay', '0.001', // Low muxing delay
+    'pipe:1' // Output to stdout
+  ];
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import { spawnSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { RTCPeerConnection, useH264 } from 'werift';
+import { createWhepSession, deleteWhepSession } from './webrtc-stream';
+
+const hasFfmpeg = spawnSync('ffmpeg', ['-version']).status === 0;
+
+/**
+ * Create a headless viewer and its WHEP offer
+ */
+async function createViewer(): Promise<{ viewer: RTCPeerConnection; offer: string }> {
+  const viewer = new RTCPeerConnection({ codecs: { video: [useH264()] } });
+  viewer.addTransceiver('video', { direction: 'recvonly' });
+  await viewer.setLocalDescription(await viewer.createOffer());
+  return { viewer, offer: viewer.localDescription!.sdp };
+}
+
+describe.skipIf(!hasFfmpeg)('WHEP sessions', () => {
+  const viewers: RTCPeerConnection[] = [];
+  let workDir: string;
+  let sourcePath: string;
+
+  // A test pattern video file stands in for the camera
+  beforeAll(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'webrtc-test-'));
+    sourcePath = path.join(workDir, 'source.mp4');
+    const result = spawnSync('ffmpeg', [
+      '-f', 'lavfi', '-i', 'testsrc=size=320x240:rate=15:duration=30',
+      '-c:v', 'libx264', '-preset', 'ultrafast', '-pix_fmt', 'yuv420p', '-y', sourcePath
+    ]);
+    expect(result.status).toBe(0);
+  });
+
+  afterAll(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await Promise.all(viewers.splice(0).map((viewer) => viewer.close()));
+  });
+
+  it('streams H.264 RTP from the source to a viewer', async () => {
+    const { viewer, offer } = await createViewer();
+    viewers.push(viewer);
+
+    const received = new Promise<number>((resolve) => {
+      viewer.onTrack.subscribe((track) => {
+        track.onReceiveRtp.once((packet) => resolve(packet.header.payloadType));
+      });
+    });
+
+    const answer = await createWhepSession(1, 'main', sourcePath, offer);
+    await viewer.setRemoteDescription({ type: 'answer', sdp: answer.sdp });
+
+    expect(answer.sdp).toMatch(/h264\/90000/i);
+    expect(await received).toBeGreaterThan(0);
+    expect(await deleteWhepSession(answer.sessionId)).toBe(true);
+    expect(await deleteWhepSession(answer.sessionId)).toBe(false);
+  });
+
+  it('closes sessions whose viewer never connects', async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    const { viewer, offer } = await createViewer();
+    viewers.push(viewer);
+
+    // The answer is never given to the viewer, so the connection stays new
+    const answer = await createWhepSession(2, 'main', sourcePath, offer);
+    await vi.advanceTimersByTimeAsync(15000);
+
+    expect(await deleteWhepSession(answer.sessionId)).toBe(false);
+  });
+});
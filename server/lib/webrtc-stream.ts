@@ -0,0 +1,252 @@
+import { spawn, type ChildProcess } from 'child_process';
+import dgram from 'dgram';
+import { randomUUID } from 'crypto';
+import { RTCPeerConnection, MediaStreamTrack, useH264 } from 'werift';
+import { buildSourceInputArgs, parseFfmpegError, type StreamProfile } from './rtsp-stream';
+
+// Restart backoff while viewers are still connected: 1s, 2s, 4s ... capped at 30s
+const SOURCE_RESTART_BASE_DELAY = 1000;
+const SOURCE_RESTART_MAX_DELAY = 30000;
+
+// Close sessions whose viewer never completes the connection, e.g. after a lost answer
+const SESSION_CONNECT_TIMEOUT = 15000;
+
+// Store FFmpeg RTP sources, keyed by camera ID and profile. One source feeds every
+// WebRTC viewer of a camera profile.
+interface RtpSource {
+  key: string;
+  sourceUrl: string;
+  socket: dgram.Socket;
+  track: MediaStreamTrack;
+  ffmpegProcess?: ChildProcess;
+  restartTimeout?: NodeJS.Timeout;
+  restartAttempts: number; // Reset once FFmpeg sends packets again
+  sessions: Set<string>;
+  lastError?: string;
+  stopped: boolean;
+}
+
+// Store WHEP sessions, keyed by session ID
+interface WhepSession {
+  id: string;
+  cameraId: number;
+  profile: StreamProfile;
+  pc: RTCPeerConnection;
+  source: RtpSource;
+  connectTimeout?: NodeJS.Timeout;
+}
+
+export interface WhepAnswer {
+  sessionId: string;
+  sdp: string;
+}
+
+const rtpSources = new Map<string, RtpSource>();
+const whepSessions = new Map<string, WhepSession>();
+
+/**
+ * Spawn (or respawn) FFmpeg to send a source as H.264 RTP to its local UDP socket
+ */
+function spawnRtpSource(source: RtpSource): void {
+  const { port } = source.socket.address();
+
+  // WebRTC needs constrained baseline H.264 without B-frames, so always re-encode.
+  // A short GOP lets new viewers start within a second.
+  const ffmpegArgs = [
+    ...buildSourceInputArgs(source.sourceUrl),
+    '-an',
+    '-c:v', 'libx264',
+    '-preset', 'ultrafast',
+    '-tune', 'zerolatency',
+    '-profile:v', 'baseline',
+    '-pix_fmt', 'yuv420p',
+    '-bf', '0',
+    '-g', '30',
+    '-f', 'rtp',
+    '-payload_type', '96',
+    `rtp://127.0.0.1:${port}?pkt_size=1200`
+  ];
+
+  const ffmpegProcess = spawn('ffmpeg', ffmpegArgs, { shell: false });
+  source.ffmpegProcess = ffmpegProcess;
+
+  let stderrTail = '';
+  ffmpegProcess.stderr.on('data', (data: Buffer) => {
+    stderrTail = (stderrTail + data.toString()).slice(-4096);
+  });
+
+  ffmpegProcess.on('error', (err: Error) => {
+    stderrTail += `\nFailed to start FFmpeg: ${err.message}`;
+  });
+
+  ffmpegProcess.on('close', (code: number | null) => {
+    if (source.stopped || source.ffmpegProcess !== ffmpegProcess) {
+      return;
+    }
+
+    source.lastError = parseFfmpegError(stderrTail) || `FFmpeg exited with code ${code}`;
+    const delay = Math.min(SOURCE_RESTART_BASE_DELAY * 2 ** source.restartAttempts, SOURCE_RESTART_MAX_DELAY);
+    source.restartAttempts++;
+    console.log(`WebRTC source [${source.key}] exited: ${source.lastError}, restarting in ${delay}ms`);
+
+    source.restartTimeout = setTimeout(() => {
+      source.restartTimeout = undefined;
+      if (!source.stopped) {
+        spawnRtpSource(source);
+      }
+    }, delay);
+  });
+}
+
+/**
+ * Get the running RTP source for a camera profile, starting one if needed
+ */
+async function getRtpSource(cameraId: number, profile: StreamProfile, sourceUrl: string): Promise<RtpSource> {
+  const key = `${cameraId}:${profile}`;
+  const existing = rtpSources.get(key);
+  if (existing && existing.sourceUrl === sourceUrl) {
+    return existing;
+  }
+
+  // The camera URL changed, so move viewers off the old source
+  if (existing) {
+    await Promise.all(Array.from(existing.sessions).map((id) => deleteWhepSession(id)));
+  }
+
+  const socket = dgram.createSocket('udp4');
+  await new Promise<void>((resolve, reject) => {
+    socket.once('error', reject);
+    socket.bind(0, '127.0.0.1', () => {
+      socket.off('error', reject);
+      resolve();
+    });
+  });
+
+  const source: RtpSource = {
+    key,
+    sourceUrl,
+    socket,
+    track: new MediaStreamTrack({ kind: 'video' }),
+    restartAttempts: 0,
+    sessions: new Set<string>(),
+    stopped: false
+  };
+
+  // Forward FFmpeg's RTP packets to every peer connection sharing the track
+  socket.on('message', (packet: Buffer) => {
+    source.restartAttempts = 0;
+    source.track.writeRtp(packet);
+  });
+
+  rtpSources.set(key, source);
+  spawnRtpSource(source);
+  return source;
+}
+
+/**
+ * Stop an RTP source once its last viewer has left
+ */
+function releaseRtpSource(source: RtpSource): void {
+  if (source.sessions.size > 0 || source.stopped) {
+    return;
+  }
+
+  source.stopped = true;
+  if (rtpSources.get(source.key) === source) {
+    rtpSources.delete(source.key);
+  }
+  if (source.restartTimeout) {
+    clearTimeout(source.restartTimeout);
+  }
+  source.ffmpegProcess?.kill('SIGKILL');
+  source.track.stop();
+  source.socket.close();
+}
+
+/**
+ * Answer a WHEP offer for a camera stream
+ * @param cameraId The camera to stream
+ * @param profile The stream profile
+ * @param sourceUrl The RTSP URL for the profile
+ * @param offerSdp The viewer's SDP offer
+ * @returns The session ID and SDP answer
+ */
+export async function createWhepSession(
+  cameraId: number,
+  profile: StreamProfile,
+  sourceUrl: string,
+  offerSdp: string
+): Promise<WhepAnswer> {
+  const source = await getRtpSource(cameraId, profile, sourceUrl);
+  const pc = new RTCPeerConnection({
+    codecs: { video: [useH264()] }
+  });
+
+  const session: WhepSession = {
+    id: randomUUID(),
+    cameraId,
+    profile,
+    pc,
+    source
+  };
+
+  whepSessions.set(session.id, session);
+  source.sessions.add(session.id);
+
+  pc.connectionStateChange.subscribe((state) => {
+    if (state === 'connected' && session.connectTimeout) {
+      clearTimeout(session.connectTimeout);
+      session.connectTimeout = undefined;
+    }
+    if (state === 'failed' || state === 'closed') {
+      deleteWhepSession(session.id).catch(console.error);
+    }
+  });
+
+  session.connectTimeout = setTimeout(() => {
+    console.log(`WebRTC session [${session.id}] did not connect in time, closing`);
+    deleteWhepSession(session.id).catch(console.error);
+  }, SESSION_CONNECT_TIMEOUT);
+
+  try {
+    pc.addTransceiver(source.track, { direction: 'sendonly' });
+    await pc.setRemoteDescription({ type: 'offer', sdp: offerSdp });
+    await pc.setLocalDescription(await pc.createAnswer());
+  } catch (error) {
+    await deleteWhepSession(session.id);
+    throw error;
+  }
+
+  // Candidates are gathered before setLocalDescription resolves, so the answer is complete
+  return { sessionId: session.id, sdp: pc.localDescription!.sdp };
+}
+
+/**
+ * End a WHEP session
+ * @param sessionId The session to end
+ * @returns Whether the session existed
+ */
+export async function deleteWhepSession(sessionId: string): Promise<boolean> {
+  const session = whepSessions.get(sessionId);
+  if (!session) {
+    return false;
+  }
+
+  whepSessions.delete(sessionId);
+  session.source.sessions.delete(sessionId);
+  if (session.connectTimeout) {
+    clearTimeout(session.connectTimeout);
+  }
+  await session.pc.close();
+  releaseRtpSource(session.source);
+  return true;
+}
+
+/**
+ * End every WebRTC session of a camera (e.g. when it is deleted)
+ * @param cameraId The camera to disconnect
+ */
+export async function closeCameraWhepSessions(cameraId: number): Promise<void> {
+  const sessions = Array.from(whepSessions.values()).filter((session) => session.cameraId === cameraId);
+  await Promise.all(sessions.map((session) => deleteWhepSession(session.id)));
+}
@@ -1,14 +1,47 @@
-import express, { type Express } from "express";
+import express, { type Express, type Request, type Response, type NextFunction } from "express";
+import multer from "multer";
+import archiver from "archiver";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { setupRtspStream, disconnectStream } from "./lib/rtsp-stream";
-import { insertNotificationSchema, insertCameraSchema, insertScreenshotSchema, insertRecordingSchema } from "@shared/schema";
+import { 
+  setupAuth, 
+  requireAuth, 
+  requirePermission, 
+  requireCameraAccess, 
+  canAccessCamera, 
+  getAccessibleCameraIds, 
+  isUpgradeAuthorized, 
+  toPublicUser 
+} from "./auth";
+import { 
+  setupRtspStream, 
+  disconnectCameraStreams,
+  resolveStreamUrl,
+  getStreamStatuses,
+  getHlsFilePath,
+  attachStreamUpgradeHandler,
+  startRecording, 
+  stopRecording, 
+  saveRecording,
+  getActiveRecording 
+} from "./lib/rtsp-stream";
+import { createWhepSession, deleteWhepSession, closeCameraWhepSessions } from "./lib/webrtc-stream";
+import { resolveTranscodeProfile, findTranscodeProfile } from "./lib/transcode-profiles";
+import { encryptRtspCredentials, encryptOnvifCredentials, decryptSecret, getOnvifCredentials, movesSavedPassword, toPublicCamera } from "./lib/camera-credentials";
+import { syncContinuousRecording, stopContinuousRecording } from "./lib/continuous-recording";
+import { syncMotionDetection, stopMotionDetection, getMotionStatus } from "./lib/motion-detection";
+import { getCameraSnapshot, getCameraHealth } from "./lib/camera-snapshot";
+import { getScreenshotPath, readImageInfo, saveScreenshotFile, createScreenshotThumbnail, deleteScreenshotFiles } from "./lib/screenshot-files";
+import { insertNotificationSchema, insertCameraSchema, transcodeSettingsSchema, motionSettingsSchema, recordingSettingsSchema, insertUserPreferencesSchema, USER_ROLES, type Camera } from "@shared/schema";
 import { z } from "zod";
 import { getIpAddress } from "./lib/network-utils";
-import { runNetworkDiagnostics, getConnectionSuggestions } from "./lib/network-diagnostics";
+import { runNetworkDiagnostics, getConnectionSuggestions, isRtspEndpoint, networkDiagnosticsRequestSchema, portSchema, type RtspProbeTarget } from "./lib/network-diagnostics";
+import { discoverCameras, DEFAULT_DISCOVERY_TIMEOUT } from "./lib/camera-discovery";
+import { queryOnvifDevice } from "./lib/onvif-client";
+import { continuousMove, stopMove, getPresets, setPreset, gotoPreset, type PtzTarget } from "./lib/onvif-ptz";
 import path from "path";
 import fs from "fs";
-import { maskRtspUrl } from "../client/src/lib/camera-utils";
+import { maskRtspUrl, parseRtspUrl, getOnvifStreamUrl, getRecordingFilename, getScreenshotFilename } from "../client/src/lib/camera-utils";
 
 // Create uploads directory structure if it doesn't exist
 const uploadDirs = ['uploads', 'uploads/recordings', 'uploads/screenshots'];
@@ -19,11 +52,42 @@ uploadDirs.forEach(dir => {
 });
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Sessions and the register/login/logout routes, which stay public
+  setupAuth(app);
+  
+  // Everything else under the API, live streams and stored media requires login
+  app.use(['/api', '/hls', '/uploads'], requireAuth);
+  
+  // Non-admins only see the cameras they have been granted
+  const cameraAccess = requireCameraAccess((req) => parseInt(req.params.id));
+  const bodyCameraAccess = requireCameraAccess((req) => Number(req.body?.cameraId));
+  
+  /**
+   * Drop items belonging to cameras the logged-in user cannot see
+   */
+  async function filterByCameraAccess<T extends { cameraId: number }>(user: Express.User, items: T[]): Promise<T[]> {
+    const allowed = await getAccessibleCameraIds(user);
+    return allowed ? items.filter((item) => allowed.includes(item.cameraId)) : items;
+  }
+  
+  /**
+   * Whether the logged-in user may see a notification. Notifications without a camera
+   * are system-wide, so only users who can see every camera get them.
+   */
+  async function canAccessNotification(user: Express.User, cameraId: number | null | undefined): Promise<boolean> {
+    if (cameraId === null || cameraId === undefined) {
+      return (await getAccessibleCameraIds(user)) === null;
+    }
+    return canAccessCamera(user, cameraId);
+  }
+
   // Camera management API Routes
   app.get('/api/cameras', async (req, res) => {
     try {
       const cameras = await storage.getCameras();
-      res.json(cameras);
+      const allowed = await getAccessibleCameraIds(req.user!);
+      const visible = allowed ? cameras.filter((camera) => allowed.includes(camera.id)) : cameras;
+      res.json(visible.map(toPublicCamera));
     } catch (error) {
       console.error('Error fetching cameras:', error);
       res.status(500).json({ 
@@ -32,48 +96,73 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/cameras/:id', async (req, res) => {
+  app.get('/api/cameras/default', async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const camera = await storage.getCamera(id);
+      let camera = await storage.getDefaultCamera();
+      
+      // Fall back to the first granted camera if the default is not visible to this user
+      if (camera && !(await canAccessCamera(req.user!, camera.id))) {
+        const allowed = await getAccessibleCameraIds(req.user!);
+        const cameras = await storage.getCameras();
+        camera = cameras.find((c) => allowed?.includes(c.id));
+      }
       
       if (!camera) {
-        return res.status(404).json({ message: 'Camera not found' });
+        return res.status(404).json({ message: 'No default camera found' });
       }
       
-      res.json(camera);
+      res.json(toPublicCamera(camera));
     } catch (error) {
-      console.error('Error fetching camera:', error);
+      console.error('Error fetching default camera:', error);
       res.status(500).json({ 
-        message: error instanceof Error ? error.message : 'Failed to fetch camera' 
+        message: error instanceof Error ? error.message : 'Failed to fetch default camera' 
       });
     }
   });
 
-  app.get('/api/cameras/default', async (req, res) => {
+  // Reachability of each visible camera, for the camera list
+  app.get('/api/cameras/health', async (req, res) => {
+    try {
+      const cameras = await storage.getCameras();
+      const allowed = await getAccessibleCameraIds(req.user!);
+      const visible = allowed ? cameras.filter((camera) => allowed.includes(camera.id)) : cameras;
+      res.json(visible.map((camera) => getCameraHealth(camera.id)));
+    } catch (error) {
+      console.error('Error fetching camera health:', error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : 'Failed to fetch camera health' 
+      });
+    }
+  });
+
+  app.get('/api/cameras/:id', cameraAccess, async (req, res) => {
     try {
-      const camera = await storage.getDefaultCamera();
+      const id = parseInt(req.params.id);
+      const camera = await storage.getCamera(id);
       
       if (!camera) {
-        return res.status(404).json({ message: 'No default camera found' });
+        return res.status(404).json({ message: 'Camera not found' });
       }
       
-      res.json(camera);
+      res.json(toPublicCamera(camera));
     } catch (error) {
-      console.error('Error fetching default camera:', error);
+      console.error('Error fetching camera:', error);
       res.status(500).json({ 
-        message: error instanceof Error ? error.message : 'Failed to fetch default camera' 
+        message: error instanceof Error ? error.message : 'Failed to fetch camera' 
       });
     }
   });
 
-  app.post('/api/cameras', async (req, res) => {
+  app.post('/api/cameras', requirePermission('cameras:manage'), async (req, res) => {
     try {
       // Validate camera data
       const validatedData = insertCameraSchema.parse(req.body);
       
-      // Create the camera
-      const camera = await storage.createCamera(validatedData);
+      // Create the camera, storing its credentials encrypted
+      const camera = await storage.createCamera({
+        ...validatedData,
+        ...encryptRtspCredentials(validatedData.rtspUrl)
+      });
       
       // Create a notification for the new camera
       await storage.createNotification({
@@ -82,7 +171,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         type: "info"
       });
       
-      res.status(201).json(camera);
+      res.status(201).json(toPublicCamera(camera));
     } catch (error) {
       console.error('Error creating camera:', error);
       
@@ -99,10 +188,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch('/api/cameras/:id', async (req, res) => {
+  // Only the fields a camera is created with can be edited; credentials are set through
+  // the URL and ONVIF details through the ONVIF routes, so both are stored encrypted
+  const updateCameraSchema = insertCameraSchema.partial().strict();
+
+  app.patch('/api/cameras/:id', requirePermission('cameras:manage'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const updateData = req.body;
+      const updateData: Partial<Camera> = updateCameraSchema.parse(req.body);
+      
+      if (typeof updateData.rtspUrl === 'string') {
+        const existing = await storage.getCamera(id);
+        if (!existing) {
+          return res.status(404).json({ message: 'Camera not found' });
+        }
+        if (movesSavedPassword(updateData.rtspUrl, existing)) {
+          return res.status(400).json({ message: 'Enter the password again when changing the camera\'s address' });
+        }
+        Object.assign(updateData, encryptRtspCredentials(updateData.rtspUrl, existing));
+
+        // ONVIF profiles describe the old device once the camera moves to another host
+        if (existing.onvif && parseRtspUrl(updateData.rtspUrl).ip !== parseRtspUrl(existing.rtspUrl).ip) {
+          updateData.onvif = null;
+        }
+      }
       
       // Update the camera
       const camera = await storage.updateCamera(id, updateData);
@@ -111,6 +220,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'Camera not found' });
       }
       
+      // Restart or stop continuous recording and motion detection if the URL or active state changed
+      syncContinuousRecording(camera);
+      syncMotionDetection(camera);
+      
       // Create a notification for the camera update
       await storage.createNotification({
         title: "Camera Updated",
@@ -119,19 +232,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
         cameraId: camera.id
       });
       
-      res.json(camera);
+      res.json(toPublicCamera(camera));
     } catch (error) {
       console.error('Error updating camera:', error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: 'Invalid camera data', 
+          errors: error.errors 
+        });
+      }
+      
       res.status(500).json({ 
         message: error instanceof Error ? error.message : 'Failed to update camera' 
       });
     }
   });
 
-  app.patch('/api/cameras/:id/settings', async (req, res) => {
+  app.patch('/api/cameras/:id/settings', requirePermission('cameras:configure'), cameraAccess, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const settings = req.body;
+      const transcodeSettings = transcodeSettingsSchema.parse(settings);
+      motionSettingsSchema.parse(settings);
+      recordingSettingsSchema.parse(settings);
+      
+      const existing = await storage.getCamera(id);
+      if (!existing) {
+        return res.status(404).json({ message: 'Camera not found' });
+      }
+      
+      // The active transcode profile must exist once the update is applied
+      if (transcodeSettings.transcodeProfile) {
+        const merged = {
+          ...existing,
+          settings: { ...existing.settings!, transcodeProfiles: transcodeSettings.transcodeProfiles ?? existing.settings?.transcodeProfiles }
+        };
+        if (!findTranscodeProfile(merged, transcodeSettings.transcodeProfile)) {
+          return res.status(400).json({ message: `Unknown transcode profile: ${transcodeSettings.transcodeProfile}` });
+        }
+      }
       
       // Update the camera settings
       const camera = await storage.updateCameraSettings(id, settings);
@@ -140,6 +280,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'Camera not found' });
       }
       
+      // Apply any continuous recording and motion detection changes
+      syncContinuousRecording(camera);
+      syncMotionDetection(camera);
+      
       // Create a notification for the settings update
       await storage.createNotification({
         title: "Camera Settings Updated",
@@ -148,16 +292,238 @@ export async function registerRoutes(app: Express): Promise<Server> {
         cameraId: camera.id
       });
       
-      res.json(camera);
+      res.json(toPublicCamera(camera));
     } catch (error) {
       console.error('Error updating camera settings:', error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: 'Invalid camera settings', 
+          errors: error.errors 
+        });
+      }
+      
       res.status(500).json({ 
         message: error instanceof Error ? error.message : 'Failed to update camera settings' 
       });
     }
   });
 
-  app.delete('/api/cameras/:id', async (req, res) => {
+  // Query a camera's ONVIF service for its device details and stream profiles
+  const onvifQuerySchema = z.object({
+    deviceUrl: z.string().url().regex(/^https?:\/\//i, 'ONVIF device URL must use http or https').optional(),
+    username: z.string().max(128).optional(),
+    password: z.string().max(128).optional(),
+    applyStreams: z.boolean().default(true), // Switch the camera to the main profile's stream
+  });
+
+  app.post('/api/cameras/:id/onvif', requirePermission('cameras:manage'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { deviceUrl, username, password, applyStreams } = onvifQuerySchema.parse(req.body ?? {});
+      
+      const existing = await storage.getCamera(id);
+      if (!existing) {
+        return res.status(404).json({ message: 'Camera not found' });
+      }
+      
+      // ONVIF cameras usually share their RTSP account and serve ONVIF on port 80
+      const host = parseRtspUrl(existing.rtspUrl).ip;
+      const onvifUrl = deviceUrl || existing.onvif?.deviceUrl || (host && `http://${host}/onvif/device_service`);
+      if (!onvifUrl) {
+        return res.status(400).json({ message: 'Camera has no host to query; provide the ONVIF device URL' });
+      }
+      
+      // Credentials given here are saved for later queries and PTZ; without them the
+      // account saved by an earlier query is used, or else the camera's RTSP account
+      const credentials = username ? { username, password } : getOnvifCredentials(existing);
+      const savedCredentials = username
+        ? encryptOnvifCredentials(credentials)
+        : { username: existing.onvif?.username, password: existing.onvif?.password };
+      
+      const onvif = { ...(await queryOnvifDevice(onvifUrl, credentials)), ...savedCredentials };
+      const mainStreamUrl = getOnvifStreamUrl({ onvif }, 'high');
+      
+      const camera = await storage.updateCamera(id, {
+        onvif,
+        ...(applyStreams && mainStreamUrl ? { rtspUrl: mainStreamUrl } : {})
+      });
+      
+      if (!camera) {
+        return res.status(404).json({ message: 'Camera not found' });
+      }
+      
+      syncContinuousRecording(camera);
+      syncMotionDetection(camera);
+      
+      await storage.createNotification({
+        title: "ONVIF Device Queried",
+        message: `Found ${onvif.profiles.length} stream profile${onvif.profiles.length === 1 ? '' : 's'} on camera: ${camera.name}`,
+        type: "info",
+        cameraId: camera.id
+      });
+      
+      res.json(toPublicCamera(camera));
+    } catch (error) {
+      console.error('Error querying ONVIF device:', error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: 'Invalid ONVIF request',
+          errors: error.errors 
+        });
+      }
+      
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : 'Failed to query ONVIF device' 
+      });
+    }
+  });
+
+  // Choose which of the camera's ONVIF profiles to use as main and sub stream
+  const onvifProfilesSchema = z.object({
+    mainProfileToken: z.string().min(1).optional(),
+    subProfileToken: z.string().min(1).nullable().optional(), // null falls back to the guessed sub stream
+  });
+
+  app.patch('/api/cameras/:id/onvif', requirePermission('cameras:manage'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { mainProfileToken, subProfileToken } = onvifProfilesSchema.parse(req.body ?? {});
+      
+      const existing = await storage.getCamera(id);
+      if (!existing) {
+        return res.status(404).json({ message: 'Camera not found' });
+      }
+      if (!existing.onvif) {
+        return res.status(400).json({ message: 'Camera has not been queried over ONVIF yet' });
+      }
+      
+      const profiles = existing.onvif.profiles;
+      for (const token of [mainProfileToken, subProfileToken]) {
+        if (token && !profiles.some((profile) => profile.token === token && profile.streamUri)) {
+          return res.status(400).json({ message: `Unknown ONVIF profile or profile without a stream: ${token}` });
+        }
+      }
+      
+      const onvif = {
+        ...existing.onvif,
+        ...(mainProfileToken !== undefined ? { mainProfileToken } : {}),
+        ...(subProfileToken !== undefined ? { subProfileToken: subProfileToken ?? undefined } : {})
+      };
+      const mainStreamUrl = mainProfileToken ? getOnvifStreamUrl({ onvif }, 'high') : undefined;
+      
+      const camera = await storage.updateCamera(id, {
+        onvif,
+        ...(mainStreamUrl ? { rtspUrl: mainStreamUrl } : {})
+      });
+      
+      if (!camera) {
+        return res.status(404).json({ message: 'Camera not found' });
+      }
+      
+      syncContinuousRecording(camera);
+      syncMotionDetection(camera);
+      
+      res.json(toPublicCamera(camera));
+    } catch (error) {
+      console.error('Error updating ONVIF profiles:', error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: 'Invalid ONVIF profile selection',
+          errors: error.errors 
+        });
+      }
+      
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : 'Failed to update ONVIF profiles' 
+      });
+    }
+  });
+
+  // Pan, tilt and zoom cameras and manage their presets over ONVIF PTZ
+  const ptzSpeedSchema = z.number().min(-1).max(1);
+  const ptzRequestSchema = z.discriminatedUnion('action', [
+    z.object({
+      action: z.literal('move'),
+      pan: ptzSpeedSchema.default(0),
+      tilt: ptzSpeedSchema.default(0),
+      zoom: ptzSpeedSchema.default(0),
+      timeout: z.number().int().min(1).max(60).optional(), // Seconds until the camera stops by itself
+    }),
+    z.object({ action: z.literal('zoom'), speed: ptzSpeedSchema }),
+    z.object({ action: z.literal('stop') }),
+    z.object({ action: z.literal('presets') }),
+    z.object({
+      action: z.literal('savePreset'),
+      name: z.string().trim().min(1).max(64),
+      presetToken: z.string().min(1).max(64).optional(), // Overwrite this preset instead of adding one
+    }),
+    z.object({ action: z.literal('gotoPreset'), presetToken: z.string().min(1).max(64) }),
+  ]);
+
+  app.post('/api/cameras/:id/ptz', requirePermission('cameras:ptz'), cameraAccess, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const command = ptzRequestSchema.parse(req.body);
+      
+      const camera = await storage.getCamera(id);
+      if (!camera) {
+        return res.status(404).json({ message: 'Camera not found' });
+      }
+      
+      const onvif = camera.onvif;
+      const profileToken = onvif?.mainProfileToken || onvif?.profiles[0]?.token;
+      if (!onvif?.ptzUrl || !profileToken) {
+        return res.status(400).json({ message: 'Camera does not report PTZ support; query it over ONVIF first' });
+      }
+      
+      // PTZ uses the ONVIF account the camera was queried with
+      const target: PtzTarget = {
+        deviceUrl: onvif.deviceUrl,
+        ptzUrl: onvif.ptzUrl,
+        profileToken,
+        credentials: getOnvifCredentials(camera)
+      };
+      
+      switch (command.action) {
+        case 'move':
+          await continuousMove(target, command, command.timeout);
+          return res.json({ success: true });
+        case 'zoom':
+          await continuousMove(target, { zoom: command.speed });
+          return res.json({ success: true });
+        case 'stop':
+          await stopMove(target);
+          return res.json({ success: true });
+        case 'presets':
+          return res.json({ presets: await getPresets(target) });
+        case 'savePreset': {
+          const presetToken = await setPreset(target, command.name, command.presetToken);
+          return res.json({ presetToken, presets: await getPresets(target) });
+        }
+        case 'gotoPreset':
+          await gotoPreset(target, command.presetToken);
+          return res.json({ success: true });
+      }
+    } catch (error) {
+      console.error('Error sending PTZ command:', error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: 'Invalid PTZ request',
+          errors: error.errors 
+        });
+      }
+      
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : 'Failed to send PTZ command' 
+      });
+    }
+  });
+
+  app.delete('/api/cameras/:id',requirePermission('cameras:manage'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       
@@ -168,6 +534,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'Camera not found' });
       }
       
+      // Stop any recordings, motion detection and live streams before deleting the camera
+      await stopRecording(id);
+      stopContinuousRecording(id);
+      stopMotionDetection(id);
+      await disconnectCameraStreams(id);
+      await closeCameraWhepSessions(id);
+      
       // Delete the camera
       const success = await storage.deleteCamera(id);
       
@@ -196,8 +569,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const cameraId = req.query.cameraId ? parseInt(req.query.cameraId as string) : undefined;
       const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+      
+      if (cameraId !== undefined && !(await canAccessCamera(req.user!, cameraId))) {
+        return res.status(404).json({ message: 'Camera not found' });
+      }
+      
       const screenshots = await storage.getScreenshots(cameraId, limit);
-      res.json(screenshots);
+      res.json(await filterByCameraAccess(req.user!, screenshots));
     } catch (error) {
       console.error('Error fetching screenshots:', error);
       res.status(500).json({ 
@@ -206,10 +584,78 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/screenshots', async (req, res) => {
+  // Screenshots are uploaded as multipart/form-data with the image in the "file" field
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: 20 * 1024 * 1024, files: 1 },
+    fileFilter: (req, file, cb) => cb(null, ['image/jpeg', 'image/png'].includes(file.mimetype))
+  });
+
+  /**
+   * Parse a single screenshot upload, answering 400 for oversized or malformed uploads
+   */
+  function screenshotUpload(req: Request, res: Response, next: NextFunction) {
+    upload.single('file')(req, res, (err?: unknown) => {
+      if (err) {
+        return res.status(400).json({ message: err instanceof Error ? err.message : 'Invalid upload' });
+      }
+      next();
+    });
+  }
+
+  const screenshotUploadSchema = z.object({
+    cameraId: z.coerce.number().int().positive(),
+    viewMode: z.string().trim().max(20).default('360')
+  });
+
+  const screenshotIdsSchema = z.object({
+    ids: z.array(z.coerce.number().int().positive()).min(1).max(500)
+  });
+
+  /**
+   * Load screenshots by ID, dropping unknown IDs and those of cameras the user cannot see
+   */
+  async function getAccessibleScreenshots(user: Express.User, ids: number[]) {
+    const screenshots = await Promise.all(ids.map((id) => storage.getScreenshot(id)));
+    return filterByCameraAccess(user, screenshots.filter((screenshot) => !!screenshot));
+  }
+
+  app.post('/api/screenshots', screenshotUpload, bodyCameraAccess, async (req, res) => {
     try {
-      const validatedData = insertScreenshotSchema.parse(req.body);
-      const screenshot = await storage.createScreenshot(validatedData);
+      const { cameraId, viewMode } = screenshotUploadSchema.parse(req.body);
+      if (!req.file) {
+        return res.status(400).json({ message: 'A JPEG or PNG image is required in the "file" field' });
+      }
+
+      // Check the image itself rather than trusting the declared type
+      const image = readImageInfo(req.file.buffer);
+      if (!image) {
+        return res.status(400).json({ message: 'The uploaded file is not a readable JPEG or PNG image' });
+      }
+
+      // Name the file on the server; the uploaded name is not trusted
+      const fileName = await saveScreenshotFile(
+        getScreenshotFilename(cameraId, image.format === 'png' ? 'png' : 'jpg'),
+        req.file.buffer
+      );
+
+      const thumbnailUrl = await createScreenshotThumbnail(fileName).catch((error) => {
+        console.warn(`Failed to create thumbnail for ${fileName}:`, error);
+        return null;
+      });
+
+      const screenshot = await storage.createScreenshot({
+        cameraId,
+        fileName,
+        filePath: `/uploads/screenshots/${fileName}`,
+        fileSize: req.file.size,
+        thumbnailUrl,
+        metadata: {
+          resolution: `${image.width}x${image.height}`,
+          format: image.format,
+          viewMode
+        }
+      });
       
       // Create a notification for the new screenshot
       await storage.createNotification({
@@ -237,13 +683,115 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Download selected screenshots as a ZIP archive, e.g. ?ids=1,2,3
+  app.get('/api/screenshots/export', async (req, res) => {
+    try {
+      const { ids } = screenshotIdsSchema.parse({
+        ids: String(req.query.ids || '').split(',').filter(Boolean)
+      });
+      const screenshots = (await getAccessibleScreenshots(req.user!, ids))
+        .filter((screenshot) => fs.existsSync(getScreenshotPath(screenshot.fileName)));
+
+      if (screenshots.length === 0) {
+        return res.status(404).json({ message: 'No screenshots found' });
+      }
+
+      const archiveName = `screenshots_${new Date().toISOString().replace(/:/g, '-').replace(/\..+/, '')}.zip`;
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Disposition', `attachment; filename="${archiveName}"`);
+
+      // Images are already compressed, so store them as they are
+      const archive = archiver('zip', { store: true });
+      archive.on('error', (error: Error) => {
+        console.error('Error writing screenshot archive:', error);
+        res.destroy(error);
+      });
+      archive.pipe(res);
+
+      for (const screenshot of screenshots) {
+        archive.file(getScreenshotPath(screenshot.fileName), { name: screenshot.fileName });
+      }
+      await archive.finalize();
+    } catch (error) {
+      console.error('Error exporting screenshots:', error);
+
+      if (res.headersSent) {
+        return res.end();
+      }
+
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: 'Invalid screenshot selection', 
+          errors: error.errors 
+        });
+      }
+
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : 'Failed to export screenshots' 
+      });
+    }
+  });
+
+  app.delete('/api/screenshots/:id', requirePermission('media:delete'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const [screenshot] = Number.isNaN(id) ? [] : await getAccessibleScreenshots(req.user!, [id]);
+      
+      if (!screenshot) {
+        return res.status(404).json({ message: 'Screenshot not found' });
+      }
+      
+      await storage.deleteScreenshot(id);
+      await deleteScreenshotFiles(screenshot);
+      res.status(204).end();
+    } catch (error) {
+      console.error('Error deleting screenshot:', error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : 'Failed to delete screenshot' 
+      });
+    }
+  });
+
+  // Bulk delete, with the IDs in the body: { ids: [1, 2, 3] }
+  app.delete('/api/screenshots', requirePermission('media:delete'), async (req, res) => {
+    try {
+      const { ids } = screenshotIdsSchema.parse(req.body);
+      const screenshots = await getAccessibleScreenshots(req.user!, ids);
+      
+      for (const screenshot of screenshots) {
+        await storage.deleteScreenshot(screenshot.id);
+        await deleteScreenshotFiles(screenshot);
+      }
+      
+      res.json({ deleted: screenshots.map((screenshot) => screenshot.id) });
+    } catch (error) {
+      console.error('Error deleting screenshots:', error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: 'Invalid screenshot selection', 
+          errors: error.errors 
+        });
+      }
+      
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : 'Failed to delete screenshots' 
+      });
+    }
+  });
+
   // Recordings API Routes
   app.get('/api/recordings', async (req, res) => {
     try {
       const cameraId = req.query.cameraId ? parseInt(req.query.cameraId as string) : undefined;
       const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+      
+      if (cameraId !== undefined && !(await canAccessCamera(req.user!, cameraId))) {
+        return res.status(404).json({ message: 'Camera not found' });
+      }
+      
       const recordings = await storage.getRecordings(cameraId, limit);
-      res.json(recordings);
+      res.json(await filterByCameraAccess(req.user!, recordings));
     } catch (error) {
       console.error('Error fetching recordings:', error);
       res.status(500).json({ 
@@ -252,65 +800,238 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/recordings', async (req, res) => {
+  // Camera events API Routes
+  const eventsQuerySchema = z.object({
+    cameraId: z.coerce.number().int().positive().optional(),
+    type: z.string().trim().min(1).max(50).optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    // "<timestamp ms>_<event id>" of the last event on the previous page
+    cursor: z.string().regex(/^\d+_\d+$/, 'Invalid cursor').optional(),
+    limit: z.coerce.number().int().min(1).max(200).default(50)
+  });
+
+  app.get('/api/events', async (req, res) => {
     try {
-      const validatedData = insertRecordingSchema.parse(req.body);
-      const recording = await storage.createRecording(validatedData);
-      
-      // Create a notification for the new recording
-      await storage.createNotification({
-        title: "Recording Saved",
-        message: `New recording saved from camera ID: ${recording.cameraId} (${recording.duration}s)`,
-        type: "info",
-        cameraId: recording.cameraId
+      const { cameraId, type, from, to, cursor, limit } = eventsQuerySchema.parse(req.query);
+
+      let cameraIds: number[] | undefined;
+      if (cameraId !== undefined) {
+        if (!(await canAccessCamera(req.user!, cameraId))) {
+          return res.status(404).json({ message: 'Camera not found' });
+        }
+        cameraIds = [cameraId];
+      } else {
+        cameraIds = (await getAccessibleCameraIds(req.user!)) ?? undefined;
+      }
+
+      const [cursorTime, cursorId] = cursor ? cursor.split('_').map(Number) : [];
+
+      // Fetch one extra event to know whether there is another page
+      const events = await storage.queryCameraEvents({
+        cameraIds,
+        eventType: type,
+        from,
+        to,
+        before: cursor ? { timestamp: new Date(cursorTime), id: cursorId } : undefined,
+        limit: limit + 1
+      });
+      const page = events.slice(0, limit);
+      const last = page[page.length - 1];
+
+      // Link the snapshot taken for the event, if there is one
+      const withScreenshots = await Promise.all(page.map(async (event) => {
+        const screenshot = event.screenshotId ? await storage.getScreenshot(event.screenshotId) : undefined;
+        return { ...event, screenshotUrl: screenshot?.filePath ?? null };
+      }));
+
+      res.json({
+        events: withScreenshots,
+        nextCursor: events.length > limit && last
+          ? `${new Date(last.timestamp).getTime()}_${last.id}`
+          : null
+      });
+    } catch (error) {
+      console.error('Error fetching camera events:', error);
+
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: 'Invalid event filters',
+          errors: error.errors
+        });
+      }
+
+      res.status(500).json({
+        message: error instanceof Error ? error.message : 'Failed to fetch camera events'
       });
+    }
+  });
+
+  // Live motion state, used to highlight triggered zones
+  app.get('/api/cameras/:id/motion', cameraAccess, (req, res) => {
+    res.json(getMotionStatus(parseInt(req.params.id)));
+  });
+
+  // Current frame as a JPEG, e.g. for thumbnails and notifications
+  const snapshotQuerySchema = z.object({
+    width: z.coerce.number().int().min(16).max(3840).optional(),
+    quality: z.coerce.number().int().min(1).max(100).optional(),
+    maxAge: z.coerce.number().int().min(0).max(60).optional() // seconds
+  });
+
+  app.get('/api/cameras/:id/snapshot.jpg', cameraAccess, async (req, res) => {
+    try {
+      const { width, quality, maxAge } = snapshotQuerySchema.parse(req.query);
+      const camera = await storage.getCamera(parseInt(req.params.id));
       
-      res.status(201).json(recording);
+      if (!camera) {
+        return res.status(404).json({ message: 'Camera not found' });
+      }
+      
+      const image = await getCameraSnapshot(camera, {
+        width,
+        quality,
+        maxAge: maxAge !== undefined ? maxAge * 1000 : undefined
+      });
+      res.set({
+        'Content-Type': 'image/jpeg',
+        'Cache-Control': 'private, max-age=2'
+      });
+      res.send(image);
     } catch (error) {
-      console.error('Error creating recording:', error);
+      console.error('Error capturing camera snapshot:', error);
       
       if (error instanceof z.ZodError) {
         return res.status(400).json({ 
-          message: 'Invalid recording data', 
+          message: 'Invalid snapshot options', 
           errors: error.errors 
         });
       }
       
       res.status(500).json({ 
-        message: error instanceof Error ? error.message : 'Failed to create recording' 
+        message: error instanceof Error ? error.message : 'Failed to capture snapshot' 
+      });
+    }
+  });
+
+  // Server-side recording API Routes
+  app.get('/api/cameras/:id/recordings/status', cameraAccess, (req, res) => {
+    const id = parseInt(req.params.id);
+    const session = getActiveRecording(id);
+    
+    res.json({
+      isRecording: !!session,
+      fileName: session?.fileName,
+      startedAt: session?.startedAt
+    });
+  });
+
+  app.post('/api/cameras/:id/recordings/start', requirePermission('cameras:configure'), cameraAccess, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const camera = await storage.getCamera(id);
+      
+      if (!camera) {
+        return res.status(404).json({ message: 'Camera not found' });
+      }
+      
+      if (getActiveRecording(id)) {
+        return res.status(409).json({ message: 'Camera is already recording' });
+      }
+      
+      const session = await startRecording(
+        id, 
+        resolveStreamUrl(camera, 'main'), 
+        getRecordingFilename(id, 'mp4'), 
+        req.body?.viewMode || camera.settings?.viewMode,
+        { transcodeProfile: resolveTranscodeProfile(camera) }
+      );
+      
+      res.status(201).json({
+        isRecording: true,
+        fileName: session.fileName,
+        startedAt: session.startedAt
+      });
+    } catch (error) {
+      console.error('Error starting recording:', error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : 'Failed to start recording' 
+      });
+    }
+  });
+
+  app.post('/api/cameras/:id/recordings/stop', requirePermission('cameras:configure'), cameraAccess, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const session = await stopRecording(id);
+      
+      if (!session) {
+        return res.status(404).json({ message: 'Camera is not recording' });
+      }
+      
+      const recording = await saveRecording(session);
+      
+      res.status(201).json(recording);
+    } catch (error) {
+      console.error('Error stopping recording:', error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : 'Failed to stop recording' 
       });
     }
   });
 
   // RTSP Stream API Routes
-  app.post('/api/stream/connect', async (req, res) => {
+  // Clients identify streams by camera and profile only; RTSP URLs stay on the server
+  const streamRequestSchema = z.object({
+    cameraId: z.coerce.number().int().positive(),
+    profile: z.enum(['main', 'sub']).default('main'),
+    mode: z.enum(['jsmpeg', 'hls']).default('jsmpeg')
+  });
+
+  app.post('/api/stream/connect', bodyCameraAccess, async (req, res) => {
     try {
-      const { rtspUrl, cameraId } = req.body;
+      const { cameraId, profile, mode } = streamRequestSchema.parse(req.body);
+      const camera = await storage.getCamera(cameraId);
       
-      if (!rtspUrl) {
-        return res.status(400).json({ message: 'RTSP URL is required' });
+      if (!camera) {
+        return res.status(404).json({ message: 'Camera not found' });
       }
       
-      const wsUrl = await setupRtspStream(rtspUrl);
+      const rtspUrl = resolveStreamUrl(camera, profile);
+      const streamPath = await setupRtspStream(camera.id, profile, rtspUrl, {
+        mode,
+        transcodeProfile: resolveTranscodeProfile(camera)
+      });
       
       // Create a notification for stream connection
       await storage.createNotification({
         title: "Camera Stream Connected",
         message: `Successfully connected to camera stream: ${maskRtspUrl(rtspUrl)}`,
         type: "info",
-        cameraId: cameraId || null,
+        cameraId: camera.id,
       });
       
-      res.json({ wsUrl });
+      if (mode === 'hls') {
+        return res.json({ playlistUrl: streamPath, cameraId: camera.id, profile, mode });
+      }
+      
+      res.json({ wsPath: streamPath, cameraId: camera.id, profile, mode });
     } catch (error) {
       console.error('Error connecting to RTSP stream:', error);
       
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: 'Invalid stream request', 
+          errors: error.errors 
+        });
+      }
+      
       // Create an error notification
       await storage.createNotification({
         title: "Camera Stream Connection Failed",
         message: error instanceof Error ? error.message : 'Failed to connect to RTSP stream',
         type: "alert",
-        cameraId: req.body.cameraId || null,
+        cameraId: Number(req.body.cameraId) || null,
       });
       
       res.status(500).json({ 
@@ -319,35 +1040,97 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.post('/api/stream/disconnect', async (req, res) => {
+  app.get('/api/stream/status', async (req, res) => {
     try {
-      const { rtspUrl, cameraId } = req.body;
+      const cameraId = req.query.cameraId ? parseInt(req.query.cameraId as string) : undefined;
+      res.json(await filterByCameraAccess(req.user!, getStreamStatuses(cameraId)));
+    } catch (error) {
+      console.error('Error fetching stream status:', error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : 'Failed to fetch stream status' 
+      });
+    }
+  });
+  
+  // Serve HLS playlists and segments written by FFmpeg
+  app.get('/hls/:cameraId/:profile/:file', requireCameraAccess((req) => parseInt(req.params.cameraId)), (req, res) => {
+    const profile = req.params.profile === 'sub' ? 'sub' : 'main';
+    const filePath = getHlsFilePath(parseInt(req.params.cameraId), profile, req.params.file);
+    
+    if (!filePath) {
+      return res.status(404).json({ message: 'Stream not found' });
+    }
+    
+    // The live playlist changes every segment, so it must never be cached
+    if (req.params.file.endsWith('.m3u8')) {
+      res.set('Cache-Control', 'no-cache, no-store');
+      res.type('application/vnd.apple.mpegurl');
+    } else {
+      res.type('video/mp2t');
+    }
+    
+    res.sendFile(filePath, (err) => {
+      if (err && !res.headersSent) {
+        res.status(404).json({ message: 'Segment not found' });
+      }
+    });
+  });
+  
+  // WebRTC playback using WHEP signalling: the viewer POSTs an SDP offer and gets
+  // an SDP answer plus a session URL to DELETE when it stops watching
+  app.post('/api/whep/:cameraId', requireCameraAccess((req) => parseInt(req.params.cameraId)), express.text({ type: 'application/sdp' }), async (req, res) => {
+    try {
+      const cameraId = parseInt(req.params.cameraId);
+      const profile = req.query.profile === 'sub' ? 'sub' : 'main';
       
-      if (!rtspUrl) {
-        return res.status(400).json({ message: 'RTSP URL is required' });
+      if (!req.is('application/sdp') || typeof req.body !== 'string' || !req.body) {
+        return res.status(415).json({ message: 'Expected an application/sdp offer' });
       }
       
-      await disconnectStream(rtspUrl);
+      const camera = await storage.getCamera(cameraId);
+      if (!camera) {
+        return res.status(404).json({ message: 'Camera not found' });
+      }
       
-      // Create a notification for stream disconnection
-      await storage.createNotification({
-        title: "Camera Stream Disconnected",
-        message: `Disconnected from camera stream: ${maskRtspUrl(rtspUrl)}`,
-        type: "info",
-        cameraId: cameraId || null,
+      const rtspUrl = resolveStreamUrl(camera, profile);
+      const { sessionId, sdp } = await createWhepSession(camera.id, profile, rtspUrl, req.body);
+      
+      res.status(201)
+        .location(`/api/whep/sessions/${sessionId}`)
+        .type('application/sdp')
+        .send(sdp);
+    } catch (error) {
+      console.error('Error negotiating WebRTC stream:', error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : 'Failed to negotiate WebRTC stream' 
       });
+    }
+  });
+  
+  // Candidates are sent in the offer and answer, so trickle ICE is not supported
+  app.patch('/api/whep/sessions/:sessionId', (req, res) => {
+    res.status(405).json({ message: 'Trickle ICE is not supported' });
+  });
+  
+  app.delete('/api/whep/sessions/:sessionId', async (req, res) => {
+    try {
+      const success = await deleteWhepSession(req.params.sessionId);
       
-      res.json({ success: true });
+      if (!success) {
+        return res.status(404).json({ message: 'Session not found' });
+      }
+      
+      res.status(204).end();
     } catch (error) {
-      console.error('Error disconnecting from RTSP stream:', error);
+      console.error('Error closing WebRTC session:', error);
       res.status(500).json({ 
-        message: error instanceof Error ? error.message : 'Failed to disconnect from RTSP stream' 
+        message: error instanceof Error ? error.message : 'Failed to close WebRTC session' 
       });
     }
   });
   
   // Camera Settings API Route - for adjusting camera parameters
-  app.post('/api/camera/settings', async (req, res) => {
+  app.post('/api/camera/settings', requirePermission('cameras:configure'), async (req, res) => {
     try {
       const { 
         brightness, 
@@ -359,6 +1142,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         cameraId 
       } = req.body;
       
+      if (cameraId && !(await canAccessCamera(req.user!, Number(cameraId)))) {
+        return res.status(404).json({ message: 'Camera not found' });
+      }
+      
       // In a real implementation, these settings would be sent to the camera
       // using its specific API protocol. For now, we just echo back the settings.
       
@@ -415,10 +1202,122 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // User management API Routes (admin only)
+  const userRoleSchema = z.object({ role: z.enum(USER_ROLES) });
+  const cameraGrantsSchema = z.object({ cameraIds: z.array(z.number().int().positive()) });
+  
+  app.get('/api/users', requirePermission('users:manage'), async (req, res) => {
+    try {
+      const users = await storage.getUsers();
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      console.error('Error fetching users:', error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : 'Failed to fetch users' 
+      });
+    }
+  });
+  
+  app.patch('/api/users/:id', requirePermission('users:manage'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { role } = userRoleSchema.parse(req.body);
+      
+      const existing = await storage.getUser(id);
+      if (!existing) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      
+      // Keep at least one admin so users can still be managed
+      if (existing.role === 'admin' && role !== 'admin') {
+        const admins = (await storage.getUsers()).filter((user) => user.role === 'admin');
+        if (admins.length <= 1) {
+          return res.status(400).json({ message: 'Cannot remove the last admin' });
+        }
+      }
+      
+      const user = await storage.updateUserRole(id, role);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      
+      res.json(toPublicUser(user));
+    } catch (error) {
+      console.error('Error updating user role:', error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: 'Invalid role', 
+          errors: error.errors 
+        });
+      }
+      
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : 'Failed to update user role' 
+      });
+    }
+  });
+  
+  app.get('/api/users/:id/cameras', requirePermission('users:manage'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (!(await storage.getUser(id))) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      
+      res.json({ cameraIds: await storage.getCameraAccess(id) });
+    } catch (error) {
+      console.error('Error fetching camera access:', error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : 'Failed to fetch camera access' 
+      });
+    }
+  });
+  
+  // Replace the cameras a user has been granted
+  app.put('/api/users/:id/cameras', requirePermission('users:manage'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { cameraIds } = cameraGrantsSchema.parse(req.body);
+      
+      if (!(await storage.getUser(id))) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      
+      const cameras = await storage.getCameras();
+      const unknown = cameraIds.filter((cameraId) => !cameras.some((camera) => camera.id === cameraId));
+      if (unknown.length > 0) {
+        return res.status(400).json({ message: `Unknown camera IDs: ${unknown.join(', ')}` });
+      }
+      
+      await storage.setCameraAccess(id, cameraIds);
+      res.json({ cameraIds: await storage.getCameraAccess(id) });
+    } catch (error) {
+      console.error('Error updating camera access:', error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: 'Invalid camera access', 
+          errors: error.errors 
+        });
+      }
+      
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : 'Failed to update camera access' 
+      });
+    }
+  });
+
   // User Preferences API Routes
   app.get('/api/preferences/:userId', async (req, res) => {
     try {
       const userId = parseInt(req.params.userId);
+      
+      // Users can only read their own preferences
+      if (userId !== req.user!.id) {
+        return res.status(403).json({ message: 'Cannot access preferences of another user' });
+      }
+      
       const preferences = await storage.getUserPreferences(userId);
       
       if (!preferences) {
@@ -436,10 +1335,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post('/api/preferences', async (req, res) => {
     try {
-      const preferences = await storage.createUserPreferences(req.body);
+      // Preferences always belong to the logged-in user
+      const preferencesData = insertUserPreferencesSchema.parse({ ...req.body, userId: req.user!.id });
+      const preferences = await storage.createUserPreferences(preferencesData);
       res.status(201).json(preferences);
     } catch (error) {
       console.error('Error creating user preferences:', error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: 'Invalid preferences data', 
+          errors: error.errors 
+        });
+      }
+      
       res.status(500).json({ 
         message: error instanceof Error ? error.message : 'Failed to create user preferences' 
       });
@@ -449,7 +1358,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.patch('/api/preferences/:id', async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const preferences = await storage.updateUserPreferences(id, req.body);
+      
+      // Users can only change their own preferences
+      const own = await storage.getUserPreferences(req.user!.id);
+      if (!own || own.id !== id) {
+        return res.status(404).json({ message: 'Preferences not found' });
+      }
+      
+      const changes = insertUserPreferencesSchema.omit({ userId: true }).partial().parse(req.body);
+      const preferences = await storage.updateUserPreferences(id, changes);
       
       if (!preferences) {
         return res.status(404).json({ message: 'Preferences not found' });
@@ -458,6 +1375,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json(preferences);
     } catch (error) {
       console.error('Error updating user preferences:', error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: 'Invalid preferences data', 
+          errors: error.errors 
+        });
+      }
+      
       res.status(500).json({ 
         message: error instanceof Error ? error.message : 'Failed to update user preferences' 
       });
@@ -465,10 +1390,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Notifications API Routes
+  // Non-admins only get the notifications of cameras they have been granted
   app.get('/api/notifications', async (req, res) => {
     try {
       const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
-      const notifications = await storage.getNotifications(limit);
+      const cameraIds = await getAccessibleCameraIds(req.user!);
+      const notifications = await storage.getNotifications(limit, cameraIds ?? undefined);
       res.json(notifications);
     } catch (error) {
       console.error('Error fetching notifications:', error);
@@ -480,7 +1407,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   app.get('/api/notifications/unread/count', async (req, res) => {
     try {
-      const count = await storage.getUnreadNotificationsCount();
+      const cameraIds = await getAccessibleCameraIds(req.user!);
+      const count = await storage.getUnreadNotificationsCount(cameraIds ?? undefined);
       res.json({ count });
     } catch (error) {
       console.error('Error counting unread notifications:', error);
@@ -493,6 +1421,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/notifications', async (req, res) => {
     try {
       const validatedData = insertNotificationSchema.parse(req.body);
+      if (!(await canAccessNotification(req.user!, validatedData.cameraId))) {
+        return res.status(404).json({ message: 'Camera not found' });
+      }
+      
       const notification = await storage.createNotification(validatedData);
       res.status(201).json(notification);
     } catch (error) {
@@ -514,12 +1446,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.patch('/api/notifications/:id/read', async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const notification = await storage.markNotificationAsRead(id);
+      const existing = Number.isNaN(id) ? undefined : await storage.getNotification(id);
       
-      if (!notification) {
+      if (!existing || !(await canAccessNotification(req.user!, existing.cameraId))) {
         return res.status(404).json({ message: 'Notification not found' });
       }
       
+      const notification = await storage.markNotificationAsRead(id);
       res.json(notification);
     } catch (error) {
       console.error('Error marking notification as read:', error);
@@ -531,7 +1464,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   app.patch('/api/notifications/read-all', async (req, res) => {
     try {
-      await storage.markAllNotificationsAsRead();
+      const cameraIds = await getAccessibleCameraIds(req.user!);
+      await storage.markAllNotificationsAsRead(cameraIds ?? undefined);
       res.json({ success: true });
     } catch (error) {
       console.error('Error marking all notifications as read:', error);
@@ -544,12 +1478,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.delete('/api/notifications/:id', async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const success = await storage.deleteNotification(id);
+      const notification = Number.isNaN(id) ? undefined : await storage.getNotification(id);
       
-      if (!success) {
+      if (!notification || !(await canAccessNotification(req.user!, notification.cameraId))) {
         return res.status(404).json({ message: 'Notification not found' });
       }
       
+      const success = await storage.deleteNotification(id);
       res.json({ success });
     } catch (error) {
       console.error('Error deleting notification:', error);
@@ -563,12 +1498,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/notifications/test', async (req, res) => {
     try {
       const { message, cameraId } = req.body;
+      const notificationCameraId = cameraId ? Number(cameraId) : null;
+      
+      if (!(await canAccessNotification(req.user!, notificationCameraId))) {
+        return res.status(404).json({ message: 'Camera not found' });
+      }
       
       const notification = await storage.createNotification({
         title: "Test Notification",
         message: message || "This is a test notification from your camera system",
         type: "info",
-        cameraId: cameraId || null,
+        cameraId: notificationCameraId,
       });
       
       res.json({ success: true, notification });
@@ -606,16 +1546,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Network diagnostics API endpoint
-  app.post('/api/network/diagnostics', async (req, res) => {
+  app.post('/api/network/diagnostics', requirePermission('diagnostics:run'), async (req, res) => {
     try {
-      const { cameraIp, rtspPort, cameraId } = req.body;
-      
-      if (!cameraIp) {
-        return res.status(400).json({ message: 'Camera IP is required' });
+      const { cameraIp, rtspPort, cameraId, rtspPath, username, password, allowBasic } = networkDiagnosticsRequestSchema.parse(req.body);
+      
+      // Typed-in credentials were meant for this address, so Basic authentication may send them
+      const rtspTarget: RtspProbeTarget = { path: rtspPath, username: username || undefined, password, allowBasic: true };
+      
+      // Without typed-in credentials, probe with the ones saved for the camera, but only
+      // at the camera's own address and only over Basic if the request allows it
+      if (!rtspTarget.username && cameraId) {
+        const camera = await storage.getCamera(cameraId);
+        if (camera && camera.rtspUsername && await canAccessCamera(req.user!, camera.id)) {
+          if (!isRtspEndpoint(camera.rtspUrl, cameraIp, rtspPort)) {
+            return res.status(400).json({ 
+              message: "The saved credentials are only used for the camera's own address and port; enter credentials to test another one" 
+            });
+          }
+          
+          rtspTarget.username = decryptSecret(camera.rtspUsername);
+          rtspTarget.password = camera.rtspPassword ? decryptSecret(camera.rtspPassword) : '';
+          rtspTarget.allowBasic = allowBasic;
+        }
       }
       
       // Run network diagnostics
-      const diagnostics = await runNetworkDiagnostics(cameraIp, rtspPort || 554);
+      const diagnostics = await runNetworkDiagnostics(cameraIp, rtspPort, rtspTarget);
       
       // Generate suggestions based on diagnostics
       const suggestions = getConnectionSuggestions(diagnostics, cameraIp);
@@ -638,12 +1594,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     } catch (error) {
       console.error('Error running network diagnostics:', error);
       
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: 'Invalid diagnostics request', 
+          errors: error.errors 
+        });
+      }
+      
       // Create an error notification
       await storage.createNotification({
         title: "Network Diagnostics Failed",
         message: error instanceof Error ? error.message : 'Failed to run network diagnostics',
         type: "alert",
-        cameraId: req.body.cameraId || null,
+        cameraId: Number(req.body.cameraId) || null,
       });
       
       res.status(500).json({ 
@@ -652,9 +1615,83 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.use('/uploads', express.static(path.join(process.cwd(), 'uploads')));
+  // LAN camera discovery
+  const discoveryScanSchema = z.object({
+    timeout: z.coerce.number().int().min(1000).max(10000).default(DEFAULT_DISCOVERY_TIMEOUT),
+    portScan: z.boolean().default(false),
+    ports: z.array(portSchema).min(1).max(4).optional(),
+  });
+
+  app.post('/api/discovery/scan', requirePermission('cameras:manage'), async (req, res) => {
+    try {
+      const options = discoveryScanSchema.parse(req.body ?? {});
+      const result = await discoverCameras(options);
+      
+      // Point out devices that are already set up as cameras
+      const cameras = await storage.getCameras();
+      const cameraIdsByHost = new Map<string, number>();
+      for (const camera of cameras) {
+        const host = parseRtspUrl(camera.rtspUrl).ip;
+        if (host) cameraIdsByHost.set(host, camera.id);
+      }
+      
+      res.json({
+        ...result,
+        candidates: result.candidates.map((candidate) => ({
+          ...candidate,
+          cameraId: cameraIdsByHost.get(candidate.address) ?? null
+        }))
+      });
+    } catch (error) {
+      console.error('Error scanning for cameras:', error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: 'Invalid discovery request', 
+          errors: error.errors 
+        });
+      }
+      
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : 'Failed to scan for cameras' 
+      });
+    }
+  });
+
+  /**
+   * Find the camera a stored media file belongs to from its name: screenshots and their
+   * thumbnails are named camera_<id>_..., recordings and continuous segments recording_<id>_...
+   */
+  function getUploadCameraId(filePath: string): number | undefined {
+    const match = path.basename(filePath).match(/^(?:camera|recording)_(\d+)_/);
+    return match ? parseInt(match[1]) : undefined;
+  }
+
+  // Byte ranges let the recordings player seek without downloading whole files
+  const serveUploads = express.static(path.join(process.cwd(), 'uploads'), { acceptRanges: true });
+
+  // File names are predictable, so only serve files of cameras the user has been granted
+  app.use('/uploads', async (req, res, next) => {
+    try {
+      const cameraId = getUploadCameraId(decodeURIComponent(req.path));
+      if (cameraId === undefined || !(await canAccessCamera(req.user!, cameraId))) {
+        return res.status(404).json({ message: 'File not found' });
+      }
+      serveUploads(req, res, next);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Missing media must not fall through to the client app's index.html
+  app.use('/uploads', (req, res) => {
+    res.status(404).json({ message: 'File not found' });
+  });
 
   const httpServer = createServer(app);
+  
+  // Serve stream WebSockets on the main server instead of separate ports
+  attachStreamUpgradeHandler(httpServer, isUpgradeAuthorized);
 
   return httpServer;
 }
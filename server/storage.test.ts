@@ -0,0 +1,268 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import fs from "fs";
+import path from "path";
+import { newDb, DataType } from "pg-mem";
+import { drizzle } from "drizzle-orm/node-postgres";
+import * as schema from "@shared/schema";
+import { DatabaseStorage, MemStorage, type IStorage } from "./storage";
+import type { Database } from "./db";
+
+/**
+ * Adapt a pg-mem client to what drizzle's node-postgres driver sends:
+ * pg-mem supports neither custom type parsers nor array row mode
+ */
+function adaptClient<T extends { query: (...args: any[]) => any }>(client: T): T {
+  const query = client.query.bind(client);
+  client.query = (async (config: any, values?: unknown[]) => {
+    if (typeof config !== "object") {
+      return query(config, values);
+    }
+
+    const { types, rowMode, ...rest } = config;
+    const result = await query(rest, values);
+    if (rowMode === "array") {
+      // drizzle parses timestamps itself from the text PostgreSQL returns
+      result.rows = result.rows.map((row: Record<string, unknown>) =>
+        Object.values(row).map((value) =>
+          value instanceof Date ? value.toISOString().replace("T", " ").replace("Z", "") : value
+        )
+      );
+    }
+    return result;
+  }) as T["query"];
+  return client;
+}
+
+/**
+ * A DatabaseStorage on an in-memory PostgreSQL with every migration applied
+ */
+function createPgMemStorage(): DatabaseStorage {
+  const mem = newDb();
+  const migrationsDir = path.resolve(__dirname, "..", "migrations");
+  const files = fs.readdirSync(migrationsDir).filter((file) => file.endsWith(".sql")).sort();
+  for (const file of files) {
+    const statements = fs.readFileSync(path.join(migrationsDir, file), "utf8").split("--> statement-breakpoint");
+    for (const statement of statements) {
+      if (statement.trim()) mem.public.none(statement);
+    }
+  }
+
+  // Event paging truncates timestamps to the milliseconds JavaScript dates keep
+  mem.public.registerFunction({
+    name: "date_trunc",
+    args: [DataType.text, DataType.timestamp],
+    returns: DataType.timestamp,
+    implementation: (_unit: string, value: Date) => value,
+  });
+  // pg-mem has no locks; the first-user check is only serialized on PostgreSQL
+  mem.public.registerFunction({
+    name: "pg_advisory_xact_lock",
+    args: [DataType.integer],
+    returns: DataType.text,
+    implementation: () => "",
+  });
+
+  const { Pool } = mem.adapters.createPg();
+  const pool = adaptClient(new Pool());
+  const connect = pool.connect.bind(pool);
+  pool.connect = (async () => adaptClient(await connect())) as typeof pool.connect;
+
+  return new DatabaseStorage(drizzle(pool, { schema }) as unknown as Database);
+}
+
+describe.each([
+  ["MemStorage", () => new MemStorage()],
+  ["DatabaseStorage (pg-mem)", createPgMemStorage],
+])("%s", (_name, createStorage: () => IStorage) => {
+  let storage: IStorage;
+
+  beforeEach(() => {
+    storage = createStorage();
+  });
+
+  describe("users", () => {
+    it("creates users as viewers unless given a role", async () => {
+      const viewer = await storage.createUser({ username: "alice", password: "hash" });
+      const admin = await storage.createUser({ username: "bob", password: "hash", role: "admin" });
+
+      expect(viewer.role).toBe("viewer");
+      expect(admin.role).toBe("admin");
+      expect(await storage.getUserCount()).toBe(2);
+      expect((await storage.getUserByUsername("alice"))?.id).toBe(viewer.id);
+      expect(await storage.getUserByUsername("nobody")).toBeUndefined();
+    });
+
+    it("only creates the first user as an admin while no account exists", async () => {
+      const first = await storage.createFirstUser({ username: "first", password: "hash" });
+      const second = await storage.createFirstUser({ username: "second", password: "hash" });
+
+      expect(first?.role).toBe("admin");
+      expect(second).toBeUndefined();
+      expect(await storage.getUserCount()).toBe(1);
+    });
+
+    it("changes a user's role", async () => {
+      const user = await storage.createUser({ username: "carol", password: "hash" });
+      expect((await storage.updateUserRole(user.id, "operator"))?.role).toBe("operator");
+      expect((await storage.getUser(user.id))?.role).toBe("operator");
+      expect(await storage.updateUserRole(999, "admin")).toBeUndefined();
+    });
+  });
+
+  describe("cameras", () => {
+    it("creates cameras with default settings", async () => {
+      const camera = await storage.createCamera({ name: "Front", rtspUrl: "rtsp://10.0.0.1/live" });
+
+      expect(camera.id).toBeGreaterThan(0);
+      expect(camera.settings?.viewMode).toBe("360");
+      expect(camera.onvif).toBeNull();
+      expect(await storage.getCamera(camera.id)).toEqual(camera);
+    });
+
+    it("keeps a single default camera", async () => {
+      const first = await storage.createCamera({ name: "First", rtspUrl: "rtsp://10.0.0.1/", isDefault: true });
+      const second = await storage.createCamera({ name: "Second", rtspUrl: "rtsp://10.0.0.2/" });
+
+      await storage.updateCamera(second.id, { isDefault: true });
+
+      expect((await storage.getDefaultCamera())?.id).toBe(second.id);
+      expect((await storage.getCamera(first.id))?.isDefault).toBe(false);
+    });
+
+    it("updates settings and deletes cameras", async () => {
+      const camera = await storage.createCamera({ name: "Yard", rtspUrl: "rtsp://10.0.0.3/" });
+      const updated = await storage.updateCameraSettings(camera.id, { ...camera.settings!, brightness: 20 });
+
+      expect(updated?.settings?.brightness).toBe(20);
+      expect(await storage.deleteCamera(camera.id)).toBe(true);
+      expect(await storage.deleteCamera(camera.id)).toBe(false);
+      expect(await storage.getCameras()).toEqual([]);
+    });
+  });
+
+  describe("camera access", () => {
+    it("replaces a user's grants", async () => {
+      const user = await storage.createUser({ username: "dave", password: "hash" });
+      const a = await storage.createCamera({ name: "A", rtspUrl: "rtsp://10.0.0.1/" });
+      const b = await storage.createCamera({ name: "B", rtspUrl: "rtsp://10.0.0.2/" });
+
+      await storage.setCameraAccess(user.id, [a.id, b.id]);
+      await storage.setCameraAccess(user.id, [b.id]);
+
+      expect(await storage.getCameraAccess(user.id)).toEqual([b.id]);
+      expect(await storage.hasCameraAccess(user.id, a.id)).toBe(false);
+      expect(await storage.hasCameraAccess(user.id, b.id)).toBe(true);
+    });
+  });
+
+  describe("media", () => {
+    it("lists recordings and screenshots per camera, newest first", async () => {
+      const camera = await storage.createCamera({ name: "Cam", rtspUrl: "rtsp://10.0.0.1/" });
+      const other = await storage.createCamera({ name: "Other", rtspUrl: "rtsp://10.0.0.2/" });
+
+      const older = await storage.createRecording({
+        cameraId: camera.id, fileName: "a.mp4", filePath: "/uploads/recordings/a.mp4", duration: 10, fileSize: 100
+      });
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      const newer = await storage.createRecording({
+        cameraId: camera.id, fileName: "b.mp4", filePath: "/uploads/recordings/b.mp4", duration: 10, fileSize: 100
+      });
+      await storage.createRecording({
+        cameraId: other.id, fileName: "c.mp4", filePath: "/uploads/recordings/c.mp4", duration: 10, fileSize: 100
+      });
+
+      expect((await storage.getRecordings(camera.id)).map((r) => r.id)).toEqual([newer.id, older.id]);
+      expect(await storage.getRecordings(undefined, 1)).toHaveLength(1);
+      expect((await storage.getRecording(older.id))?.startedAt).toBeNull();
+
+      const startedAt = new Date("2024-05-01T13:05:00.000Z");
+      const endedAt = new Date("2024-05-01T13:10:00.000Z");
+      const segment = await storage.createRecording({
+        cameraId: camera.id, fileName: "d.mp4", filePath: "/uploads/recordings/d.mp4", duration: 300, fileSize: 100,
+        startedAt, endedAt
+      });
+      expect((await storage.getRecording(segment.id))?.startedAt).toEqual(startedAt);
+      expect((await storage.getRecording(segment.id))?.endedAt).toEqual(endedAt);
+
+      expect(await storage.deleteRecording(older.id)).toBe(true);
+      expect(await storage.getRecording(older.id)).toBeUndefined();
+
+      const screenshot = await storage.createScreenshot({
+        cameraId: camera.id, fileName: "s.jpg", filePath: "/uploads/screenshots/s.jpg", fileSize: 50,
+        metadata: { resolution: "1920x1080", format: "jpeg", viewMode: "360" }
+      });
+      expect((await storage.getScreenshot(screenshot.id))?.metadata?.resolution).toBe("1920x1080");
+      expect(await storage.getScreenshots(other.id)).toEqual([]);
+      expect(await storage.deleteScreenshot(screenshot.id)).toBe(true);
+    });
+  });
+
+  describe("user preferences", () => {
+    it("creates and updates preferences", async () => {
+      const user = await storage.createUser({ username: "erin", password: "hash" });
+      const preferences = await storage.createUserPreferences({ userId: user.id, gridLayout: "2x2" });
+
+      expect(preferences.gridLayout).toBe("2x2");
+      const updated = await storage.updateUserPreferences(preferences.id, { gridLayout: "3x3" });
+      expect(updated?.gridLayout).toBe("3x3");
+      expect((await storage.getUserPreferences(user.id))?.gridLayout).toBe("3x3");
+    });
+  });
+
+  describe("camera events", () => {
+    it("pages through events with a cursor", async () => {
+      const camera = await storage.createCamera({ name: "Cam", rtspUrl: "rtsp://10.0.0.1/" });
+      const events = [];
+      for (let i = 0; i < 3; i++) {
+        events.push(await storage.createCameraEvent({ cameraId: camera.id, eventType: "motion", message: `Motion ${i}` }));
+      }
+
+      const firstPage = await storage.queryCameraEvents({ cameraIds: [camera.id], limit: 2 });
+      expect(firstPage).toHaveLength(2);
+
+      const last = firstPage[firstPage.length - 1];
+      const secondPage = await storage.queryCameraEvents({
+        cameraIds: [camera.id],
+        before: { timestamp: last.timestamp, id: last.id },
+        limit: 2
+      });
+      const seen = [...firstPage, ...secondPage].map((event) => event.id).sort();
+      expect(seen).toEqual(events.map((event) => event.id).sort());
+      expect(await storage.queryCameraEvents({ cameraIds: [], limit: 10 })).toEqual([]);
+    });
+  });
+
+  describe("notifications", () => {
+    it("counts, reads and deletes notifications", async () => {
+      const first = await storage.createNotification({ title: "One", message: "First" });
+      await storage.createNotification({ title: "Two", message: "Second", type: "warning" });
+
+      expect(await storage.getUnreadNotificationsCount()).toBe(2);
+      expect((await storage.markNotificationAsRead(first.id))?.isRead).toBe(true);
+      expect(await storage.getUnreadNotificationsCount()).toBe(1);
+
+      await storage.markAllNotificationsAsRead();
+      expect(await storage.getUnreadNotificationsCount()).toBe(0);
+      expect(await storage.deleteNotification(first.id)).toBe(true);
+      expect(await storage.getNotifications()).toHaveLength(1);
+    });
+
+    it("limits notifications to the given cameras", async () => {
+      const camera = await storage.createCamera({ name: "Cam", rtspUrl: "rtsp://10.0.0.1/" });
+      const other = await storage.createCamera({ name: "Other", rtspUrl: "rtsp://10.0.0.2/" });
+      const own = await storage.createNotification({ title: "Own", message: "Mine", cameraId: camera.id });
+      await storage.createNotification({ title: "Other", message: "Not mine", cameraId: other.id });
+      await storage.createNotification({ title: "System", message: "No camera" });
+
+      expect((await storage.getNotifications(undefined, [camera.id])).map((n) => n.id)).toEqual([own.id]);
+      expect(await storage.getNotifications(undefined, [])).toEqual([]);
+      expect(await storage.getNotifications()).toHaveLength(3);
+      expect(await storage.getUnreadNotificationsCount([camera.id])).toBe(1);
+
+      await storage.markAllNotificationsAsRead([camera.id]);
+      expect((await storage.getNotification(own.id))?.isRead).toBe(true);
+      expect(await storage.getUnreadNotificationsCount()).toBe(2);
+      expect(await storage.getNotification(999)).toBeUndefined();
+    });
+  });
+});
@@ -6,12 +6,15 @@ import {
   screenshots,
   userPreferences,
   cameraEvents,
+  cameraAccess,
   type User,
+  type UserRole,
   type InsertUser,
   type Notification,
   type InsertNotification,
   type Camera,
   type InsertCamera,
+  type CameraCredentials,
   type Recording,
   type InsertRecording,
   type Screenshot,
@@ -21,21 +24,55 @@ import {
   type CameraEvent,
   type InsertCameraEvent
 } from "@shared/schema";
+import { and, desc, eq, gte, inArray, lt, lte, ne, or, sql } from "drizzle-orm";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { createDb, runMigrations, type Database } from "./db";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+
+// Advisory lock held while deciding whether a registration is the first account
+const FIRST_USER_LOCK_ID = 2001;
+
+// Filters for paging through camera events, newest first
+export interface CameraEventQuery {
+  cameraIds?: number[]; // undefined means every camera
+  eventType?: string;
+  from?: Date;
+  to?: Date;
+  before?: { timestamp: Date; id: number }; // cursor: the last event of the previous page
+  limit: number;
+}
 
 // modify the interface with any CRUD methods
 // you might need
 
 export interface IStorage {
+  // Login sessions are kept alongside the rest of the data
+  sessionStore: session.Store;
+
   // User methods
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  getUsers(): Promise<User[]>;
+  getUserCount(): Promise<number>;
   createUser(user: InsertUser): Promise<User>;
+  // Create the first account as an admin; undefined if an account already exists
+  createFirstUser(user: Omit<InsertUser, "role">): Promise<User | undefined>;
+  updateUserRole(id: number, role: UserRole): Promise<User | undefined>;
+
+  // Camera access grants for non-admin users
+  getCameraAccess(userId: number): Promise<number[]>;
+  setCameraAccess(userId: number, cameraIds: number[]): Promise<void>;
+  hasCameraAccess(userId: number, cameraId: number): Promise<boolean>;
 
   // Camera methods
   getCameras(): Promise<Camera[]>;
   getCamera(id: number): Promise<Camera | undefined>;
   getDefaultCamera(): Promise<Camera | undefined>;
-  createCamera(camera: InsertCamera): Promise<Camera>;
+  createCamera(camera: InsertCamera & Partial<CameraCredentials>): Promise<Camera>;
   updateCamera(id: number, camera: Partial<Camera>): Promise<Camera | undefined>;
   updateCameraSettings(id: number, settings: Camera['settings']): Promise<Camera | undefined>;
   deleteCamera(id: number): Promise<boolean>;
@@ -59,14 +96,17 @@ export interface IStorage {
 
   // Camera Event methods
   getCameraEvents(cameraId?: number, limit?: number): Promise<CameraEvent[]>;
+  queryCameraEvents(query: CameraEventQuery): Promise<CameraEvent[]>;
   createCameraEvent(event: InsertCameraEvent): Promise<CameraEvent>;
 
-  // Notification methods
-  getNotifications(limit?: number): Promise<Notification[]>;
-  getUnreadNotificationsCount(): Promise<number>;
+  // Notification methods. cameraIds limits them to those cameras' notifications;
+  // undefined includes every notification, including ones without a camera.
+  getNotifications(limit?: number, cameraIds?: number[]): Promise<Notification[]>;
+  getNotification(id: number): Promise<Notification | undefined>;
+  getUnreadNotificationsCount(cameraIds?: number[]): Promise<number>;
   createNotification(notification: InsertNotification): Promise<Notification>;
   markNotificationAsRead(id: number): Promise<Notification | undefined>;
-  markAllNotificationsAsRead(): Promise<void>;
+  markAllNotificationsAsRead(cameraIds?: number[]): Promise<void>;
   deleteNotification(id: number): Promise<boolean>;
 }
 
@@ -78,6 +118,8 @@ export class MemStorage implements IStorage {
   private userPreferences: Map<number, UserPreferences>;
   private cameraEvents: Map<number, CameraEvent>;
   private notifications: Map<number, Notification>;
+  private cameraAccess: Map<number, Set<number>>; // camera IDs by user ID
+  sessionStore: session.Store;
 
   currentUserId: number;
   currentCameraId: number;
@@ -95,6 +137,10 @@ export class MemStorage implements IStorage {
     this.userPreferences = new Map();
     this.cameraEvents = new Map();
     this.notifications = new Map();
+    this.cameraAccess = new Map();
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000 // Prune expired sessions every 24h
+    });
 
     this.currentUserId = 1;
     this.currentCameraId = 1;
@@ -116,13 +162,56 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async getUsers(): Promise<User[]> {
+    return Array.from(this.users.values());
+  }
+
+  async getUserCount(): Promise<number> {
+    return this.users.size;
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.currentUserId++;
-    const user: User = { ...insertUser, id };
+    const user: User = { ...insertUser, role: insertUser.role ?? "viewer", id };
+    this.users.set(id, user);
+    return user;
+  }
+
+  async createFirstUser(insertUser: Omit<InsertUser, "role">): Promise<User | undefined> {
+    // Checked and created without awaiting in between, so no other request can interleave
+    if (this.users.size > 0) {
+      return undefined;
+    }
+    const id = this.currentUserId++;
+    const user: User = { ...insertUser, role: "admin", id };
     this.users.set(id, user);
     return user;
   }
 
+  async updateUserRole(id: number, role: UserRole): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) {
+      return undefined;
+    }
+
+    const updatedUser = { ...user, role };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
+  // Camera access methods
+  async getCameraAccess(userId: number): Promise<number[]> {
+    return Array.from(this.cameraAccess.get(userId) ?? []);
+  }
+
+  async setCameraAccess(userId: number, cameraIds: number[]): Promise<void> {
+    this.cameraAccess.set(userId, new Set(cameraIds));
+  }
+
+  async hasCameraAccess(userId: number, cameraId: number): Promise<boolean> {
+    return this.cameraAccess.get(userId)?.has(cameraId) ?? false;
+  }
+
   // Camera methods
   async getCameras(): Promise<Camera[]> {
     return Array.from(this.cameras.values());
@@ -138,10 +227,13 @@ export class MemStorage implements IStorage {
     );
   }
 
-  async createCamera(insertCamera: InsertCamera): Promise<Camera> {
+  async createCamera(insertCamera: InsertCamera & Partial<CameraCredentials>): Promise<Camera> {
     const id = this.currentCameraId++;
     const camera: Camera = {
       ...insertCamera,
+      rtspUsername: insertCamera.rtspUsername ?? null,
+      rtspPassword: insertCamera.rtspPassword ?? null,
+      onvif: null,
       id,
       createdAt: new Date(),
       settings: {
@@ -206,6 +298,7 @@ export class MemStorage implements IStorage {
   }
 
   async deleteCamera(id: number): Promise<boolean> {
+    this.cameraAccess.forEach((cameraIds) => cameraIds.delete(id));
     return this.cameras.delete(id);
   }
 
@@ -239,6 +332,8 @@ export class MemStorage implements IStorage {
     const id = this.currentRecordingId++;
     const recording: Recording = {
       ...insertRecording,
+      startedAt: insertRecording.startedAt ?? null,
+      endedAt: insertRecording.endedAt ?? null,
       id,
       createdAt: new Date()
     };
@@ -352,6 +447,26 @@ export class MemStorage implements IStorage {
     return events;
   }
 
+  async queryCameraEvents(query: CameraEventQuery): Promise<CameraEvent[]> {
+    const { cameraIds, eventType, from, to, before, limit } = query;
+
+    return Array.from(this.cameraEvents.values())
+      .filter((event) => {
+        const time = new Date(event.timestamp).getTime();
+        if (cameraIds && !cameraIds.includes(event.cameraId)) return false;
+        if (eventType && event.eventType !== eventType) return false;
+        if (from && time < from.getTime()) return false;
+        if (to && time > to.getTime()) return false;
+        if (before) {
+          const cursorTime = before.timestamp.getTime();
+          return time < cursorTime || (time === cursorTime && event.id < before.id);
+        }
+        return true;
+      })
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime() || b.id - a.id)
+      .slice(0, limit);
+  }
+
   async createCameraEvent(insertEvent: InsertCameraEvent): Promise<CameraEvent> {
     const id = this.currentCameraEventId++;
     const event: CameraEvent = {
@@ -365,8 +480,13 @@ export class MemStorage implements IStorage {
   }
 
   // Notification methods
-  async getNotifications(limit?: number): Promise<Notification[]> {
-    const notificationArray = Array.from(this.notifications.values());
+  private isNotificationInCameras(notification: Notification, cameraIds?: number[]): boolean {
+    return !cameraIds || (notification.cameraId !== null && cameraIds.includes(notification.cameraId));
+  }
+
+  async getNotifications(limit?: number, cameraIds?: number[]): Promise<Notification[]> {
+    const notificationArray = Array.from(this.notifications.values())
+      .filter((notification) => this.isNotificationInCameras(notification, cameraIds));
     // Sort by timestamp (latest first)
     notificationArray.sort((a, b) => {
       return new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime();
@@ -378,10 +498,14 @@ export class MemStorage implements IStorage {
     return notificationArray;
   }
 
-  async getUnreadNotificationsCount(): Promise<number> {
+  async getNotification(id: number): Promise<Notification | undefined> {
+    return this.notifications.get(id);
+  }
+
+  async getUnreadNotificationsCount(cameraIds?: number[]): Promise<number> {
     let count = 0;
     for (const notification of this.notifications.values()) {
-      if (!notification.isRead) {
+      if (!notification.isRead && this.isNotificationInCameras(notification, cameraIds)) {
         count++;
       }
     }
@@ -415,9 +539,11 @@ export class MemStorage implements IStorage {
     return updatedNotification;
   }
 
-  async markAllNotificationsAsRead(): Promise<void> {
+  async markAllNotificationsAsRead(cameraIds?: number[]): Promise<void> {
     for (const [id, notification] of this.notifications.entries()) {
-      this.notifications.set(id, { ...notification, isRead: true });
+      if (this.isNotificationInCameras(notification, cameraIds)) {
+        this.notifications.set(id, { ...notification, isRead: true });
+      }
     }
   }
 
@@ -426,4 +552,360 @@ export class MemStorage implements IStorage {
   }
 }
 
-export const storage = new MemStorage();
+export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor(private db: Database) {
+    this.sessionStore = new PostgresSessionStore({
+      pool: db.$client,
+      createTableIfMissing: true
+    });
+  }
+
+  // Apply pending migrations before the storage is used
+  async migrate(): Promise<void> {
+    await runMigrations(this.db);
+  }
+
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async getUsers(): Promise<User[]> {
+    return this.db.select().from(users).orderBy(users.id);
+  }
+
+  async getUserCount(): Promise<number> {
+    const [{ count }] = await this.db.select({ count: sql<number>`count(*)::int` }).from(users);
+    return count;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async createFirstUser(insertUser: Omit<InsertUser, "role">): Promise<User | undefined> {
+    return this.db.transaction(async (tx) => {
+      // Concurrent first registrations wait here, so only one of them sees an empty table
+      await tx.execute(sql`select pg_advisory_xact_lock(${FIRST_USER_LOCK_ID})`);
+      const [{ count }] = await tx.select({ count: sql<number>`count(*)::int` }).from(users);
+      if (count > 0) {
+        return undefined;
+      }
+
+      const [user] = await tx.insert(users).values({ ...insertUser, role: "admin" }).returning();
+      return user;
+    });
+  }
+
+  async updateUserRole(id: number, role: UserRole): Promise<User | undefined> {
+    const [user] = await this.db.update(users).set({ role }).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  // Camera access methods
+  async getCameraAccess(userId: number): Promise<number[]> {
+    const grants = await this.db.select({ cameraId: cameraAccess.cameraId })
+      .from(cameraAccess)
+      .where(eq(cameraAccess.userId, userId));
+    return grants.map((grant) => grant.cameraId);
+  }
+
+  async setCameraAccess(userId: number, cameraIds: number[]): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx.delete(cameraAccess).where(eq(cameraAccess.userId, userId));
+      if (cameraIds.length > 0) {
+        await tx.insert(cameraAccess).values(cameraIds.map((cameraId) => ({ userId, cameraId })));
+      }
+    });
+  }
+
+  async hasCameraAccess(userId: number, cameraId: number): Promise<boolean> {
+    const [grant] = await this.db.select({ id: cameraAccess.id })
+      .from(cameraAccess)
+      .where(and(eq(cameraAccess.userId, userId), eq(cameraAccess.cameraId, cameraId)));
+    return !!grant;
+  }
+
+  // Camera methods
+  async getCameras(): Promise<Camera[]> {
+    return this.db.select().from(cameras).orderBy(cameras.id);
+  }
+
+  async getCamera(id: number): Promise<Camera | undefined> {
+    const [camera] = await this.db.select().from(cameras).where(eq(cameras.id, id));
+    return camera;
+  }
+
+  async getDefaultCamera(): Promise<Camera | undefined> {
+    const [camera] = await this.db.select().from(cameras).where(eq(cameras.isDefault, true));
+    return camera;
+  }
+
+  async createCamera(insertCamera: InsertCamera & Partial<CameraCredentials>): Promise<Camera> {
+    return this.db.transaction(async (tx) => {
+      // If this is marked as default, remove default from other cameras
+      if (insertCamera.isDefault) {
+        await tx.update(cameras).set({ isDefault: false }).where(eq(cameras.isDefault, true));
+      }
+
+      const [camera] = await tx.insert(cameras).values(insertCamera).returning();
+      return camera;
+    });
+  }
+
+  async updateCamera(id: number, updateData: Partial<Camera>): Promise<Camera | undefined> {
+    // Never allow the primary key or creation time to be overwritten
+    const { id: _id, createdAt: _createdAt, ...data } = updateData;
+
+    return this.db.transaction(async (tx) => {
+      // If this camera is being set as default, remove default from other cameras
+      if (data.isDefault) {
+        await tx.update(cameras)
+          .set({ isDefault: false })
+          .where(and(ne(cameras.id, id), eq(cameras.isDefault, true)));
+      }
+
+      if (Object.keys(data).length === 0) {
+        const [camera] = await tx.select().from(cameras).where(eq(cameras.id, id));
+        return camera;
+      }
+
+      const [camera] = await tx.update(cameras).set(data).where(eq(cameras.id, id)).returning();
+      return camera;
+    });
+  }
+
+  async updateCameraSettings(id: number, settings: Camera['settings']): Promise<Camera | undefined> {
+    const camera = await this.getCamera(id);
+    if (!camera) {
+      return undefined;
+    }
+
+    const [updatedCamera] = await this.db.update(cameras)
+      .set({ settings: { ...camera.settings, ...settings } as Camera['settings'] })
+      .where(eq(cameras.id, id))
+      .returning();
+    return updatedCamera;
+  }
+
+  async deleteCamera(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(cameraAccess).where(eq(cameraAccess.cameraId, id));
+      const deleted = await tx.delete(cameras).where(eq(cameras.id, id)).returning({ id: cameras.id });
+      return deleted.length > 0;
+    });
+  }
+
+  // Recording methods
+  async getRecordings(cameraId?: number, limit?: number): Promise<Recording[]> {
+    const query = this.db.select().from(recordings)
+      .where(cameraId ? eq(recordings.cameraId, cameraId) : undefined)
+      .orderBy(desc(recordings.createdAt), desc(recordings.id))
+      .$dynamic();
+
+    return limit ? query.limit(limit) : query;
+  }
+
+  async getRecording(id: number): Promise<Recording | undefined> {
+    const [recording] = await this.db.select().from(recordings).where(eq(recordings.id, id));
+    return recording;
+  }
+
+  async createRecording(insertRecording: InsertRecording): Promise<Recording> {
+    const [recording] = await this.db.insert(recordings)
+      .values(insertRecording as typeof recordings.$inferInsert)
+      .returning();
+    return recording;
+  }
+
+  async deleteRecording(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(recordings).where(eq(recordings.id, id)).returning({ id: recordings.id });
+    return deleted.length > 0;
+  }
+
+  // Screenshot methods
+  async getScreenshots(cameraId?: number, limit?: number): Promise<Screenshot[]> {
+    const query = this.db.select().from(screenshots)
+      .where(cameraId ? eq(screenshots.cameraId, cameraId) : undefined)
+      .orderBy(desc(screenshots.createdAt), desc(screenshots.id))
+      .$dynamic();
+
+    return limit ? query.limit(limit) : query;
+  }
+
+  async getScreenshot(id: number): Promise<Screenshot | undefined> {
+    const [screenshot] = await this.db.select().from(screenshots).where(eq(screenshots.id, id));
+    return screenshot;
+  }
+
+  async createScreenshot(insertScreenshot: InsertScreenshot): Promise<Screenshot> {
+    const [screenshot] = await this.db.insert(screenshots).values(insertScreenshot).returning();
+    return screenshot;
+  }
+
+  async deleteScreenshot(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(screenshots).where(eq(screenshots.id, id)).returning({ id: screenshots.id });
+    return deleted.length > 0;
+  }
+
+  // User Preferences methods
+  async getUserPreferences(userId: number): Promise<UserPreferences | undefined> {
+    const [preferences] = await this.db.select().from(userPreferences).where(eq(userPreferences.userId, userId));
+    return preferences;
+  }
+
+  async createUserPreferences(insertPreferences: InsertUserPreferences): Promise<UserPreferences> {
+    const [preferences] = await this.db.insert(userPreferences).values(insertPreferences).returning();
+    return preferences;
+  }
+
+  async updateUserPreferences(id: number, updateData: Partial<UserPreferences>): Promise<UserPreferences | undefined> {
+    const { id: _id, createdAt: _createdAt, ...data } = updateData;
+
+    const [preferences] = await this.db.update(userPreferences)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(userPreferences.id, id))
+      .returning();
+    return preferences;
+  }
+
+  // Camera Event methods
+  async getCameraEvents(cameraId?: number, limit?: number): Promise<CameraEvent[]> {
+    const query = this.db.select().from(cameraEvents)
+      .where(cameraId ? eq(cameraEvents.cameraId, cameraId) : undefined)
+      .orderBy(desc(cameraEvents.timestamp), desc(cameraEvents.id))
+      .$dynamic();
+
+    return limit ? query.limit(limit) : query;
+  }
+
+  async queryCameraEvents(query: CameraEventQuery): Promise<CameraEvent[]> {
+    const { cameraIds, eventType, from, to, before, limit } = query;
+    if (cameraIds && cameraIds.length === 0) {
+      return [];
+    }
+
+    // Postgres keeps microseconds but cursors carry JS milliseconds,
+    // so page on the timestamp truncated to milliseconds
+    const eventTime = sql<Date>`date_trunc('milliseconds', ${cameraEvents.timestamp})`;
+
+    return this.db.select().from(cameraEvents)
+      .where(and(
+        cameraIds ? inArray(cameraEvents.cameraId, cameraIds) : undefined,
+        eventType ? eq(cameraEvents.eventType, eventType) : undefined,
+        from ? gte(cameraEvents.timestamp, from) : undefined,
+        to ? lte(cameraEvents.timestamp, to) : undefined,
+        // Keyset pagination: strictly older than the cursor, ties broken by ID
+        before
+          ? or(
+            lt(eventTime, before.timestamp),
+            and(eq(eventTime, before.timestamp), lt(cameraEvents.id, before.id))
+          )
+          : undefined
+      ))
+      .orderBy(desc(eventTime), desc(cameraEvents.id))
+      .limit(limit);
+  }
+
+  async createCameraEvent(insertEvent: InsertCameraEvent): Promise<CameraEvent> {
+    const [event] = await this.db.insert(cameraEvents).values(insertEvent).returning();
+    return event;
+  }
+
+  // Notification methods
+  async getNotifications(limit?: number, cameraIds?: number[]): Promise<Notification[]> {
+    if (cameraIds && cameraIds.length === 0) {
+      return [];
+    }
+
+    const query = this.db.select().from(notifications)
+      .where(cameraIds ? inArray(notifications.cameraId, cameraIds) : undefined)
+      .orderBy(desc(notifications.timestamp), desc(notifications.id))
+      .$dynamic();
+
+    return limit ? query.limit(limit) : query;
+  }
+
+  async getNotification(id: number): Promise<Notification | undefined> {
+    const [notification] = await this.db.select().from(notifications).where(eq(notifications.id, id));
+    return notification;
+  }
+
+  async getUnreadNotificationsCount(cameraIds?: number[]): Promise<number> {
+    if (cameraIds && cameraIds.length === 0) {
+      return 0;
+    }
+
+    const [result] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(notifications)
+      .where(and(
+        eq(notifications.isRead, false),
+        cameraIds ? inArray(notifications.cameraId, cameraIds) : undefined
+      ));
+    return result?.count ?? 0;
+  }
+
+  async createNotification(insertNotification: InsertNotification): Promise<Notification> {
+    const [notification] = await this.db.insert(notifications).values({
+      ...insertNotification,
+      type: insertNotification.type || "info"
+    }).returning();
+    return notification;
+  }
+
+  async markNotificationAsRead(id: number): Promise<Notification | undefined> {
+    const [notification] = await this.db.update(notifications)
+      .set({ isRead: true })
+      .where(eq(notifications.id, id))
+      .returning();
+    return notification;
+  }
+
+  async markAllNotificationsAsRead(cameraIds?: number[]): Promise<void> {
+    if (cameraIds && cameraIds.length === 0) {
+      return;
+    }
+
+    await this.db.update(notifications)
+      .set({ isRead: true })
+      .where(and(
+        eq(notifications.isRead, false),
+        cameraIds ? inArray(notifications.cameraId, cameraIds) : undefined
+      ));
+  }
+
+  async deleteNotification(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(notifications).where(eq(notifications.id, id)).returning({ id: notifications.id });
+    return deleted.length > 0;
+  }
+}
+
+/**
+ * Select the storage backend from configuration.
+ * STORAGE_DRIVER may be "postgres" or "memory"; when unset, PostgreSQL is
+ * used whenever DATABASE_URL is provided.
+ */
+function createStorage(): IStorage {
+  const driver = process.env.STORAGE_DRIVER || (process.env.DATABASE_URL ? "postgres" : "memory");
+
+  switch (driver) {
+    case "postgres":
+      return new DatabaseStorage(createDb());
+    case "memory":
+      return new MemStorage();
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}", expected "postgres" or "memory"`);
+  }
+}
+
+export const storage = createStorage();
@@ -1,27 +1,152 @@
-import { pgTable, text, serial, integer, boolean, json, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, json, timestamp, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// User roles, from most to least privileged
+export const USER_ROLES = ["admin", "operator", "viewer"] as const;
+export type UserRole = typeof USER_ROLES[number];
+
+// Roles allowed to perform each action. Watching streams only needs access to the camera.
+export const PERMISSIONS = {
+  "cameras:manage": ["admin"], // add, edit and delete cameras
+  "cameras:configure": ["admin", "operator"], // change camera settings, record
+  "media:delete": ["admin", "operator"], // delete screenshots and recordings
+  "diagnostics:run": ["admin", "operator"],
+  "cameras:ptz": ["admin", "operator"], // pan, tilt and zoom cameras, save presets
+  "users:manage": ["admin"], // create users, change roles and camera grants
+} as const satisfies Record<string, readonly UserRole[]>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+/**
+ * Check whether a role is allowed to perform an action
+ */
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  return !!role && (PERMISSIONS[permission] as readonly string[]).includes(role);
+}
+
 // User schema (kept from original)
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  role: text("role").$type<UserRole>().notNull().default("viewer"),
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
+}).extend({
+  role: z.enum(USER_ROLES).optional(),
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+// Transcode profiles control how FFmpeg encodes a camera's live stream.
+// JSMpeg streams are always MPEG1; the codec applies to HLS output.
+export const transcodeProfileSchema = z.object({
+  name: z.string().trim().min(1, "Profile name is required").max(40),
+  resolution: z.string().regex(/^\d{2,4}x\d{2,4}$/, "Resolution must look like 1280x720").nullable(), // null keeps the source resolution
+  bitrate: z.number().int().min(100).max(20000), // in kbps
+  fps: z.number().int().min(1).max(60),
+  codec: z.enum(["mpeg1video", "h264", "copy"]),
+  audio: z.boolean(),
+  rtspTransport: z.enum(["tcp", "udp"]),
+});
+
+export type TranscodeProfile = z.infer<typeof transcodeProfileSchema>;
+
+// Built-in profiles available to every camera; "standard" matches the original stream settings
+export const DEFAULT_TRANSCODE_PROFILES: TranscodeProfile[] = [
+  { name: "standard", resolution: "640x480", bitrate: 1000, fps: 30, codec: "mpeg1video", audio: true, rtspTransport: "tcp" },
+  { name: "high", resolution: "1280x720", bitrate: 2500, fps: 30, codec: "h264", audio: true, rtspTransport: "tcp" },
+  { name: "low-bandwidth", resolution: "320x240", bitrate: 400, fps: 15, codec: "mpeg1video", audio: false, rtspTransport: "tcp" },
+  { name: "passthrough", resolution: null, bitrate: 2000, fps: 30, codec: "copy", audio: true, rtspTransport: "tcp" },
+];
+
+// Transcode fields of a camera settings update
+export const transcodeSettingsSchema = z.object({
+  transcodeProfiles: z.array(transcodeProfileSchema).max(20)
+    .refine((profiles) => new Set(profiles.map((profile) => profile.name)).size === profiles.length, "Profile names must be unique")
+    .refine(
+      (profiles) => profiles.every((profile) => !DEFAULT_TRANSCODE_PROFILES.some((preset) => preset.name === profile.name)),
+      "Built-in profiles cannot be redefined"
+    )
+    .optional(),
+  transcodeProfile: z.string().min(1).optional(),
+});
+
+// Motion zones are polygons over the camera image. Points are normalized to 0-1
+// so zones keep their place when the stream resolution changes.
+export const motionZoneSchema = z.object({
+  id: z.string().min(1).max(40),
+  name: z.string().trim().min(1, "Zone name is required").max(40),
+  mode: z.enum(["include", "exclude"]), // only watch include zones; never watch exclude zones
+  points: z.array(z.object({
+    x: z.number().min(0).max(1),
+    y: z.number().min(0).max(1),
+  })).min(3, "A zone needs at least 3 points").max(50),
+});
+
+export type MotionZone = z.infer<typeof motionZoneSchema>;
+
+// Motion detection fields of a camera settings update
+export const motionSettingsSchema = z.object({
+  motionDetection: z.boolean().optional(),
+  motionSensitivity: z.number().int().min(1).max(100).optional(),
+  motionZones: z.array(motionZoneSchema).max(20)
+    .refine((zones) => new Set(zones.map((zone) => zone.id)).size === zones.length, "Zone IDs must be unique")
+    .optional(),
+});
+
+// Continuous recording fields of a camera settings update
+export const recordingSettingsSchema = z.object({
+  continuousRecording: z.boolean().optional(),
+  segmentDuration: z.number().int().min(10).max(3600).optional(), // in seconds
+  retentionDays: z.number().int().min(0).max(3650).optional(),
+  maxStorageMb: z.number().int().min(0).max(10 * 1024 * 1024).optional(),
+});
+
+// A media profile reported by an ONVIF camera
+export interface OnvifProfile {
+  token: string;
+  name: string;
+  encoding?: string; // e.g. H264, H265 or JPEG
+  width?: number;
+  height?: number;
+  frameRate?: number;
+  bitrate?: number; // in kbps
+  streamUri?: string; // RTSP URL without credentials
+}
+
+// What an ONVIF camera reported about itself when it was last queried
+export interface OnvifDeviceDetails {
+  deviceUrl: string; // Device service address, e.g. http://192.168.1.64/onvif/device_service
+  manufacturer?: string;
+  model?: string;
+  firmwareVersion?: string;
+  serialNumber?: string;
+  hardwareId?: string;
+  ptzUrl?: string; // PTZ service address, only reported by cameras that can pan, tilt or zoom
+  profiles: OnvifProfile[];
+  mainProfileToken?: string; // Profile streamed for high quality
+  subProfileToken?: string; // Profile streamed for low quality and grid tiles
+  // ONVIF account given when the camera was queried, encrypted like the RTSP credentials.
+  // Unset when the camera's RTSP account is used; never sent to clients.
+  username?: string;
+  password?: string;
+  updatedAt: string;
+}
+
 // Camera configurations
 export const cameras = pgTable("cameras", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
-  rtspUrl: text("rtsp_url").notNull(),
+  rtspUrl: text("rtsp_url").notNull(), // without credentials
+  // RTSP credentials, encrypted at rest with the server key
+  rtspUsername: text("rtsp_username"),
+  rtspPassword: text("rtsp_password"),
   isDefault: boolean("is_default").default(false),
   isActive: boolean("is_active").notNull().default(true),
   createdAt: timestamp("created_at").notNull().defaultNow(),
@@ -36,6 +161,19 @@ export const cameras = pgTable("cameras", {
     dewarpEnabled: boolean;
     streamQuality: string;
     renderingQuality: string;
+    streamMode?: string; // "jsmpeg" (default), "hls" or "webrtc"
+    // Continuous recording and retention policy
+    continuousRecording?: boolean;
+    segmentDuration?: number; // in seconds
+    retentionDays?: number; // 0 keeps segments forever
+    maxStorageMb?: number; // 0 means no disk quota
+    // Live stream encoding
+    transcodeProfiles?: TranscodeProfile[]; // custom profiles in addition to the built-in ones
+    transcodeProfile?: string; // name of the active profile
+    // Motion detection
+    motionDetection?: boolean;
+    motionSensitivity?: number; // 1-100, higher triggers on smaller changes
+    motionZones?: MotionZone[]; // no include zones means the whole image is watched
   }>().default({
     brightness: 0,
     contrast: 0,
@@ -48,6 +186,7 @@ export const cameras = pgTable("cameras", {
     streamQuality: "high",
     renderingQuality: "balanced"
   }),
+  onvif: json("onvif").$type<OnvifDeviceDetails>(), // null until the camera is queried over ONVIF
 });
 
 export const insertCameraSchema = createInsertSchema(cameras).pick({
@@ -59,6 +198,19 @@ export const insertCameraSchema = createInsertSchema(cameras).pick({
 
 export type InsertCamera = z.infer<typeof insertCameraSchema>;
 export type Camera = typeof cameras.$inferSelect;
+export type CameraCredentials = Pick<Camera, "rtspUsername" | "rtspPassword">;
+
+// Cameras that non-admin users are allowed to see. Admins can see every camera.
+export const cameraAccess = pgTable("camera_access", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  cameraId: integer("camera_id").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("camera_access_user_camera_unique").on(table.userId, table.cameraId),
+]);
+
+export type CameraAccess = typeof cameraAccess.$inferSelect;
 
 // Recordings for camera footage
 export const recordings = pgTable("recordings", {
@@ -70,12 +222,16 @@ export const recordings = pgTable("recordings", {
   fileSize: integer("file_size").notNull(), // in bytes
   thumbnailUrl: text("thumbnail_url"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
+  // When the footage itself begins and ends; null for recordings saved before these were stored
+  startedAt: timestamp("started_at"),
+  endedAt: timestamp("ended_at"),
   metadata: json("metadata").$type<{
     resolution: string;
     format: string;
     fps: number;
     hasAudio: boolean;
     viewMode: string;
+    continuous?: boolean; // written by the continuous recorder
   }>(),
 });
 
@@ -86,6 +242,8 @@ export const insertRecordingSchema = createInsertSchema(recordings).pick({
   duration: true,
   fileSize: true,
   thumbnailUrl: true,
+  startedAt: true,
+  endedAt: true,
   metadata: true,
 });
 
@@ -99,6 +257,7 @@ export const screenshots = pgTable("screenshots", {
   fileName: text("file_name").notNull(),
   filePath: text("file_path").notNull(),
   fileSize: integer("file_size").notNull(), // in bytes
+  thumbnailUrl: text("thumbnail_url"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   metadata: json("metadata").$type<{
     resolution: string;
@@ -112,12 +271,17 @@ export const insertScreenshotSchema = createInsertSchema(screenshots).pick({
   fileName: true,
   filePath: true,
   fileSize: true,
+  thumbnailUrl: true,
   metadata: true,
 });
 
 export type InsertScreenshot = z.infer<typeof insertScreenshotSchema>;
 export type Screenshot = typeof screenshots.$inferSelect;
 
+// Live view layouts: one camera, or a grid of N x N cameras
+export const GRID_LAYOUTS = ["single", "2x2", "3x3", "4x4"] as const;
+export type GridLayout = typeof GRID_LAYOUTS[number];
+
 // User preferences for settings
 export const userPreferences = pgTable("user_preferences", {
   id: serial("id").primaryKey(),
@@ -127,6 +291,7 @@ export const userPreferences = pgTable("user_preferences", {
   enableNotifications: boolean("enable_notifications").notNull().default(true),
   defaultViewMode: text("default_view_mode").notNull().default("360"),
   defaultCamera: integer("default_camera"),
+  gridLayout: text("grid_layout").notNull().default("single"), // one of GRID_LAYOUTS
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
@@ -138,6 +303,9 @@ export const insertUserPreferencesSchema = createInsertSchema(userPreferences).p
   enableNotifications: true,
   defaultViewMode: true,
   defaultCamera: true,
+  gridLayout: true,
+}).extend({
+  gridLayout: z.enum(GRID_LAYOUTS).optional(),
 });
 
 export type InsertUserPreferences = z.infer<typeof insertUserPreferencesSchema>;